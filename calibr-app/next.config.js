@@ -1,6 +1,10 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  // Exposed to the browser bundle; see DATA_SOURCE in src/lib/sui-config.ts
+  env: {
+    DATA_SOURCE: process.env.DATA_SOURCE || "chain",
+  },
 }
 
 module.exports = nextConfig
@@ -8,6 +8,8 @@ dotenv.config();
 
 // --- CONFIGURATION ---
 const NETWORK = "testnet";
+// Point at a different fullnode (e.g. scripts/chain-emulator.ts) with SUI_RPC_URL
+const RPC_URL = process.env.SUI_RPC_URL || getJsonRpcFullnodeUrl(NETWORK);
 // Replace with your latest package ID if changed
 const PACKAGE_ID = process.env.NEXT_PUBLIC_PACKAGE_ID || "0xf4963058f286a7da4a0e8b5e766523815f4d5f60b6e3cecdc10b32fbf72ccf70";
 const ADMIN_CAP_ID = process.env.ADMIN_CAP_ID || "0xc293b77b644f967095f155b8bf162458e296f5d3023e2f91e4b2b05ed4d763bf";
@@ -21,13 +23,13 @@ const POLLING_INTERVAL_MS = 60 * 1000; // 1 minute
 // "MOCK"   = Free, deterministic (Simulated)
 // "OPENAI" = Paid, high quality (GPT-4o, GPT-3.5)
 // "GROQ"   = Free (Beta), insanely fast (Llama 3, Mixtral)
-const AI_PROVIDER: "MOCK" | "OPENAI" | "GROQ" = "GROQ";
+const AI_PROVIDER = (process.env.AI_PROVIDER || "GROQ") as "MOCK" | "OPENAI" | "GROQ";
 
 // Models
 const MODEL_OPENAI = "gpt-3.5-turbo";
 const MODEL_GROQ = "llama-3.3-70b-versatile"; // Free & Fast
 
-const client = new SuiClient({ url: getJsonRpcFullnodeUrl(NETWORK), network: NETWORK });
+const client = new SuiClient({ url: RPC_URL, network: NETWORK });
 
 // OpenAI Client (Compatible with Groq)
 const apiKey = AI_PROVIDER === "GROQ"
@@ -0,0 +1,1458 @@
+import { Transaction, TransactionDataBuilder } from "@mysten/sui/transactions";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { bcs } from "@mysten/sui/bcs";
+import { fromBase64, normalizeStructTag, normalizeSuiAddress, toBase58 } from "@mysten/sui/utils";
+import { createHash } from "crypto";
+import http from "http";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+// --- CONFIGURATION ---
+// Must match CONTRACT_IDS.testnet in src/lib/sui-config.ts so the app needs no changes
+const PACKAGE_ID = normalizeSuiAddress(process.env.NEXT_PUBLIC_PACKAGE_ID || "0x75ac97b98aceeeab79b2c7177266799528b0ecb16a56e8698ffde75d5da26667");
+const ADMIN_CAP_ID = normalizeSuiAddress(process.env.ADMIN_CAP_ID || "0x108534a9cebf7eff2a968bbac578b9c24bc60fc6637f6c987d6a60397ffcdf0e");
+const TREASURY_ID = normalizeSuiAddress("0xc90e7dc8b61899cf6d21bacb6223f7fe563bcc3e051fac06eeee22d3a94f780e");
+const POINTS_MARKET_CONFIG_ID = normalizeSuiAddress("0x55895949dc612b1f9dac92ab8327e75d5ab95215cedd9e0f9541c69a407c2e22");
+const BALANCE_REGISTRY_ID = normalizeSuiAddress("0xa94d7ecbcfe896be288353075c89a3764f0f7fc4f338e8e8b07ba8f8536a44f1");
+
+const PORT = Number(process.env.EMULATOR_PORT || 9000);
+// Everything derived (object IDs, digests, demo keys) comes from the seed
+const SEED = process.env.EMULATOR_SEED || "calibr";
+
+const MIST_PER_SUI = BigInt(1_000_000_000);
+// Genesis funds every address the first time it is seen
+const GENESIS_BALANCE = BigInt(1_000) * MIST_PER_SUI;
+const REFERENCE_GAS_PRICE = BigInt(1_000);
+const COMPUTATION_COST = BigInt(1_000) * REFERENCE_GAS_PRICE;
+const STORAGE_COST_PER_OBJECT = BigInt(2_000_000);
+const EPOCH_DURATION_MS = 24 * 60 * 60 * 1000;
+// Max page size of the real fullnode
+const PAGE_LIMIT = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// --- 1. DETERMINISTIC IDS & CLOCK ---
+
+function sha256(input: string | Uint8Array): Buffer {
+    return createHash("sha256").update(input).digest();
+}
+
+let idCounter = 0;
+function nextObjectId(): string {
+    return normalizeSuiAddress(sha256(`${SEED}:object:${idCounter++}`).toString("hex"));
+}
+
+function objectDigest(id: string, version: number): string {
+    return toBase58(sha256(`${SEED}:digest:${id}:${version}`));
+}
+
+function seededKeypair(name: string): Ed25519Keypair {
+    return Ed25519Keypair.fromSecretKey(new Uint8Array(sha256(`${SEED}:key:${name}`)));
+}
+
+// Genesis sits ten days back so the seeded history has room to breathe
+const GENESIS_MS = Date.now() - 10 * DAY_MS;
+// Stands in for the genesis checkpoint digest; the chain identifier is its first 4 bytes
+const GENESIS_CHECKPOINT = sha256(`${SEED}:genesis`);
+const CHAIN_DIGEST = toBase58(GENESIS_CHECKPOINT);
+
+// Seeding replays history at fixed points in the past; afterwards time is real
+let frozenTimeMs: number | null = null;
+const now = () => frozenTimeMs ?? Date.now();
+const currentEpoch = () => 1 + Math.floor((now() - GENESIS_MS) / EPOCH_DURATION_MS);
+
+// --- 2. STATE ---
+// Objects carry Move field values (u64 as bigint); they are rendered to
+// JSON-RPC form on read. Tables live beside them, keyed by table ID.
+
+type Owner = { AddressOwner: string } | { Shared: { initial_shared_version: number } };
+
+interface SimObject {
+    id: string;
+    type: string;
+    owner: Owner;
+    version: number;
+    digest: string;
+    previousTransaction: string;
+    hasPublicTransfer: boolean;
+    fields: Record<string, any>;
+}
+
+interface ChainState {
+    objects: Map<string, SimObject>;
+    tables: Map<string, Map<string, unknown>>;
+    // Addresses that already received their genesis coin
+    funded: Set<string>;
+}
+
+let state: ChainState = { objects: new Map(), tables: new Map(), funded: new Set() };
+
+const events: any[] = [];
+const transactions = new Map<string, any>();
+let checkpoint = 0;
+
+const TYPES = {
+    UserProfile: `${PACKAGE_ID}::calibr::UserProfile`,
+    Market: `${PACKAGE_ID}::calibr::Market`,
+    Prediction: `${PACKAGE_ID}::calibr::Prediction`,
+    AdminCap: `${PACKAGE_ID}::market::AdminCap`,
+    PointsBalance: `${PACKAGE_ID}::points_token::PointsBalance`,
+    Treasury: `${PACKAGE_ID}::treasury::Treasury`,
+    PointsMarketConfig: `${PACKAGE_ID}::points_market::PointsMarketConfig`,
+    BalanceRegistry: `${PACKAGE_ID}::points_market::BalanceRegistry`,
+    Coin: "0x2::coin::Coin<0x2::sui::SUI>",
+    SUI: "0x2::sui::SUI",
+};
+
+function isAddressOwner(owner: Owner, address: string): boolean {
+    return "AddressOwner" in owner && owner.AddressOwner === address;
+}
+
+function coinsOf(address: string): SimObject[] {
+    fund(address);
+    return Array.from(state.objects.values()).filter(o => o.type === TYPES.Coin && isAddressOwner(o.owner, address));
+}
+
+function fund(address: string) {
+    if (state.funded.has(address)) return;
+    state.funded.add(address);
+    const id = nextObjectId();
+    state.objects.set(id, {
+        id,
+        type: TYPES.Coin,
+        owner: { AddressOwner: address },
+        version: 1,
+        digest: objectDigest(id, 1),
+        previousTransaction: CHAIN_DIGEST,
+        hasPublicTransfer: true,
+        fields: { balance: GENESIS_BALANCE },
+    });
+}
+
+function createTable(): string {
+    const id = nextObjectId();
+    state.tables.set(id, new Map());
+    return id;
+}
+
+function tableField(tableId: string, keyType: string, valueType: string) {
+    return { type: `0x2::table::Table<${keyType}, ${valueType}>`, tableId };
+}
+
+function genesis(admin: string) {
+    const shared = (id: string, type: string, fields: Record<string, any>) => {
+        state.objects.set(id, {
+            id,
+            type,
+            owner: { Shared: { initial_shared_version: 1 } },
+            version: 1,
+            digest: objectDigest(id, 1),
+            previousTransaction: CHAIN_DIGEST,
+            hasPublicTransfer: false,
+            fields,
+        });
+    };
+
+    state.objects.set(ADMIN_CAP_ID, {
+        id: ADMIN_CAP_ID,
+        type: TYPES.AdminCap,
+        owner: { AddressOwner: admin },
+        version: 1,
+        digest: objectDigest(ADMIN_CAP_ID, 1),
+        previousTransaction: CHAIN_DIGEST,
+        hasPublicTransfer: true,
+        fields: {},
+    });
+    shared(TREASURY_ID, TYPES.Treasury, {
+        balance: BigInt(0),
+        total_minted: BigInt(0),
+        circulating_supply: BigInt(0),
+        total_burned: BigInt(0),
+        accumulated_fees: BigInt(0),
+    });
+    shared(POINTS_MARKET_CONFIG_ID, TYPES.PointsMarketConfig, {
+        base_price_mist: BigInt(10_000_000),
+        alpha: BigInt(1_000_000),
+        supply_cap: BigInt(100_000_000),
+    });
+    shared(BALANCE_REGISTRY_ID, TYPES.BalanceRegistry, {
+        balances: tableField(createTable(), "address", "0x2::object::ID"),
+    });
+}
+
+// --- 3. RENDERING (JSON-RPC shapes) ---
+
+function renderValue(value: any): any {
+    if (typeof value === "bigint") return value.toString();
+    if (Array.isArray(value)) return value.map(renderValue);
+    if (value && typeof value === "object") {
+        if ("tableId" in value) {
+            return {
+                type: value.type,
+                fields: { id: { id: value.tableId }, size: String(state.tables.get(value.tableId)?.size ?? 0) },
+            };
+        }
+        return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, renderValue(v)]));
+    }
+    return value;
+}
+
+function renderObject(object: SimObject | undefined, id: string, options: any = {}) {
+    if (!object) return { error: { code: "notExists", object_id: id } };
+    return {
+        data: {
+            objectId: object.id,
+            version: String(object.version),
+            digest: object.digest,
+            ...(options.showType && { type: object.type }),
+            ...(options.showOwner && { owner: object.owner }),
+            ...(options.showPreviousTransaction && { previousTransaction: object.previousTransaction }),
+            ...(options.showStorageRebate && { storageRebate: "0" }),
+            ...(options.showContent && {
+                content: {
+                    dataType: "moveObject",
+                    type: object.type,
+                    hasPublicTransfer: object.hasPublicTransfer,
+                    fields: { id: { id: object.id }, ...renderValue(object.fields) },
+                },
+            }),
+        },
+    };
+}
+
+// --- 4. MOVE FUNCTIONS ---
+// TypeScript ports of the entry functions the app and oracle call
+// (calibr-transactions.ts, points-transactions.ts). Abort codes match the Move sources.
+
+class ExecutionFailure extends Error {
+    abortError?: { module_id: string; function: string; error_code: number };
+}
+
+class MoveAbort extends ExecutionFailure {
+    constructor(module: string, fn: string, code: number) {
+        super(
+            `MoveAbort(MoveLocation { module: ModuleId { address: ${PACKAGE_ID.slice(2)}, name: Identifier("${module}") }, ` +
+            `function: 0, instruction: 0, function_name: Some("${fn}") }, ${code})`
+        );
+        this.abortError = { module_id: `${PACKAGE_ID}::${module}`, function: fn, error_code: code };
+    }
+}
+
+/** A Coin<SUI> value moving between commands of one transaction */
+interface CoinValue {
+    kind: "coin";
+    value: bigint;
+    consumed: boolean;
+}
+
+interface ExecutionContext {
+    sender: string;
+    digest: string;
+    epoch: number;
+    timestampMs: number;
+    module: string;
+    fn: string;
+    events: { module: string; name: string; fields: Record<string, any> }[];
+    created: Set<string>;
+    mutated: Set<string>;
+    deleted: Set<string>;
+}
+
+const struct = (address: string, module: string, name: string, typeArguments: any[] = []) =>
+    ({ Struct: { address, module, name, typeArguments } });
+const calibrStruct = (module: string, name: string) => struct(PACKAGE_ID, module, name);
+const ref = (type: any) => ({ Reference: type });
+const mutRef = (type: any) => ({ MutableReference: type });
+const TX_CONTEXT = mutRef(struct("0x2", "tx_context", "TxContext"));
+const SUI_COIN = struct("0x2", "coin", "Coin", [struct("0x2", "sui", "SUI")]);
+
+interface MoveFunction {
+    /** Normalized signature, as sui_getNormalizedMoveFunction returns it */
+    parameters: any[];
+    run: (ctx: ExecutionContext, args: any[]) => void;
+}
+
+function check(ctx: ExecutionContext, condition: boolean, code: number, module: string = ctx.module) {
+    if (!condition) throw new MoveAbort(module, ctx.fn, code);
+}
+
+function emit(ctx: ExecutionContext, name: string, fields: Record<string, any>) {
+    ctx.events.push({ module: ctx.module, name, fields });
+}
+
+function createObject(ctx: ExecutionContext, type: string, owner: Owner, fields: Record<string, any>, hasPublicTransfer = true): SimObject {
+    const id = nextObjectId();
+    const object: SimObject = { id, type, owner, version: 0, digest: "", previousTransaction: ctx.digest, hasPublicTransfer, fields };
+    state.objects.set(id, object);
+    ctx.created.add(id);
+    return object;
+}
+
+function transferCoin(ctx: ExecutionContext, value: bigint, recipient: string) {
+    if (value > BigInt(0)) createObject(ctx, TYPES.Coin, { AddressOwner: recipient }, { balance: value });
+}
+
+function takeCoin(coin: CoinValue): bigint {
+    coin.consumed = true;
+    return coin.value;
+}
+
+// math.move
+function riskFromConfidence(ctx: ExecutionContext, confidence: bigint): bigint {
+    check(ctx, confidence >= BigInt(50), 100, "math");
+    check(ctx, confidence <= BigInt(90), 101, "math");
+    const risk = (BigInt(100) * (confidence - BigInt(50))) / BigInt(40);
+    return risk > BigInt(5) ? risk : BigInt(5);
+}
+
+function skill(confidence: bigint, correct: boolean): bigint {
+    const outcome = correct ? BigInt(100) : BigInt(0);
+    const diff = confidence >= outcome ? confidence - outcome : outcome - confidence;
+    return (BigInt(10_000) - diff * diff) / BigInt(10);
+}
+
+// calibr.move / events.move
+const maxConfidenceFor = (score: bigint) => (score > BigInt(850) ? BigInt(90) : score > BigInt(699) ? BigInt(80) : BigInt(70));
+const tierName = (score: bigint) => (score > BigInt(850) ? "Elite" : score >= BigInt(700) ? "Proven" : "New");
+const tierNameFromCap = (cap: bigint) => (cap >= BigInt(90) ? "Elite" : cap >= BigInt(80) ? "Proven" : "New");
+const bytes = (text: string) => Array.from(new TextEncoder().encode(text));
+
+function placePrediction(ctx: ExecutionContext, profile: SimObject, market: SimObject, side: boolean, confidence: bigint, pointsBalance?: SimObject) {
+    check(ctx, profile.fields.owner === ctx.sender, 400);
+    if (pointsBalance) check(ctx, pointsBalance.fields.owner === ctx.sender, 420);
+    check(ctx, !market.fields.locked && !market.fields.resolved, 401);
+    const participants = state.tables.get(market.fields.participants.tableId)!;
+    check(ctx, !participants.has(ctx.sender), 409);
+    check(ctx, confidence >= BigInt(50), 402);
+    check(ctx, confidence <= BigInt(90), 403);
+    const maxConfidence: bigint = profile.fields.max_confidence;
+    check(ctx, confidence <= maxConfidence, 404);
+
+    // calibr::fixed_stake()
+    const stake = BigInt(100);
+    if (pointsBalance) {
+        check(ctx, pointsBalance.fields.balance >= stake, 500, "points_token");
+        pointsBalance.fields.balance -= stake;
+        ctx.mutated.add(pointsBalance.id);
+    }
+    const risk = riskFromConfidence(ctx, confidence);
+
+    if (side) {
+        market.fields.yes_risk_total += risk;
+        market.fields.yes_count += BigInt(1);
+    } else {
+        market.fields.no_risk_total += risk;
+        market.fields.no_count += BigInt(1);
+    }
+    participants.set(ctx.sender, true);
+    ctx.mutated.add(market.id);
+
+    const prediction = createObject(ctx, TYPES.Prediction, { AddressOwner: ctx.sender }, {
+        market_id: market.id,
+        side,
+        confidence,
+        stake,
+        risked: risk,
+        settled: false,
+    });
+
+    emit(ctx, "PredictionPlaced", {
+        prediction_id: prediction.id,
+        market_id: market.id,
+        user: ctx.sender,
+        side,
+        side_description: bytes(side ? "YES" : "NO"),
+        confidence,
+        risk,
+        protected: risk >= stake ? BigInt(0) : stake - risk,
+        stake,
+        user_max_confidence: maxConfidence,
+    });
+}
+
+function settlePrediction(ctx: ExecutionContext, profile: SimObject, prediction: SimObject, market: SimObject, pointsBalance?: SimObject) {
+    check(ctx, profile.fields.owner === ctx.sender, 400);
+    if (pointsBalance) check(ctx, pointsBalance.fields.owner === ctx.sender, 420);
+    check(ctx, market.fields.resolved, 405);
+    check(ctx, !prediction.fields.settled, 406);
+    check(ctx, prediction.fields.market_id === market.id, 407);
+
+    const outcome: boolean = market.fields.outcome;
+    const won = prediction.fields.side === outcome;
+    const stake: bigint = prediction.fields.stake;
+    const confidence: bigint = prediction.fields.confidence;
+    const risk: bigint = prediction.fields.risked;
+
+    let payout: bigint;
+    if (won) {
+        const loserPool: bigint = outcome ? market.fields.no_risk_total : market.fields.yes_risk_total;
+        const winnerRisk: bigint = outcome ? market.fields.yes_risk_total : market.fields.no_risk_total;
+        payout = winnerRisk === BigInt(0) || loserPool === BigInt(0) ? stake : stake + (risk * loserPool) / winnerRisk;
+    } else {
+        payout = risk >= stake ? BigInt(0) : stake - risk;
+    }
+    if (pointsBalance) {
+        pointsBalance.fields.balance += payout;
+        ctx.mutated.add(pointsBalance.id);
+    }
+
+    // reputation::update_reputation_internal
+    const oldScore: bigint = profile.fields.reputation_score;
+    const oldCap: bigint = profile.fields.max_confidence;
+    const count: bigint = profile.fields.reputation_count;
+    const skillScore = skill(confidence, won);
+    const newScore = (oldScore * count + skillScore) / (count + BigInt(1));
+    const newCap = maxConfidenceFor(newScore);
+    profile.fields.reputation_score = newScore;
+    profile.fields.reputation_count = count + BigInt(1);
+    profile.fields.max_confidence = newCap;
+    prediction.fields.settled = true;
+    ctx.mutated.add(profile.id).add(prediction.id);
+
+    emit(ctx, "PredictionSettled", {
+        prediction_id: prediction.id,
+        market_id: market.id,
+        user: ctx.sender,
+        won,
+        result_description: bytes(won ? "WON" : "LOST"),
+        confidence,
+        risk,
+        payout,
+        profit: payout >= stake ? payout - stake : BigInt(0),
+        loss: payout >= stake ? BigInt(0) : stake - payout,
+        skill_score: skillScore,
+    });
+    emit(ctx, "ReputationUpdated", {
+        user: ctx.sender,
+        old_score: oldScore,
+        new_score: newScore,
+        change_direction: bytes(newScore > oldScore ? "INCREASED" : newScore < oldScore ? "DECREASED" : "UNCHANGED"),
+        change_amount: newScore > oldScore ? newScore - oldScore : oldScore - newScore,
+        skill_score: skillScore,
+        prediction_count_before: count,
+        prediction_count_after: count + BigInt(1),
+        prediction_confidence: confidence,
+        prediction_was_correct: won,
+    });
+    if (oldCap !== newCap) {
+        emit(ctx, "ConfidenceCapChanged", {
+            user: ctx.sender,
+            old_cap: oldCap,
+            new_cap: newCap,
+            old_tier: bytes(tierNameFromCap(oldCap)),
+            new_tier: bytes(tierNameFromCap(newCap)),
+            reputation_score: newScore,
+            direction: bytes(newCap > oldCap ? "PROMOTED" : "DEMOTED"),
+        });
+    }
+}
+
+// points_market::calculate_price
+function pointsPrice(ctx: ExecutionContext, config: SimObject, treasury: SimObject, points: bigint): bigint {
+    check(ctx, points % BigInt(100) === BigInt(0), 511, "points_market");
+    check(ctx, points > BigInt(0), 512, "points_market");
+    const { base_price_mist, alpha, supply_cap } = config.fields as Record<string, bigint>;
+    const totalMinted: bigint = treasury.fields.total_minted;
+    const scale = BigInt(1_000_000);
+    const pricePerUnit = (base_price_mist * (scale + (alpha * totalMinted) / supply_cap)) / scale;
+    return pricePerUnit * (points / BigInt(100));
+}
+
+function mintPoints(ctx: ExecutionContext, balance: SimObject, amount: bigint) {
+    check(ctx, amount > BigInt(0), 505, "points_token");
+    balance.fields.balance += amount;
+    if (balance.fields.first_deposit_epoch === BigInt(0)) balance.fields.first_deposit_epoch = BigInt(ctx.epoch);
+    ctx.mutated.add(balance.id);
+}
+
+function buyPoints(ctx: ExecutionContext, config: SimObject, treasury: SimObject, balance: SimObject, payment: CoinValue, desired: bigint) {
+    check(ctx, desired % BigInt(100) === BigInt(0), 511);
+    check(ctx, desired > BigInt(0), 512);
+    const cost = pointsPrice(ctx, config, treasury, desired);
+    const paid = takeCoin(payment);
+    check(ctx, paid >= cost, 510);
+
+    treasury.fields.balance += cost;
+    treasury.fields.total_minted += desired;
+    treasury.fields.circulating_supply += desired;
+    ctx.mutated.add(treasury.id);
+    mintPoints(ctx, balance, desired);
+    transferCoin(ctx, paid - cost, ctx.sender);
+
+    emit(ctx, "PointsPurchased", {
+        user: ctx.sender,
+        points_amount: desired,
+        sui_paid: cost,
+        price_per_100: (cost * BigInt(100)) / desired,
+    });
+}
+
+function createPointsBalance(ctx: ExecutionContext, registry: SimObject): SimObject {
+    const balances = state.tables.get(registry.fields.balances.tableId)!;
+    check(ctx, !balances.has(ctx.sender), 513, "points_market");
+    // PointsBalance has no `store`, so it cannot be transferred afterwards
+    const balance = createObject(ctx, TYPES.PointsBalance, { AddressOwner: ctx.sender }, {
+        owner: ctx.sender,
+        balance: BigInt(0),
+        first_deposit_epoch: BigInt(0),
+        total_redeemed: BigInt(0),
+        last_redemption_epoch: BigInt(0),
+        redeemed_this_week: BigInt(0),
+    }, false);
+    balances.set(ctx.sender, balance.id);
+    ctx.mutated.add(registry.id);
+    return balance;
+}
+
+const MOVE_FUNCTIONS: Record<string, MoveFunction> = {
+    "reputation::create_profile": {
+        parameters: [TX_CONTEXT],
+        run: (ctx) => {
+            const profile = createObject(ctx, TYPES.UserProfile, { AddressOwner: ctx.sender }, {
+                owner: ctx.sender,
+                reputation_score: BigInt(700),
+                reputation_count: BigInt(0),
+                max_confidence: BigInt(70),
+            });
+            emit(ctx, "ProfileCreated", {
+                user: ctx.sender,
+                profile_id: profile.id,
+                initial_reputation: BigInt(700),
+                initial_max_confidence: BigInt(70),
+                tier: bytes(tierName(BigInt(700))),
+            });
+        },
+    },
+
+    "market::create_market": {
+        parameters: [ref(calibrStruct("market", "AdminCap")), { Vector: "U8" }, "U64", "Address", TX_CONTEXT],
+        run: (ctx, [, question, deadline, authority]) => {
+            check(ctx, question.length > 0, 304);
+            const market = createObject(ctx, TYPES.Market, { Shared: { initial_shared_version: 0 } }, {
+                question,
+                deadline,
+                yes_risk_total: BigInt(0),
+                no_risk_total: BigInt(0),
+                yes_count: BigInt(0),
+                no_count: BigInt(0),
+                locked: false,
+                resolved: false,
+                outcome: null,
+                authority,
+                participants: tableField(createTable(), "address", "bool"),
+            });
+            emit(ctx, "MarketCreated", { market_id: market.id, question, deadline, authority });
+        },
+    },
+
+    "market::lock_market": {
+        parameters: [ref(calibrStruct("market", "AdminCap")), mutRef(calibrStruct("calibr", "Market")), TX_CONTEXT],
+        run: (ctx, [, market]) => {
+            check(ctx, !market.fields.locked, 301);
+            check(ctx, !market.fields.resolved, 302);
+            market.fields.locked = true;
+            ctx.mutated.add(market.id);
+            emit(ctx, "MarketLocked", {
+                market_id: market.id,
+                yes_count: market.fields.yes_count,
+                no_count: market.fields.no_count,
+                yes_risk_total: market.fields.yes_risk_total,
+                no_risk_total: market.fields.no_risk_total,
+            });
+        },
+    },
+
+    "market::resolve_market": {
+        parameters: [ref(calibrStruct("market", "AdminCap")), mutRef(calibrStruct("calibr", "Market")), "Bool", TX_CONTEXT],
+        run: (ctx, [, market, outcome]) => {
+            check(ctx, !market.fields.resolved, 302);
+            check(ctx, market.fields.locked, 303);
+            market.fields.resolved = true;
+            market.fields.outcome = outcome;
+            ctx.mutated.add(market.id);
+            const f = market.fields;
+            emit(ctx, "MarketResolved", {
+                market_id: market.id,
+                outcome,
+                outcome_description: bytes(outcome ? "YES" : "NO"),
+                winner_count: outcome ? f.yes_count : f.no_count,
+                loser_count: outcome ? f.no_count : f.yes_count,
+                total_winner_risk: outcome ? f.yes_risk_total : f.no_risk_total,
+                loser_pool: outcome ? f.no_risk_total : f.yes_risk_total,
+                resolved_by: ctx.sender,
+            });
+        },
+    },
+
+    "prediction::place_prediction": {
+        parameters: [ref(calibrStruct("calibr", "UserProfile")), mutRef(calibrStruct("calibr", "Market")), "Bool", "U64", TX_CONTEXT],
+        run: (ctx, [profile, market, side, confidence]) => placePrediction(ctx, profile, market, side, confidence),
+    },
+
+    "prediction::place_prediction_with_points": {
+        parameters: [
+            ref(calibrStruct("calibr", "UserProfile")),
+            mutRef(calibrStruct("calibr", "Market")),
+            mutRef(calibrStruct("points_token", "PointsBalance")),
+            "Bool",
+            "U64",
+            TX_CONTEXT,
+        ],
+        run: (ctx, [profile, market, balance, side, confidence]) => placePrediction(ctx, profile, market, side, confidence, balance),
+    },
+
+    "prediction::settle_prediction": {
+        parameters: [
+            mutRef(calibrStruct("calibr", "UserProfile")),
+            mutRef(calibrStruct("calibr", "Prediction")),
+            ref(calibrStruct("calibr", "Market")),
+            ref(struct("0x2", "tx_context", "TxContext")),
+        ],
+        run: (ctx, [profile, prediction, market]) => settlePrediction(ctx, profile, prediction, market),
+    },
+
+    "prediction::settle_prediction_with_points": {
+        parameters: [
+            mutRef(calibrStruct("calibr", "UserProfile")),
+            mutRef(calibrStruct("calibr", "Prediction")),
+            ref(calibrStruct("calibr", "Market")),
+            mutRef(calibrStruct("points_token", "PointsBalance")),
+            ref(struct("0x2", "tx_context", "TxContext")),
+        ],
+        run: (ctx, [profile, prediction, market, balance]) => settlePrediction(ctx, profile, prediction, market, balance),
+    },
+
+    "points_market::create_balance": {
+        parameters: [mutRef(calibrStruct("points_market", "BalanceRegistry")), TX_CONTEXT],
+        run: (ctx, [registry]) => {
+            createPointsBalance(ctx, registry);
+        },
+    },
+
+    "points_market::buy_points": {
+        parameters: [
+            ref(calibrStruct("points_market", "PointsMarketConfig")),
+            mutRef(calibrStruct("treasury", "Treasury")),
+            mutRef(calibrStruct("points_token", "PointsBalance")),
+            SUI_COIN,
+            "U64",
+            TX_CONTEXT,
+        ],
+        run: (ctx, [config, treasury, balance, payment, desired]) => {
+            check(ctx, balance.fields.owner === ctx.sender, 514);
+            buyPoints(ctx, config, treasury, balance, payment, desired);
+        },
+    },
+
+    "points_market::create_balance_and_buy": {
+        parameters: [
+            ref(calibrStruct("points_market", "PointsMarketConfig")),
+            mutRef(calibrStruct("treasury", "Treasury")),
+            mutRef(calibrStruct("points_market", "BalanceRegistry")),
+            SUI_COIN,
+            "U64",
+            TX_CONTEXT,
+        ],
+        run: (ctx, [config, treasury, registry, payment, desired]) => {
+            const balance = createPointsBalance(ctx, registry);
+            buyPoints(ctx, config, treasury, balance, payment, desired);
+        },
+    },
+
+    "redemption::redeem_points": {
+        parameters: [
+            ref(calibrStruct("calibr", "UserProfile")),
+            mutRef(calibrStruct("points_token", "PointsBalance")),
+            mutRef(calibrStruct("treasury", "Treasury")),
+            ref(calibrStruct("points_market", "PointsMarketConfig")),
+            "U64",
+            TX_CONTEXT,
+        ],
+        run: (ctx, [profile, balance, treasury, config, amount]) => {
+            const b = balance.fields;
+            const epoch = BigInt(ctx.epoch);
+            check(ctx, profile.fields.owner === ctx.sender, 527);
+            check(ctx, b.owner === ctx.sender, 527);
+            check(ctx, amount > BigInt(0), 525);
+            check(ctx, amount >= BigInt(100), 528);
+            check(ctx, amount <= b.balance, 524);
+            check(ctx, amount % BigInt(100) === BigInt(0), 528);
+            // MIN_REPUTATION is 0 on the demo deployment, so only the count and time lock bite
+            check(ctx, profile.fields.reputation_count >= BigInt(1), 521);
+            check(ctx, b.first_deposit_epoch > BigInt(0) && epoch >= b.first_deposit_epoch, 522);
+            const alreadyRedeemed: bigint = epoch > b.last_redemption_epoch ? BigInt(0) : b.redeemed_this_week;
+            const weeklyMax: bigint = b.balance / BigInt(2);
+            check(ctx, amount <= (weeklyMax > alreadyRedeemed ? weeklyMax - alreadyRedeemed : BigInt(0)), 523);
+
+            const gross = (amount / BigInt(100)) * pointsPrice(ctx, config, treasury, BigInt(100));
+            const fee = (gross * BigInt(2)) / BigInt(100);
+            const net = gross - fee;
+            check(ctx, treasury.fields.balance >= net, 526);
+
+            b.balance -= amount;
+            if (epoch > b.last_redemption_epoch) b.redeemed_this_week = BigInt(0);
+            b.redeemed_this_week += amount;
+            b.last_redemption_epoch = epoch;
+            b.total_redeemed += amount;
+            treasury.fields.total_burned += amount;
+            treasury.fields.circulating_supply -= amount;
+            treasury.fields.accumulated_fees += (fee * BigInt(50)) / BigInt(100);
+            treasury.fields.balance -= net;
+            ctx.mutated.add(balance.id).add(treasury.id);
+            transferCoin(ctx, net, ctx.sender);
+
+            emit(ctx, "PointsRedeemed", {
+                user: ctx.sender,
+                points_amount: amount,
+                sui_received: net,
+                fee,
+                fee_burned: fee / BigInt(2),
+                fee_treasury: fee - fee / BigInt(2),
+            });
+        },
+    },
+};
+
+// --- 5. TRANSACTION EXECUTOR ---
+// Runs programmable transactions decoded from signed bytes (or built by the
+// seeder). Failed transactions roll back everything except gas.
+
+class RpcError extends Error {
+    constructor(readonly code: number, message: string) {
+        super(message);
+    }
+}
+
+type ProgramInput =
+    | { kind: "object"; id: string; version?: string; shared?: boolean }
+    | { kind: "pure"; bytes: Uint8Array }
+    // Already-decoded values, used by the seeder
+    | { kind: "value"; value: any };
+
+interface Program {
+    sender: string;
+    inputs: ProgramInput[];
+    commands: any[];
+    gasPayment: { objectId: string; version: string | number }[];
+    gasBudget: bigint;
+}
+
+function decodePure(type: any, raw: Uint8Array): any {
+    if (type === "Bool") return bcs.bool().parse(raw);
+    if (type === "U64") return BigInt(bcs.u64().parse(raw));
+    if (type === "Address") return normalizeSuiAddress(bcs.Address.parse(raw));
+    if (type?.Vector === "U8") return Array.from(bcs.vector(bcs.u8()).parse(raw));
+    throw new ExecutionFailure(`Unsupported pure argument type ${JSON.stringify(type)}`);
+}
+
+function structTypeOf(type: any): string | null {
+    const body = type?.Reference ?? type?.MutableReference ?? type;
+    if (!body?.Struct) return null;
+    const { address, module, name } = body.Struct;
+    return `${normalizeSuiAddress(address)}::${module}::${name}`;
+}
+
+function validateInputs(program: Program, dryRun: boolean) {
+    for (const input of program.inputs) {
+        if (input.kind !== "object") continue;
+        const object = state.objects.get(input.id);
+        if (!object) throw new RpcError(-32002, `Could not find the referenced object ${input.id}`);
+        if (input.shared) {
+            if (!("Shared" in object.owner)) throw new RpcError(-32002, `Object ${input.id} is not shared`);
+            continue;
+        }
+        if (!isAddressOwner(object.owner, program.sender)) {
+            throw new RpcError(-32002, `Object ${input.id} is not owned by ${program.sender}`);
+        }
+        if (!dryRun && input.version !== undefined && Number(input.version) !== object.version) {
+            throw new RpcError(-32002, `Object ${input.id} version ${input.version} is not the current version ${object.version}`);
+        }
+    }
+}
+
+/**
+ * Pick the gas coin. Dry runs may come without payment (the SDK estimates the
+ * budget that way), so they borrow the sender's richest coin.
+ */
+function resolveGasCoin(program: Program, dryRun: boolean): SimObject {
+    if (program.gasPayment.length === 0) {
+        if (!dryRun) throw new RpcError(-32002, "Transaction has no gas payment");
+        const coins = coinsOf(program.sender).sort((a, b) => Number(b.fields.balance - a.fields.balance));
+        if (!coins[0]) throw new RpcError(-32002, `No gas coins owned by ${program.sender}`);
+        return coins[0];
+    }
+
+    const [first, ...rest] = program.gasPayment.map(payment => {
+        const coin = state.objects.get(normalizeSuiAddress(payment.objectId));
+        if (!coin || coin.type !== TYPES.Coin || !isAddressOwner(coin.owner, program.sender)) {
+            throw new RpcError(-32002, `Invalid gas coin ${payment.objectId}`);
+        }
+        return coin;
+    });
+    // Extra payment coins are merged into the first, as on chain
+    for (const coin of rest) {
+        first.fields.balance += coin.fields.balance;
+        state.objects.delete(coin.id);
+    }
+    return first;
+}
+
+function runCommands(ctx: ExecutionContext, program: Program, gasCoin: SimObject) {
+    const results: any[][] = [];
+    const coins: CoinValue[] = [];
+
+    const resolveArg = (arg: any, type?: any): any => {
+        if ("GasCoin" in arg) return gasCoin;
+        if ("Result" in arg) return results[arg.Result][0];
+        if ("NestedResult" in arg) return results[arg.NestedResult[0]][arg.NestedResult[1]];
+
+        const input = program.inputs[arg.Input];
+        if (input.kind === "object") {
+            const object = state.objects.get(input.id)!;
+            const expected = type && structTypeOf(type);
+            if (expected && object.type !== expected) {
+                throw new ExecutionFailure(`CommandArgumentError { arg_idx: ${arg.Input}, kind: TypeMismatch }`);
+            }
+            return object;
+        }
+        if (input.kind === "value") return input.value;
+        return decodePure(type ?? "U64", input.bytes);
+    };
+
+    program.commands.forEach((command, index) => {
+        try {
+            if (command.SplitCoins) {
+                const source = resolveArg(command.SplitCoins.coin);
+                const split = command.SplitCoins.amounts.map((amount: any) => {
+                    const value = BigInt(resolveArg(amount, "U64"));
+                    const available: bigint = "kind" in source ? source.value : source.fields.balance;
+                    if (available < value) throw new ExecutionFailure("InsufficientCoinBalance");
+                    if ("kind" in source) {
+                        source.value -= value;
+                    } else {
+                        source.fields.balance -= value;
+                        ctx.mutated.add(source.id);
+                    }
+                    const coin: CoinValue = { kind: "coin", value, consumed: false };
+                    coins.push(coin);
+                    return coin;
+                });
+                results.push(split);
+            } else if (command.TransferObjects) {
+                const recipient = normalizeSuiAddress(resolveArg(command.TransferObjects.address, "Address"));
+                for (const arg of command.TransferObjects.objects) {
+                    const value = resolveArg(arg);
+                    if (value?.kind !== "coin") throw new ExecutionFailure("Only split coins can be transferred by the emulator");
+                    transferCoin(ctx, takeCoin(value), recipient);
+                }
+                results.push([]);
+            } else if (command.MoveCall) {
+                const call = command.MoveCall;
+                if (normalizeSuiAddress(call.package) !== PACKAGE_ID) {
+                    throw new ExecutionFailure(`Package ${call.package} is not emulated (only ${PACKAGE_ID})`);
+                }
+                const fn = MOVE_FUNCTIONS[`${call.module}::${call.function}`];
+                if (!fn) throw new ExecutionFailure(`FunctionNotFound ${call.module}::${call.function}`);
+                const params = fn.parameters.filter(p => structTypeOf(p) !== "0x0000000000000000000000000000000000000000000000000000000000000002::tx_context::TxContext");
+                if (params.length !== call.arguments.length) {
+                    throw new ExecutionFailure(`ArityMismatch for ${call.module}::${call.function}`);
+                }
+                ctx.module = call.module;
+                ctx.fn = call.function;
+                fn.run(ctx, call.arguments.map((arg: any, i: number) => resolveArg(arg, params[i])));
+                results.push([]);
+            } else {
+                throw new ExecutionFailure(`Unsupported command ${Object.keys(command).join(", ")}`);
+            }
+        } catch (error) {
+            if (error instanceof ExecutionFailure) error.message = `${error.message} in command ${index}`;
+            throw error;
+        }
+    });
+
+    const unused = coins.findIndex(coin => !coin.consumed && coin.value > BigInt(0));
+    if (unused !== -1) throw new ExecutionFailure(`UnusedValueWithoutDrop { result_idx: ${unused}, secondary_idx: 0 }`);
+    // Zero-value leftovers are destroyed, as coin::destroy_zero would
+}
+
+function coinTotals(): Map<string, bigint> {
+    const totals = new Map<string, bigint>();
+    state.objects.forEach(object => {
+        if (object.type !== TYPES.Coin || !("AddressOwner" in object.owner)) return;
+        const owner = object.owner.AddressOwner;
+        totals.set(owner, (totals.get(owner) ?? BigInt(0)) + object.fields.balance);
+    });
+    return totals;
+}
+
+function execute(program: Program, digest: string, { dryRun = false } = {}) {
+    program.sender = normalizeSuiAddress(program.sender);
+    fund(program.sender);
+    validateInputs(program, dryRun);
+
+    const snapshot = structuredClone(state);
+    const counterBefore = idCounter;
+    const balancesBefore = coinTotals();
+    const gasCoin = resolveGasCoin(program, dryRun);
+
+    const ctx: ExecutionContext = {
+        sender: program.sender,
+        digest,
+        epoch: currentEpoch(),
+        timestampMs: now(),
+        module: "",
+        fn: "",
+        events: [],
+        created: new Set(),
+        mutated: new Set([gasCoin.id]),
+        deleted: new Set(),
+    };
+    // Owned inputs and mutable shared inputs are written even when unchanged
+    for (const input of program.inputs) {
+        if (input.kind === "object") ctx.mutated.add(input.id);
+    }
+
+    let failure: ExecutionFailure | null = null;
+    try {
+        runCommands(ctx, program, gasCoin);
+    } catch (error) {
+        if (!(error instanceof ExecutionFailure)) throw error;
+        failure = error;
+    }
+
+    const storageCost = failure ? BigInt(0) : BigInt(ctx.created.size) * STORAGE_COST_PER_OBJECT;
+    const gasUsed = COMPUTATION_COST + storageCost;
+    if (failure) {
+        // Roll back the commands but still charge gas
+        state = snapshot;
+        idCounter = counterBefore;
+        ctx.events = [];
+        ctx.created.clear();
+        ctx.mutated = new Set([gasCoin.id]);
+    }
+    const gas = state.objects.get(gasCoin.id)!;
+    if (gas.fields.balance < gasUsed || (!dryRun && program.gasBudget < gasUsed)) {
+        state = snapshot;
+        idCounter = counterBefore;
+        throw new RpcError(-32002, `Insufficient gas: needs ${gasUsed} MIST`);
+    }
+    gas.fields.balance -= gasUsed;
+
+    // Lamport versioning: every written object moves to one past the highest input version
+    const touched = [...Array.from(ctx.mutated), ...Array.from(ctx.created)].map(id => state.objects.get(id)).filter(Boolean) as SimObject[];
+    const lamport = 1 + Math.max(0, ...Array.from(ctx.mutated).map(id => snapshot.objects.get(id)?.version ?? 0));
+    const previousVersions = new Map(touched.map(o => [o.id, o.version]));
+    for (const object of touched) {
+        object.version = lamport;
+        object.digest = objectDigest(object.id, lamport);
+        object.previousTransaction = digest;
+        if ("Shared" in object.owner && object.owner.Shared.initial_shared_version === 0) {
+            object.owner = { Shared: { initial_shared_version: lamport } };
+        }
+    }
+
+    const balancesAfter = coinTotals();
+    const balanceChanges = Array.from(new Set([...Array.from(balancesBefore.keys()), ...Array.from(balancesAfter.keys())]))
+        .map(owner => ({ owner, amount: (balancesAfter.get(owner) ?? BigInt(0)) - (balancesBefore.get(owner) ?? BigInt(0)) }))
+        .filter(change => change.amount !== BigInt(0))
+        .map(change => ({ owner: { AddressOwner: change.owner }, coinType: TYPES.SUI, amount: change.amount.toString() }));
+
+    const renderedEvents = ctx.events.map((event, i) => ({
+        id: { txDigest: digest, eventSeq: String(i) },
+        packageId: PACKAGE_ID,
+        transactionModule: event.module,
+        sender: program.sender,
+        type: `${PACKAGE_ID}::events::${event.name}`,
+        parsedJson: renderValue(event.fields),
+        timestampMs: String(ctx.timestampMs),
+    }));
+
+    const reference = (o: SimObject) => ({ objectId: o.id, version: o.version, digest: o.digest });
+    const created = touched.filter(o => ctx.created.has(o.id));
+    const mutated = touched.filter(o => !ctx.created.has(o.id));
+
+    const response = {
+        digest,
+        effects: {
+            messageVersion: "v1",
+            status: failure ? { status: "failure", error: failure.message } : { status: "success" },
+            ...(failure?.abortError && { abortError: failure.abortError }),
+            executedEpoch: String(ctx.epoch),
+            gasUsed: {
+                computationCost: COMPUTATION_COST.toString(),
+                storageCost: storageCost.toString(),
+                storageRebate: "0",
+                nonRefundableStorageFee: "0",
+            },
+            transactionDigest: digest,
+            created: created.map(o => ({ owner: o.owner, reference: reference(o) })),
+            mutated: mutated.map(o => ({ owner: o.owner, reference: reference(o) })),
+            gasObject: { owner: gas.owner, reference: reference(gas) },
+            dependencies: [],
+        },
+        events: renderedEvents,
+        objectChanges: [
+            ...mutated.map(o => ({
+                type: "mutated",
+                sender: program.sender,
+                owner: o.owner,
+                objectType: o.type,
+                objectId: o.id,
+                version: String(o.version),
+                previousVersion: String(previousVersions.get(o.id)),
+                digest: o.digest,
+            })),
+            ...created.map(o => ({
+                type: "created",
+                sender: program.sender,
+                owner: o.owner,
+                objectType: o.type,
+                objectId: o.id,
+                version: String(o.version),
+                digest: o.digest,
+            })),
+        ],
+        balanceChanges,
+        timestampMs: String(ctx.timestampMs),
+        checkpoint: String(checkpoint + 1),
+    };
+
+    if (dryRun) {
+        state = snapshot;
+        idCounter = counterBefore;
+        return response;
+    }
+
+    checkpoint += 1;
+    events.push(...renderedEvents);
+    transactions.set(digest, response);
+    return response;
+}
+
+function programFromBytes(txBytes: string): { program: Program; digest: string } {
+    const raw = fromBase64(txBytes);
+    const data = Transaction.from(raw).getData();
+    if (!data.sender) throw new RpcError(-32602, "Transaction has no sender");
+
+    const inputs: ProgramInput[] = data.inputs.map((input: any): ProgramInput => {
+        if (input.Pure) return { kind: "pure", bytes: fromBase64(input.Pure.bytes) };
+        const object = input.Object;
+        if (object?.ImmOrOwnedObject) {
+            return { kind: "object", id: normalizeSuiAddress(object.ImmOrOwnedObject.objectId), version: object.ImmOrOwnedObject.version };
+        }
+        if (object?.SharedObject) {
+            return { kind: "object", id: normalizeSuiAddress(object.SharedObject.objectId), shared: true };
+        }
+        throw new RpcError(-32602, `Unsupported transaction input ${JSON.stringify(input)}`);
+    });
+
+    return {
+        program: {
+            sender: data.sender,
+            inputs,
+            commands: data.commands,
+            gasPayment: data.gasData.payment ?? [],
+            gasBudget: BigInt(data.gasData.budget ?? 0),
+        },
+        digest: TransactionDataBuilder.getDigestFromBytes(raw),
+    };
+}
+
+// --- 6. QUERIES ---
+
+function matchesEventFilter(event: any, filter: any): boolean {
+    const [kind, value] = Object.entries(filter ?? {})[0] ?? ["All", []];
+    const [pkg, module] = event.type.split("::");
+    switch (kind) {
+        case "All": return (value as any[]).every(f => matchesEventFilter(event, f));
+        case "Any": return (value as any[]).some(f => matchesEventFilter(event, f));
+        case "And": return (value as any[]).every(f => matchesEventFilter(event, f));
+        case "Or": return (value as any[]).some(f => matchesEventFilter(event, f));
+        case "MoveEventType": return normalizeStructTag(event.type) === normalizeStructTag(value as string);
+        case "MoveEventModule": return pkg === normalizeSuiAddress((value as any).package) && module === (value as any).module;
+        case "MoveModule": return event.packageId === normalizeSuiAddress((value as any).package) && event.transactionModule === (value as any).module;
+        case "Package": return event.packageId === normalizeSuiAddress(value as string);
+        case "Sender": return event.sender === normalizeSuiAddress(value as string);
+        case "Transaction": return event.id.txDigest === value;
+        case "TimeRange": {
+            const ms = Number(event.timestampMs);
+            return ms >= Number((value as any).startTime) && ms < Number((value as any).endTime);
+        }
+        default: throw new RpcError(-32602, `Unsupported event filter ${kind}`);
+    }
+}
+
+function matchesObjectFilter(object: SimObject, filter: any): boolean {
+    if (!filter) return true;
+    const [kind, value] = Object.entries(filter)[0];
+    const [pkg, module] = object.type.split("::");
+    switch (kind) {
+        case "MatchAll": return (value as any[]).every(f => matchesObjectFilter(object, f));
+        case "MatchAny": return (value as any[]).some(f => matchesObjectFilter(object, f));
+        case "MatchNone": return !(value as any[]).some(f => matchesObjectFilter(object, f));
+        case "StructType": {
+            const wanted = normalizeStructTag(value as string);
+            const actual = normalizeStructTag(object.type);
+            return wanted.includes("<") ? actual === wanted : actual.split("<")[0] === wanted;
+        }
+        case "MoveModule": return normalizeSuiAddress(pkg) === normalizeSuiAddress((value as any).package) && module === (value as any).module;
+        case "Package": return normalizeSuiAddress(pkg) === normalizeSuiAddress(value as string);
+        case "ObjectId": return object.id === normalizeSuiAddress(value as string);
+        case "ObjectIds": return (value as string[]).map(id => normalizeSuiAddress(id)).includes(object.id);
+        default: throw new RpcError(-32602, `Unsupported object filter ${kind}`);
+    }
+}
+
+function paginate<T>(items: T[], cursorIndex: number, limit: number | null) {
+    const size = Math.min(limit ?? PAGE_LIMIT, PAGE_LIMIT);
+    const data = items.slice(cursorIndex, cursorIndex + size);
+    return { data, hasNextPage: cursorIndex + size < items.length };
+}
+
+function queryEvents(query: any, cursor: any, limit: number | null, descending: boolean) {
+    const matching = events.filter(event => matchesEventFilter(event, query));
+    if (descending) matching.reverse();
+    const start = cursor
+        ? matching.findIndex(e => e.id.txDigest === cursor.txDigest && e.id.eventSeq === String(cursor.eventSeq)) + 1
+        : 0;
+    const { data, hasNextPage } = paginate(matching, start, limit);
+    return { data, nextCursor: data.length ? data[data.length - 1].id : cursor ?? null, hasNextPage };
+}
+
+function getOwnedObjects(owner: string, query: any, cursor: string | null, limit: number | null) {
+    const address = normalizeSuiAddress(owner);
+    fund(address);
+    const owned = Array.from(state.objects.values())
+        .filter(o => isAddressOwner(o.owner, address) && matchesObjectFilter(o, query?.filter));
+    const start = cursor ? owned.findIndex(o => o.id === cursor) + 1 : 0;
+    const { data, hasNextPage } = paginate(owned, start, limit);
+    return {
+        data: data.map(o => renderObject(o, o.id, query?.options)),
+        nextCursor: data.length ? data[data.length - 1].id : null,
+        hasNextPage,
+    };
+}
+
+function getCoins(owner: string, coinType: string | null, cursor: string | null, limit: number | null) {
+    if (coinType && normalizeStructTag(coinType) !== normalizeStructTag(TYPES.SUI)) {
+        return { data: [], nextCursor: null, hasNextPage: false };
+    }
+    const coins = coinsOf(normalizeSuiAddress(owner));
+    const start = cursor ? coins.findIndex(c => c.id === cursor) + 1 : 0;
+    const { data, hasNextPage } = paginate(coins, start, limit);
+    return {
+        data: data.map(c => ({
+            coinType: TYPES.SUI,
+            coinObjectId: c.id,
+            version: String(c.version),
+            digest: c.digest,
+            balance: c.fields.balance.toString(),
+            previousTransaction: c.previousTransaction,
+        })),
+        nextCursor: data.length ? data[data.length - 1].id : null,
+        hasNextPage,
+    };
+}
+
+function getBalance(owner: string) {
+    const coins = coinsOf(normalizeSuiAddress(owner));
+    return {
+        coinType: TYPES.SUI,
+        coinObjectCount: coins.length,
+        totalBalance: coins.reduce((sum, c) => sum + c.fields.balance, BigInt(0)).toString(),
+        lockedBalance: {},
+    };
+}
+
+function systemState() {
+    return {
+        epoch: String(currentEpoch()),
+        protocolVersion: "1",
+        systemStateVersion: "2",
+        referenceGasPrice: REFERENCE_GAS_PRICE.toString(),
+        epochStartTimestampMs: String(GENESIS_MS + (currentEpoch() - 1) * EPOCH_DURATION_MS),
+        epochDurationMs: String(EPOCH_DURATION_MS),
+        safeMode: false,
+        activeValidators: [],
+    };
+}
+
+// --- 7. JSON-RPC ---
+
+const METHODS: Record<string, (...params: any[]) => unknown> = {
+    suix_queryEvents: (query, cursor = null, limit = null, descending = false) => queryEvents(query, cursor, limit, descending),
+    sui_getObject: (id, options) => renderObject(state.objects.get(normalizeSuiAddress(id)), id, options),
+    sui_multiGetObjects: (ids: string[], options) => {
+        if (ids.length > PAGE_LIMIT) throw new RpcError(-32602, `Number of object IDs exceeds the limit of ${PAGE_LIMIT}`);
+        return ids.map(id => renderObject(state.objects.get(normalizeSuiAddress(id)), id, options));
+    },
+    suix_getOwnedObjects: (owner, query = null, cursor = null, limit = null) => getOwnedObjects(owner, query, cursor, limit),
+    suix_getBalance: (owner) => getBalance(owner),
+    suix_getAllBalances: (owner) => [getBalance(owner)],
+    suix_getCoins: (owner, coinType = null, cursor = null, limit = null) => getCoins(owner, coinType, cursor, limit),
+    suix_getReferenceGasPrice: () => REFERENCE_GAS_PRICE.toString(),
+    suix_getLatestSuiSystemState: () => systemState(),
+    sui_getChainIdentifier: () => GENESIS_CHECKPOINT.subarray(0, 4).toString("hex"),
+    sui_getCheckpoint: (id) => ({
+        digest: String(id) === "0" ? CHAIN_DIGEST : toBase58(sha256(`${SEED}:checkpoint:${id}`)),
+        sequenceNumber: String(id),
+        epoch: String(currentEpoch()),
+        timestampMs: String(now()),
+    }),
+    sui_getLatestCheckpointSequenceNumber: () => String(checkpoint),
+    sui_getNormalizedMoveFunction: (pkg, module, name) => {
+        const fn = normalizeSuiAddress(pkg) === PACKAGE_ID ? MOVE_FUNCTIONS[`${module}::${name}`] : undefined;
+        if (!fn) throw new RpcError(-32602, `No function ${pkg}::${module}::${name}`);
+        return { visibility: "Public", isEntry: true, typeParameters: [], parameters: fn.parameters, return: [] };
+    },
+    sui_getTransactionBlock: (digest) => {
+        const tx = transactions.get(digest);
+        if (!tx) throw new RpcError(-32602, `Could not find the referenced transaction ${digest}`);
+        return tx;
+    },
+    sui_dryRunTransactionBlock: (txBytes) => {
+        const { program, digest } = programFromBytes(txBytes);
+        return { ...execute(program, digest, { dryRun: true }), input: { sender: program.sender } };
+    },
+    // Signatures are not verified; the sender in the signed bytes is trusted
+    sui_executeTransactionBlock: (txBytes) => {
+        const { program, digest } = programFromBytes(txBytes);
+        const existing = transactions.get(digest);
+        if (existing) return { ...existing, confirmedLocalExecution: true };
+        const response = execute(program, digest);
+        console.log(`   ⛓️  ${describeProgram(program)} ${response.effects.status.status === "success" ? "✅" : `❌ ${response.effects.status.error}`}`);
+        return { ...response, confirmedLocalExecution: true };
+    },
+};
+
+function describeProgram(program: Program): string {
+    const calls = program.commands
+        .filter(c => c.MoveCall)
+        .map(c => `${c.MoveCall.module}::${c.MoveCall.function}`);
+    return `${program.sender.slice(0, 8)}… ${calls.join(", ") || "transfer"}`;
+}
+
+function handleCall(call: any) {
+    const id = call?.id ?? null;
+    const method = METHODS[call?.method];
+    if (!method) return { jsonrpc: "2.0", id, error: { code: -32601, message: `Method not found: ${call?.method}` } };
+    try {
+        return { jsonrpc: "2.0", id, result: method(...(call.params ?? [])) };
+    } catch (e) {
+        if (e instanceof RpcError) return { jsonrpc: "2.0", id, error: { code: e.code, message: e.message } };
+        console.error(`   ❌ ${call.method} failed:`, e);
+        return { jsonrpc: "2.0", id, error: { code: -32603, message: e instanceof Error ? e.message : "Internal error" } };
+    }
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        let body = "";
+        req.setEncoding("utf8");
+        req.on("data", chunk => (body += chunk));
+        req.on("end", () => resolve(body));
+        req.on("error", reject);
+    });
+}
+
+async function handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+    const headers = {
+        "Content-Type": "application/json",
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Headers": "*",
+        "Access-Control-Allow-Methods": "POST, OPTIONS",
+    };
+    if (req.method === "OPTIONS") {
+        res.writeHead(204, headers);
+        res.end();
+        return;
+    }
+    if (req.method !== "POST") {
+        res.writeHead(405, headers);
+        res.end(JSON.stringify({ error: "Method not allowed" }));
+        return;
+    }
+
+    let body: any;
+    try {
+        body = JSON.parse(await readBody(req));
+    } catch {
+        res.writeHead(200, headers);
+        res.end(JSON.stringify({ jsonrpc: "2.0", id: null, error: { code: -32700, message: "Parse error" } }));
+        return;
+    }
+
+    const response = Array.isArray(body) ? body.map(handleCall) : handleCall(body);
+    res.writeHead(200, headers);
+    res.end(JSON.stringify(response));
+}
+
+// --- 8. SEED SCENARIO ---
+// Replays a short history through the same executor: markets in every
+// lifecycle state, a handful of forecasters, settled and unsettled positions.
+
+type SeedArg = { object: string } | { value: any } | "payment";
+
+let seedTxCount = 0;
+
+function seedTx(sender: Ed25519Keypair, atMs: number, calls: [target: string, args: SeedArg[]][], paymentMist?: bigint) {
+    frozenTimeMs = atMs;
+    const inputs: ProgramInput[] = [];
+    const commands: any[] = [];
+    const input = (value: ProgramInput) => ({ Input: inputs.push(value) - 1 });
+
+    if (paymentMist !== undefined) {
+        commands.push({ SplitCoins: { coin: { GasCoin: true }, amounts: [input({ kind: "value", value: paymentMist })] } });
+    }
+    for (const [target, args] of calls) {
+        const [module, fn] = target.split("::");
+        commands.push({
+            MoveCall: {
+                package: PACKAGE_ID,
+                module,
+                function: fn,
+                arguments: args.map(arg =>
+                    arg === "payment" ? { NestedResult: [0, 0] }
+                        : "object" in arg ? input({ kind: "object", id: arg.object, shared: "Shared" in state.objects.get(arg.object)!.owner })
+                            : input({ kind: "value", value: arg.value })
+                ),
+            },
+        });
+    }
+
+    const address = sender.toSuiAddress();
+    const program: Program = { sender: address, inputs, commands, gasPayment: [], gasBudget: BigInt(0) };
+    const gas = coinsOf(address)[0];
+    program.gasPayment = [{ objectId: gas.id, version: String(gas.version) }];
+    program.gasBudget = BigInt(100_000_000);
+
+    const response = execute(program, toBase58(sha256(`${SEED}:seed-tx:${seedTxCount++}`)));
+    if (response.effects.status.status !== "success") {
+        throw new Error(`Seed transaction failed: ${response.effects.status.error}`);
+    }
+    return response;
+}
+
+function ownedBy(address: string, type: string): string[] {
+    return Array.from(state.objects.values()).filter(o => o.type === type && isAddressOwner(o.owner, address)).map(o => o.id);
+}
+
+function seed(admin: Ed25519Keypair, users: Record<string, Ed25519Keypair>) {
+    const start = GENESIS_MS + HOUR_MS;
+    const t = (days: number, hours: number = 0) => start + days * DAY_MS + hours * HOUR_MS;
+    const live = Date.now();
+    const adminAddress = admin.toSuiAddress();
+
+    const markets: string[] = [];
+    const createMarket = (at: number, question: string, deadline: number) => {
+        const response = seedTx(admin, at, [["market::create_market", [
+            { object: ADMIN_CAP_ID },
+            { value: bytes(question) },
+            { value: BigInt(deadline) },
+            { value: adminAddress },
+        ]]]);
+        markets.push(response.objectChanges.find(c => c.type === "created" && c.objectType === TYPES.Market)!.objectId);
+    };
+
+    createMarket(t(0), "Will the Fed cut interest rates at its next meeting?", t(6));
+    createMarket(t(1), "Will BTC close above $120k on the last day of the quarter?", live + 30 * DAY_MS);
+    createMarket(t(2), "Will Sui process more than 1B transactions this quarter?", live + 12 * DAY_MS);
+    createMarket(t(3), "Will the next Ethereum upgrade ship on its announced date?", live - 2 * HOUR_MS);
+    // Expires a few minutes after startup, so a running oracle locks and resolves it
+    createMarket(t(4), "Will SOL flip ETH in daily DEX volume this week?", live + 5 * 60 * 1000);
+    const [fed, btc, sui, eth, sol] = markets;
+
+    // Profiles and points for every forecaster
+    Object.values(users).forEach((user, i) => {
+        seedTx(user, t(0, 2 + i), [["reputation::create_profile", []]]);
+        seedTx(user, t(0, 3 + i), [["points_market::create_balance_and_buy", [
+            { object: POINTS_MARKET_CONFIG_ID },
+            { object: TREASURY_ID },
+            { object: BALANCE_REGISTRY_ID },
+            "payment",
+            { value: BigInt(1_000) },
+        ]]], MIST_PER_SUI);
+    });
+
+    const predict = (name: string, at: number, market: string, side: boolean, confidence: number) => {
+        const address = users[name].toSuiAddress();
+        seedTx(users[name], at, [["prediction::place_prediction_with_points", [
+            { object: ownedBy(address, TYPES.UserProfile)[0] },
+            { object: market },
+            { object: ownedBy(address, TYPES.PointsBalance)[0] },
+            { value: side },
+            { value: BigInt(confidence) },
+        ]]]);
+    };
+
+    predict("bob", t(1), fed, true, 70);
+    predict("carol", t(1, 6), fed, false, 60);
+    predict("dave", t(2), fed, true, 65);
+    predict("alice", t(2, 12), fed, true, 70);
+    predict("erin", t(3), fed, false, 55);
+
+    predict("bob", t(1, 3), btc, false, 65);
+    predict("carol", t(2, 4), btc, true, 70);
+    predict("erin", t(4), btc, true, 60);
+    predict("alice", t(5), btc, true, 60);
+
+    predict("dave", t(3, 2), sui, true, 70);
+    predict("erin", t(5, 4), sui, false, 65);
+
+    predict("bob", t(3, 8), eth, true, 60);
+    predict("carol", t(4, 2), eth, false, 70);
+    predict("alice", t(6), eth, true, 55);
+
+    predict("dave", t(4, 6), sol, false, 60);
+
+    // The Fed market has run its course: locked, resolved YES, partly settled
+    seedTx(admin, t(6, 1), [["market::lock_market", [{ object: ADMIN_CAP_ID }, { object: fed }]]]);
+    seedTx(admin, t(7), [["market::resolve_market", [{ object: ADMIN_CAP_ID }, { object: fed }, { value: true }]]]);
+    // alice's position is left unsettled so there is something to claim
+    for (const name of ["bob", "carol", "dave", "erin"]) {
+        const address = users[name].toSuiAddress();
+        const prediction = ownedBy(address, TYPES.Prediction)
+            .find(id => state.objects.get(id)!.fields.market_id === fed)!;
+        seedTx(users[name], t(7, 4), [["prediction::settle_prediction_with_points", [
+            { object: ownedBy(address, TYPES.UserProfile)[0] },
+            { object: prediction },
+            { object: fed },
+            { object: ownedBy(address, TYPES.PointsBalance)[0] },
+        ]]]);
+    }
+
+    // Past its deadline and locked, waiting on the oracle
+    seedTx(admin, live - HOUR_MS, [["market::lock_market", [{ object: ADMIN_CAP_ID }, { object: eth }]]]);
+
+    frozenTimeMs = null;
+}
+
+// --- 9. MAIN ---
+function main() {
+    const admin = process.env.ADMIN_PRIVATE_KEY ? Ed25519Keypair.fromSecretKey(process.env.ADMIN_PRIVATE_KEY) : seededKeypair("admin");
+    const users = Object.fromEntries(["alice", "bob", "carol", "dave", "erin"].map(name => [name, seededKeypair(name)]));
+
+    genesis(admin.toSuiAddress());
+    if (!process.argv.includes("--empty")) seed(admin, users);
+
+    console.log(`⛓️  Calibr Chain Emulator Starting...`);
+    console.log(`🔹 Package: ${PACKAGE_ID.slice(0, 10)}...`);
+    console.log(`🔹 Admin: ${admin.toSuiAddress()} (holds AdminCap ${ADMIN_CAP_ID.slice(0, 10)}...)`);
+    console.log(`🔹 Seeded ${transactions.size} transactions, ${events.length} events`);
+
+    http.createServer(handleRequest).listen(PORT, () => {
+        const url = `http://localhost:${PORT}`;
+        console.log(`🌍 JSON-RPC listening on ${url}`);
+        console.log(`\n   App (signs as alice):`);
+        console.log(`     NEXT_PUBLIC_SUI_RPC_URL=${url} NEXT_PUBLIC_LOCAL_SIGNER_KEY=${users.alice.getSecretKey()} npm run dev`);
+        console.log(`   AI oracle:`);
+        console.log(`     SUI_RPC_URL=${url} NEXT_PUBLIC_PACKAGE_ID=${PACKAGE_ID} ADMIN_CAP_ID=${ADMIN_CAP_ID} \\`);
+        console.log(`     ADMIN_PRIVATE_KEY=${admin.getSecretKey()} AI_PROVIDER=MOCK npm run start:oracle`);
+        console.log(`   Metadata service (sign as the admin key to save labels):`);
+        console.log(`     SUI_RPC_URL=${url} ADMIN_CAP_ID=${ADMIN_CAP_ID} npm run start:metadata\n`);
+    });
+}
+
+main();
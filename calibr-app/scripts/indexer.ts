@@ -0,0 +1,674 @@
+import { SuiJsonRpcClient as SuiClient, getJsonRpcFullnodeUrl } from "@mysten/sui/jsonRpc";
+import type { EventId, SuiEvent } from "@mysten/sui/jsonRpc";
+import Database from "better-sqlite3";
+import http from "http";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+// --- CONFIGURATION ---
+const NETWORK = (process.env.SUI_NETWORK || "testnet") as "testnet" | "mainnet" | "devnet";
+const RPC_URL = process.env.SUI_RPC_URL || getJsonRpcFullnodeUrl(NETWORK);
+// Must match CONTRACT_IDS[network].packageId in src/lib/sui-config.ts
+const PACKAGE_ID = process.env.NEXT_PUBLIC_PACKAGE_ID || "0x75ac97b98aceeeab79b2c7177266799528b0ecb16a56e8698ffde75d5da26667";
+const DB_PATH = process.env.INDEXER_DB_PATH || "calibr-indexer.db";
+const PORT = Number(process.env.INDEXER_PORT || 4000);
+
+// Polling Interval
+const POLLING_INTERVAL_MS = 5 * 1000;
+
+// Max page size accepted by suix_queryEvents
+const PAGE_SIZE = 50;
+
+// Every struct in events.move. Anything else emitted by the package is stored but not projected.
+const EVENT_TYPES = [
+    "MarketCreated",
+    "MarketLocked",
+    "MarketResolved",
+    "PredictionPlaced",
+    "PredictionSettled",
+    "ProfileCreated",
+    "ReputationUpdated",
+    "ConfidenceCapChanged",
+    "PointsPurchased",
+    "PointsRedeemed",
+] as const;
+type EventType = (typeof EVENT_TYPES)[number];
+
+const client = new SuiClient({ url: RPC_URL, network: NETWORK });
+const db = new Database(DB_PATH);
+
+// --- 1. SCHEMA ---
+// `events` is the append-only log, in chain order by rowid; every other table is a
+// projection that can be rebuilt from it (see rebuildProjections).
+db.pragma("journal_mode = WAL");
+db.exec(`
+    CREATE TABLE IF NOT EXISTS sync_state (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        tx_digest TEXT NOT NULL,
+        event_seq TEXT NOT NULL,
+        updated_at_ms INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS events (
+        tx_digest TEXT NOT NULL,
+        event_seq TEXT NOT NULL,
+        event_type TEXT NOT NULL,
+        sender TEXT NOT NULL,
+        timestamp_ms INTEGER NOT NULL,
+        parsed_json TEXT NOT NULL,
+        PRIMARY KEY (tx_digest, event_seq)
+    );
+    CREATE INDEX IF NOT EXISTS idx_events_type ON events (event_type, timestamp_ms);
+
+    CREATE TABLE IF NOT EXISTS markets (
+        market_id TEXT PRIMARY KEY,
+        question TEXT NOT NULL DEFAULT '',
+        deadline INTEGER NOT NULL DEFAULT 0,
+        authority TEXT NOT NULL DEFAULT '',
+        yes_risk_total INTEGER NOT NULL DEFAULT 0,
+        no_risk_total INTEGER NOT NULL DEFAULT 0,
+        yes_count INTEGER NOT NULL DEFAULT 0,
+        no_count INTEGER NOT NULL DEFAULT 0,
+        locked INTEGER NOT NULL DEFAULT 0,
+        resolved INTEGER NOT NULL DEFAULT 0,
+        outcome INTEGER,
+        created_at_ms INTEGER,
+        locked_at_ms INTEGER,
+        resolved_at_ms INTEGER
+    );
+
+    CREATE TABLE IF NOT EXISTS predictions (
+        prediction_id TEXT PRIMARY KEY,
+        market_id TEXT NOT NULL,
+        user TEXT NOT NULL,
+        side INTEGER NOT NULL,
+        confidence INTEGER NOT NULL,
+        risk INTEGER NOT NULL,
+        protected INTEGER NOT NULL,
+        stake INTEGER NOT NULL,
+        user_max_confidence INTEGER NOT NULL,
+        placed_at_ms INTEGER NOT NULL,
+        settled INTEGER NOT NULL DEFAULT 0,
+        won INTEGER,
+        payout INTEGER,
+        profit INTEGER,
+        loss INTEGER,
+        skill_score INTEGER,
+        settled_at_ms INTEGER,
+        settled_tx TEXT,
+        settled_seq INTEGER,
+        old_score INTEGER,
+        new_score INTEGER,
+        old_cap INTEGER,
+        new_cap INTEGER,
+        old_tier TEXT,
+        new_tier TEXT
+    );
+    CREATE INDEX IF NOT EXISTS idx_predictions_user ON predictions (user);
+    CREATE INDEX IF NOT EXISTS idx_predictions_market ON predictions (market_id);
+    CREATE INDEX IF NOT EXISTS idx_predictions_settled_tx ON predictions (settled_tx);
+
+    CREATE TABLE IF NOT EXISTS users (
+        address TEXT PRIMARY KEY,
+        profile_id TEXT,
+        reputation INTEGER NOT NULL DEFAULT 700,
+        max_confidence INTEGER NOT NULL DEFAULT 70,
+        prediction_count INTEGER NOT NULL DEFAULT 0,
+        points_purchased INTEGER NOT NULL DEFAULT 0,
+        points_redeemed INTEGER NOT NULL DEFAULT 0,
+        created_at_ms INTEGER,
+        updated_at_ms INTEGER
+    );
+`);
+
+// Databases created before cap-change linking lack these columns; run --rebuild to backfill them
+const predictionColumns = new Set(
+    (db.prepare(`PRAGMA table_info(predictions)`).all() as { name: string }[]).map(c => c.name)
+);
+for (const [column, type] of [["old_cap", "INTEGER"], ["new_cap", "INTEGER"], ["old_tier", "TEXT"], ["new_tier", "TEXT"]]) {
+    if (!predictionColumns.has(column)) {
+        db.exec(`ALTER TABLE predictions ADD COLUMN ${column} ${type}`);
+    }
+}
+
+// --- 2. PROJECTIONS ---
+
+/**
+ * Decode a vector<u8> question. Older markets were created with the question
+ * hex-encoded before being turned into bytes, so unwrap that too
+ * (mirrors decodeQuestion in src/lib/calibr-types.ts).
+ */
+function decodeQuestion(bytes: number[] | string): string {
+    const raw = Array.isArray(bytes) ? Buffer.from(bytes).toString("utf8") : String(bytes ?? "");
+    if (/^[0-9a-fA-F]+$/.test(raw) && raw.length > 20) {
+        return Buffer.from(raw, "hex").toString("utf8");
+    }
+    return raw;
+}
+
+/** Decode a plain UTF-8 vector<u8> such as a tier name */
+const text = (v: unknown) => (Array.isArray(v) ? Buffer.from(v).toString("utf8") : String(v ?? ""));
+
+const num = (v: unknown) => Number(v ?? 0);
+const flag = (v: unknown) => (v ? 1 : 0);
+
+const stmts = {
+    insertEvent: db.prepare(`
+        INSERT OR IGNORE INTO events (tx_digest, event_seq, event_type, sender, timestamp_ms, parsed_json)
+        VALUES (@txDigest, @eventSeq, @eventType, @sender, @timestampMs, @parsedJson)
+    `),
+    saveCursor: db.prepare(`
+        INSERT INTO sync_state (id, tx_digest, event_seq, updated_at_ms) VALUES (1, ?, ?, ?)
+        ON CONFLICT (id) DO UPDATE SET tx_digest = excluded.tx_digest, event_seq = excluded.event_seq, updated_at_ms = excluded.updated_at_ms
+    `),
+    loadCursor: db.prepare(`SELECT tx_digest, event_seq FROM sync_state WHERE id = 1`),
+
+    marketCreated: db.prepare(`
+        INSERT INTO markets (market_id, question, deadline, authority, created_at_ms)
+        VALUES (@marketId, @question, @deadline, @authority, @timestampMs)
+        ON CONFLICT (market_id) DO UPDATE SET question = excluded.question, deadline = excluded.deadline,
+            authority = excluded.authority, created_at_ms = excluded.created_at_ms
+    `),
+    marketPrediction: db.prepare(`
+        INSERT INTO markets (market_id, yes_risk_total, no_risk_total, yes_count, no_count)
+        VALUES (@marketId, @yesRisk, @noRisk, @yes, @no)
+        ON CONFLICT (market_id) DO UPDATE SET
+            yes_risk_total = yes_risk_total + excluded.yes_risk_total,
+            no_risk_total = no_risk_total + excluded.no_risk_total,
+            yes_count = yes_count + excluded.yes_count,
+            no_count = no_count + excluded.no_count
+    `),
+    marketLocked: db.prepare(`
+        INSERT INTO markets (market_id, locked, locked_at_ms) VALUES (@marketId, 1, @timestampMs)
+        ON CONFLICT (market_id) DO UPDATE SET locked = 1, locked_at_ms = excluded.locked_at_ms
+    `),
+    marketResolved: db.prepare(`
+        INSERT INTO markets (market_id, locked, resolved, outcome, resolved_at_ms) VALUES (@marketId, 1, 1, @outcome, @timestampMs)
+        ON CONFLICT (market_id) DO UPDATE SET locked = 1, resolved = 1, outcome = excluded.outcome, resolved_at_ms = excluded.resolved_at_ms
+    `),
+
+    predictionPlaced: db.prepare(`
+        INSERT OR IGNORE INTO predictions (prediction_id, market_id, user, side, confidence, risk, protected, stake, user_max_confidence, placed_at_ms)
+        VALUES (@predictionId, @marketId, @user, @side, @confidence, @risk, @protected, @stake, @userMaxConfidence, @timestampMs)
+    `),
+    predictionSettled: db.prepare(`
+        UPDATE predictions SET settled = 1, won = @won, payout = @payout, profit = @profit, loss = @loss,
+            skill_score = @skillScore, settled_at_ms = @timestampMs, settled_tx = @txDigest, settled_seq = @eventSeq
+        WHERE prediction_id = @predictionId
+    `),
+    // settle_prediction emits PredictionSettled then ReputationUpdated, so the reputation
+    // change belongs to the closest preceding settlement for this user in the same transaction.
+    predictionReputation: db.prepare(`
+        UPDATE predictions SET old_score = @oldScore, new_score = @newScore
+        WHERE prediction_id = (
+            SELECT prediction_id FROM predictions
+            WHERE settled_tx = @txDigest AND user = @user AND settled_seq < @eventSeq AND new_score IS NULL
+            ORDER BY settled_seq DESC LIMIT 1
+        )
+    `),
+    // A ConfidenceCapChanged follows the ReputationUpdated of the settlement that crossed a tier boundary
+    predictionCapChange: db.prepare(`
+        UPDATE predictions SET old_cap = @oldCap, new_cap = @newCap, old_tier = @oldTier, new_tier = @newTier
+        WHERE prediction_id = (
+            SELECT prediction_id FROM predictions
+            WHERE settled_tx = @txDigest AND user = @user AND settled_seq < @eventSeq AND new_tier IS NULL
+            ORDER BY settled_seq DESC LIMIT 1
+        )
+    `),
+
+    profileCreated: db.prepare(`
+        INSERT INTO users (address, profile_id, reputation, max_confidence, created_at_ms, updated_at_ms)
+        VALUES (@user, @profileId, @reputation, @maxConfidence, @timestampMs, @timestampMs)
+        ON CONFLICT (address) DO UPDATE SET profile_id = excluded.profile_id, created_at_ms = excluded.created_at_ms
+    `),
+    reputationUpdated: db.prepare(`
+        INSERT INTO users (address, reputation, prediction_count, updated_at_ms)
+        VALUES (@user, @newScore, @countAfter, @timestampMs)
+        ON CONFLICT (address) DO UPDATE SET reputation = excluded.reputation,
+            prediction_count = excluded.prediction_count, updated_at_ms = excluded.updated_at_ms
+    `),
+    capChanged: db.prepare(`
+        INSERT INTO users (address, max_confidence, updated_at_ms) VALUES (@user, @newCap, @timestampMs)
+        ON CONFLICT (address) DO UPDATE SET max_confidence = excluded.max_confidence, updated_at_ms = excluded.updated_at_ms
+    `),
+    pointsPurchased: db.prepare(`
+        INSERT INTO users (address, points_purchased) VALUES (@user, @amount)
+        ON CONFLICT (address) DO UPDATE SET points_purchased = points_purchased + excluded.points_purchased
+    `),
+    pointsRedeemed: db.prepare(`
+        INSERT INTO users (address, points_redeemed) VALUES (@user, @amount)
+        ON CONFLICT (address) DO UPDATE SET points_redeemed = points_redeemed + excluded.points_redeemed
+    `),
+};
+
+function eventTypeName(type: string): string {
+    return type.split("::").pop() || type;
+}
+
+/** Apply one stored event to the projection tables. */
+function project(eventType: string, txDigest: string, eventSeq: number, timestampMs: number, data: any) {
+    switch (eventType as EventType) {
+        case "MarketCreated":
+            stmts.marketCreated.run({
+                marketId: data.market_id,
+                question: decodeQuestion(data.question),
+                deadline: num(data.deadline),
+                authority: data.authority,
+                timestampMs,
+            });
+            break;
+        case "MarketLocked":
+            stmts.marketLocked.run({ marketId: data.market_id, timestampMs });
+            break;
+        case "MarketResolved":
+            stmts.marketResolved.run({ marketId: data.market_id, outcome: flag(data.outcome), timestampMs });
+            break;
+        case "PredictionPlaced": {
+            const risk = num(data.risk);
+            stmts.predictionPlaced.run({
+                predictionId: data.prediction_id,
+                marketId: data.market_id,
+                user: data.user,
+                side: flag(data.side),
+                confidence: num(data.confidence),
+                risk,
+                protected: num(data.protected),
+                stake: num(data.stake),
+                userMaxConfidence: num(data.user_max_confidence),
+                timestampMs,
+            });
+            stmts.marketPrediction.run({
+                marketId: data.market_id,
+                yesRisk: data.side ? risk : 0,
+                noRisk: data.side ? 0 : risk,
+                yes: data.side ? 1 : 0,
+                no: data.side ? 0 : 1,
+            });
+            break;
+        }
+        case "PredictionSettled":
+            stmts.predictionSettled.run({
+                predictionId: data.prediction_id,
+                won: flag(data.won),
+                payout: num(data.payout),
+                profit: num(data.profit),
+                loss: num(data.loss),
+                skillScore: num(data.skill_score),
+                timestampMs,
+                txDigest,
+                eventSeq,
+            });
+            break;
+        case "ProfileCreated":
+            stmts.profileCreated.run({
+                user: data.user,
+                profileId: data.profile_id,
+                reputation: num(data.initial_reputation),
+                maxConfidence: num(data.initial_max_confidence),
+                timestampMs,
+            });
+            break;
+        case "ReputationUpdated":
+            stmts.reputationUpdated.run({
+                user: data.user,
+                newScore: num(data.new_score),
+                countAfter: num(data.prediction_count_after),
+                timestampMs,
+            });
+            stmts.predictionReputation.run({
+                user: data.user,
+                oldScore: num(data.old_score),
+                newScore: num(data.new_score),
+                txDigest,
+                eventSeq,
+            });
+            break;
+        case "ConfidenceCapChanged":
+            stmts.capChanged.run({ user: data.user, newCap: num(data.new_cap), timestampMs });
+            stmts.predictionCapChange.run({
+                user: data.user,
+                oldCap: num(data.old_cap),
+                newCap: num(data.new_cap),
+                oldTier: text(data.old_tier),
+                newTier: text(data.new_tier),
+                txDigest,
+                eventSeq,
+            });
+            break;
+        case "PointsPurchased":
+            stmts.pointsPurchased.run({ user: data.user, amount: num(data.points_amount) });
+            break;
+        case "PointsRedeemed":
+            stmts.pointsRedeemed.run({ user: data.user, amount: num(data.points_amount) });
+            break;
+    }
+}
+
+/** Store a page of events and advance the cursor atomically. */
+const ingestPage = db.transaction((events: SuiEvent[], nextCursor: EventId | null | undefined) => {
+    let inserted = 0;
+    for (const e of events) {
+        const eventType = eventTypeName(e.type);
+        const timestampMs = num(e.timestampMs);
+        const result = stmts.insertEvent.run({
+            txDigest: e.id.txDigest,
+            eventSeq: e.id.eventSeq,
+            eventType,
+            sender: e.sender,
+            timestampMs,
+            parsedJson: JSON.stringify(e.parsedJson),
+        });
+        // Re-delivered events (e.g. after a crash before the cursor was saved) are skipped
+        if (result.changes === 0) continue;
+        project(eventType, e.id.txDigest, Number(e.id.eventSeq), timestampMs, e.parsedJson);
+        inserted++;
+    }
+    if (nextCursor) {
+        stmts.saveCursor.run(nextCursor.txDigest, nextCursor.eventSeq, Date.now());
+    }
+    return inserted;
+});
+
+/** Drop every projection and replay them from the stored event log. */
+const rebuildProjections = db.transaction(() => {
+    db.exec(`DELETE FROM markets; DELETE FROM predictions; DELETE FROM users;`);
+    const rows = db.prepare(`SELECT * FROM events ORDER BY rowid`).all() as any[];
+    for (const row of rows) {
+        project(row.event_type, row.tx_digest, Number(row.event_seq), row.timestamp_ms, JSON.parse(row.parsed_json));
+    }
+    return rows.length;
+});
+
+// --- 3. SYNC ---
+// All events live in the `events` module, so a single MoveEventModule stream covers every
+// type in emission order and one cursor is enough to resume.
+async function syncEvents(): Promise<number> {
+    const saved = stmts.loadCursor.get() as { tx_digest: string; event_seq: string } | undefined;
+    let cursor: EventId | null = saved ? { txDigest: saved.tx_digest, eventSeq: saved.event_seq } : null;
+    let total = 0;
+
+    while (true) {
+        const page = await client.queryEvents({
+            query: { MoveEventModule: { package: PACKAGE_ID, module: "events" } },
+            cursor,
+            limit: PAGE_SIZE,
+            order: "ascending",
+        });
+
+        total += ingestPage(page.data, page.nextCursor);
+        cursor = page.nextCursor ?? cursor;
+
+        if (!page.hasNextPage) break;
+    }
+
+    return total;
+}
+
+// --- 4. QUERIES ---
+
+function toMarket(row: any) {
+    return {
+        id: row.market_id,
+        question: row.question,
+        deadline: row.deadline,
+        authority: row.authority,
+        yesRiskTotal: row.yes_risk_total,
+        noRiskTotal: row.no_risk_total,
+        yesCount: row.yes_count,
+        noCount: row.no_count,
+        locked: !!row.locked,
+        resolved: !!row.resolved,
+        outcome: row.outcome === null ? null : !!row.outcome,
+        createdAtMs: row.created_at_ms,
+        lockedAtMs: row.locked_at_ms,
+        resolvedAtMs: row.resolved_at_ms,
+    };
+}
+
+function toPrediction(row: any) {
+    return {
+        predictionId: row.prediction_id,
+        marketId: row.market_id,
+        user: row.user,
+        side: !!row.side,
+        confidence: row.confidence,
+        risk: row.risk,
+        protected: row.protected,
+        stake: row.stake,
+        userMaxConfidence: row.user_max_confidence,
+        placedAtMs: row.placed_at_ms,
+        settled: !!row.settled,
+        won: row.won === null ? null : !!row.won,
+        payout: row.payout,
+        profit: row.profit,
+        loss: row.loss,
+        skillScore: row.skill_score,
+        settledAtMs: row.settled_at_ms,
+        oldScore: row.old_score,
+        newScore: row.new_score,
+        oldCap: row.old_cap,
+        newCap: row.new_cap,
+        oldTier: row.old_tier,
+        newTier: row.new_tier,
+    };
+}
+
+function toUser(row: any) {
+    return {
+        address: row.address,
+        profileId: row.profile_id,
+        reputation: row.reputation,
+        maxConfidence: row.max_confidence,
+        predictionCount: row.prediction_count,
+        pointsPurchased: row.points_purchased,
+        pointsRedeemed: row.points_redeemed,
+        createdAtMs: row.created_at_ms,
+        updatedAtMs: row.updated_at_ms,
+    };
+}
+
+function toEvent(row: any) {
+    return {
+        id: { txDigest: row.tx_digest, eventSeq: row.event_seq },
+        packageId: PACKAGE_ID,
+        transactionModule: "events",
+        sender: row.sender,
+        type: `${PACKAGE_ID}::events::${row.event_type}`,
+        parsedJson: JSON.parse(row.parsed_json),
+        timestampMs: String(row.timestamp_ms),
+    };
+}
+
+const queries = {
+    markets: db.prepare(`SELECT * FROM markets WHERE created_at_ms IS NOT NULL ORDER BY created_at_ms DESC`),
+    market: db.prepare(`SELECT * FROM markets WHERE market_id = ?`),
+    marketPredictions: db.prepare(`SELECT * FROM predictions WHERE market_id = ? ORDER BY placed_at_ms`),
+    userPredictions: db.prepare(`SELECT * FROM predictions WHERE user = ? ORDER BY placed_at_ms DESC`),
+    user: db.prepare(`SELECT * FROM users WHERE address = ?`),
+    profiles: db.prepare(`SELECT * FROM users WHERE profile_id IS NOT NULL OR prediction_count > 0`),
+    settlements: db.prepare(`SELECT user, won, profit, loss, settled_at_ms FROM predictions WHERE settled = 1 ORDER BY settled_at_ms`),
+    counts: db.prepare(`
+        SELECT (SELECT COUNT(*) FROM events) AS events, (SELECT COUNT(*) FROM markets) AS markets,
+               (SELECT COUNT(*) FROM predictions) AS predictions, (SELECT COUNT(*) FROM users) AS users
+    `),
+};
+
+/**
+ * Per-user leaderboard stats. Win rate and PnL only count settlements at or after
+ * `sinceMs`; streak and form always use the full settlement history.
+ */
+function getLeaderboard(sinceMs: number) {
+    const stats = new Map<string, { address: string; reputation: number; predictions: number; wins: number; pnl: number; history: boolean[] }>();
+    for (const row of queries.profiles.all() as any[]) {
+        stats.set(row.address, { address: row.address, reputation: row.reputation, predictions: 0, wins: 0, pnl: 0, history: [] });
+    }
+
+    for (const row of queries.settlements.all() as any[]) {
+        let entry = stats.get(row.user);
+        if (!entry) {
+            entry = { address: row.user, reputation: 700, predictions: 0, wins: 0, pnl: 0, history: [] };
+            stats.set(row.user, entry);
+        }
+        entry.history.push(!!row.won);
+        if (row.settled_at_ms >= sinceMs) {
+            entry.predictions += 1;
+            if (row.won) entry.wins += 1;
+            entry.pnl += (row.profit || 0) - (row.loss || 0);
+        }
+    }
+
+    return Array.from(stats.values()).map(({ history, ...entry }) => {
+        let streak = 0;
+        for (let i = history.length - 1; i >= 0 && history[i]; i--) streak++;
+        return { ...entry, streak, form: history.slice(-5) };
+    });
+}
+
+function getEvents(params: URLSearchParams) {
+    const clauses: string[] = [];
+    const args: unknown[] = [];
+
+    const type = params.get("type");
+    if (type) {
+        clauses.push("event_type = ?");
+        args.push(type);
+    }
+    // Filter on the fields every consumer joins by
+    for (const field of ["user", "market_id", "prediction_id"]) {
+        const value = params.get(field);
+        if (value) {
+            clauses.push(`json_extract(parsed_json, '$.${field}') = ?`);
+            args.push(value);
+        }
+    }
+
+    const descending = params.get("order") === "descending";
+    const limit = Math.min(Number(params.get("limit") || 1000), 1000);
+    const offset = Number(params.get("cursor") || 0);
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "";
+    const order = descending ? "DESC" : "ASC";
+
+    const rows = db.prepare(`
+        SELECT * FROM events ${where}
+        ORDER BY rowid ${order}
+        LIMIT ? OFFSET ?
+    `).all(...args, limit + 1, offset) as any[];
+
+    const hasNextPage = rows.length > limit;
+    return {
+        data: rows.slice(0, limit).map(toEvent),
+        nextCursor: hasNextPage ? String(offset + limit) : null,
+        hasNextPage,
+    };
+}
+
+// --- 5. HTTP API ---
+
+function send(res: http.ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, {
+        "Content-Type": "application/json",
+        "Access-Control-Allow-Origin": "*",
+    });
+    res.end(JSON.stringify(body));
+}
+
+function handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+    if (req.method === "OPTIONS") {
+        res.writeHead(204, {
+            "Access-Control-Allow-Origin": "*",
+            "Access-Control-Allow-Methods": "GET, OPTIONS",
+        });
+        res.end();
+        return;
+    }
+    if (req.method !== "GET") {
+        send(res, 405, { error: "Method not allowed" });
+        return;
+    }
+
+    const url = new URL(req.url || "/", `http://localhost:${PORT}`);
+    const parts = url.pathname.split("/").filter(Boolean);
+
+    try {
+        // GET /health
+        if (parts[0] === "health") {
+            const cursor = stmts.loadCursor.get() ?? null;
+            return send(res, 200, { network: NETWORK, packageId: PACKAGE_ID, cursor, ...(queries.counts.get() as object) });
+        }
+
+        // GET /events?type=&user=&market_id=&prediction_id=&order=&limit=&cursor=
+        if (parts[0] === "events" && parts.length === 1) {
+            return send(res, 200, getEvents(url.searchParams));
+        }
+
+        // GET /markets, /markets/:id, /markets/:id/predictions
+        if (parts[0] === "markets") {
+            if (parts.length === 1) {
+                return send(res, 200, (queries.markets.all() as any[]).map(toMarket));
+            }
+            const row = queries.market.get(parts[1]);
+            if (!row) return send(res, 404, { error: "Market not found" });
+            if (parts.length === 2) return send(res, 200, toMarket(row));
+            if (parts[2] === "predictions") {
+                return send(res, 200, (queries.marketPredictions.all(parts[1]) as any[]).map(toPrediction));
+            }
+        }
+
+        // GET /users/:address, /users/:address/predictions
+        if (parts[0] === "users" && parts[1]) {
+            if (parts[2] === "predictions") {
+                return send(res, 200, (queries.userPredictions.all(parts[1]) as any[]).map(toPrediction));
+            }
+            const row = queries.user.get(parts[1]);
+            if (!row) return send(res, 404, { error: "User not found" });
+            return send(res, 200, toUser(row));
+        }
+
+        // GET /leaderboard?since=<ms>
+        if (parts[0] === "leaderboard") {
+            return send(res, 200, getLeaderboard(Number(url.searchParams.get("since") || 0)));
+        }
+
+        send(res, 404, { error: "Not found" });
+    } catch (e) {
+        console.error("   ❌ Request failed:", e);
+        send(res, 500, { error: "Internal error" });
+    }
+}
+
+// --- 6. MAIN ---
+async function main() {
+    console.log(`📚 Calibr Event Indexer Starting...`);
+    console.log(`🔹 Network: ${NETWORK} (${RPC_URL})`);
+    console.log(`🔹 Package: ${PACKAGE_ID.slice(0, 10)}...`);
+    console.log(`🔹 Database: ${DB_PATH}`);
+
+    if (process.argv.includes("--rebuild")) {
+        const replayed = rebuildProjections();
+        console.log(`🔁 Rebuilt projections from ${replayed} stored events`);
+    }
+
+    http.createServer(handleRequest).listen(PORT, () => {
+        console.log(`🌍 API listening on http://localhost:${PORT}`);
+    });
+
+    let syncing = false;
+    const tick = async () => {
+        if (syncing) return;
+        syncing = true;
+        try {
+            const inserted = await syncEvents();
+            if (inserted > 0) console.log(`   📥 Indexed ${inserted} new events`);
+        } catch (e) {
+            console.error("⚠️ Error syncing events:", e);
+        } finally {
+            syncing = false;
+        }
+    };
+
+    await tick();
+    setInterval(tick, POLLING_INTERVAL_MS);
+}
+
+main().catch(console.error);
@@ -0,0 +1,418 @@
+import { SuiJsonRpcClient as SuiClient, getJsonRpcFullnodeUrl } from "@mysten/sui/jsonRpc";
+import { verifyPersonalMessageSignature } from "@mysten/sui/verify";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { createHash } from "crypto";
+import fs from "fs";
+import http from "http";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+// --- CONFIGURATION ---
+const NETWORK = (process.env.SUI_NETWORK || "testnet") as "testnet" | "mainnet" | "devnet";
+const RPC_URL = process.env.SUI_RPC_URL || getJsonRpcFullnodeUrl(NETWORK);
+// Only the owner of this AdminCap may write (same default as CONTRACT_IDS.testnet)
+const ADMIN_CAP_ID = process.env.ADMIN_CAP_ID || "0x108534a9cebf7eff2a968bbac578b9c24bc60fc6637f6c987d6a60397ffcdf0e";
+// Writes go to the registry the app embeds, so a local session can be committed as-is
+const REGISTRY_PATH = process.env.METADATA_PATH || "src/data/market-metadata.json";
+// Watchlists are user data, so they're kept out of the committed registry
+const WATCHLIST_PATH = process.env.WATCHLIST_PATH || "calibr-watchlists.json";
+const PORT = Number(process.env.METADATA_PORT || 4200);
+
+// A signed update is only accepted this soon after it was issued
+const MAX_MESSAGE_AGE_MS = 5 * 60 * 1000;
+
+// Mirrors the limits in src/lib/market-metadata.ts and src/lib/market-documents.ts
+const MAX_TAGS = 8;
+const MAX_CATEGORY_LENGTH = 40;
+const TAG_PATTERN = /^[a-z0-9][a-z0-9-]{0,31}$/;
+const MAX_SOURCES = 10;
+const MAX_EDGE_CASES = 20;
+const MAX_DOCUMENT_BYTES = 16 * 1024;
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+const MAX_WATCHLIST_SIZE = 200;
+
+const client = new SuiClient({ url: RPC_URL, network: NETWORK });
+
+// Mirrors src/lib/market-documents.ts MarketDocument
+interface MarketDocument {
+    version: 1;
+    description: string;
+    resolutionCriteria: string;
+    sources: { label: string; url: string }[];
+    edgeCases: string[];
+    imageUrl: string | null;
+}
+
+// Shape of src/lib/market-metadata.ts MarketRegistry, plus documents keyed by hash
+interface MarketRegistry {
+    categories: { name: string; keywords: string[] }[];
+    markets: Record<string, { category: string; tags: string[]; updatedAtMs: number; updatedBy: string }>;
+    documents: Record<string, MarketDocument>;
+}
+
+// --- 1. REGISTRY FILE ---
+function loadRegistry(): MarketRegistry {
+    const stored = fs.existsSync(REGISTRY_PATH) ? JSON.parse(fs.readFileSync(REGISTRY_PATH, "utf8")) : {};
+    return { categories: [], markets: {}, documents: {}, ...stored };
+}
+
+const registry = loadRegistry();
+
+// Mirrors src/lib/watchlist.ts Watchlist
+interface Watchlist {
+    entries: { marketId: string; addedAtMs: number; probabilityAtAdd: number }[];
+    updatedAtMs: number;
+}
+
+const watchlists: Record<string, Watchlist> = fs.existsSync(WATCHLIST_PATH)
+    ? JSON.parse(fs.readFileSync(WATCHLIST_PATH, "utf8"))
+    : {};
+
+// Write-then-rename so a crash never leaves a half-written file behind
+function writeJsonFile(path: string, data: unknown) {
+    const tmpPath = `${path}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2) + "\n");
+    fs.renameSync(tmpPath, path);
+}
+
+function saveRegistry() {
+    writeJsonFile(REGISTRY_PATH, registry);
+}
+
+// --- 2. AUTHORIZATION ---
+async function getAdminAddress(): Promise<string | null> {
+    const result = await client.getObject({ id: ADMIN_CAP_ID, options: { showOwner: true } });
+    const owner = result.data?.owner;
+    return owner && typeof owner === "object" && "AddressOwner" in owner ? owner.AddressOwner : null;
+}
+
+class RequestError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+    }
+}
+
+/**
+ * Check a { message, signature } body's signature and return the signer
+ * with the parsed message
+ */
+async function verifySignedMessage<T>(body: { message?: string; signature?: string }): Promise<{ signer: string; payload: T }> {
+    if (typeof body.message !== "string" || typeof body.signature !== "string") {
+        throw new RequestError(400, "Expected { message, signature }");
+    }
+
+    let signer: string;
+    try {
+        const publicKey = await verifyPersonalMessageSignature(new TextEncoder().encode(body.message), body.signature);
+        signer = publicKey.toSuiAddress();
+    } catch {
+        throw new RequestError(401, "Invalid signature");
+    }
+
+    try {
+        return { signer, payload: JSON.parse(body.message) };
+    } catch {
+        throw new RequestError(400, "Message is not JSON");
+    }
+}
+
+/**
+ * Same as verifySignedMessage, but only the AdminCap owner may sign
+ */
+async function verifyAdminMessage<T>(body: { message?: string; signature?: string }): Promise<{ signer: string; payload: T }> {
+    const verified = await verifySignedMessage<T>(body);
+    const admin = await getAdminAddress();
+    if (!admin || admin !== verified.signer) throw new RequestError(403, "Signer does not own the AdminCap");
+    return verified;
+}
+
+function checkMessageAge(issuedAtMs: number) {
+    const age = Date.now() - Number(issuedAtMs);
+    if (!(age >= -60_000 && age <= MAX_MESSAGE_AGE_MS)) {
+        throw new RequestError(400, "Signed message has expired");
+    }
+}
+
+// Mirrors src/lib/market-metadata.ts MetadataUpdate
+interface MetadataUpdate {
+    action: string;
+    marketId: string;
+    category: string;
+    tags: string[];
+    issuedAtMs: number;
+}
+
+function validateUpdate(update: MetadataUpdate, marketId: string) {
+    if (update.action !== "calibr:set-market-labels") throw new RequestError(400, "Unknown action");
+    if (update.marketId !== marketId) throw new RequestError(400, "Signed market ID does not match the URL");
+    if (typeof update.category !== "string" || !update.category.trim() || update.category.length > MAX_CATEGORY_LENGTH) {
+        throw new RequestError(400, `Category must be 1-${MAX_CATEGORY_LENGTH} characters`);
+    }
+    if (!Array.isArray(update.tags) || update.tags.length > MAX_TAGS || !update.tags.every(t => typeof t === "string" && TAG_PATTERN.test(t))) {
+        throw new RequestError(400, `Up to ${MAX_TAGS} lowercase tags (a-z, 0-9, -) are allowed`);
+    }
+    checkMessageAge(update.issuedAtMs);
+    // Each accepted update moves the market's timestamp forward, so a replayed message is stale
+    const existing = registry.markets[marketId];
+    if (existing && update.issuedAtMs <= existing.updatedAtMs) {
+        throw new RequestError(409, "A newer update has already been applied");
+    }
+}
+
+async function applySignedUpdate(marketId: string, body: { message?: string; signature?: string }) {
+    const { signer, payload: update } = await verifyAdminMessage<MetadataUpdate>(body);
+    validateUpdate(update, marketId);
+
+    const category = update.category.trim();
+    if (!registry.categories.some(c => c.name === category)) {
+        registry.categories.push({ name: category, keywords: [] });
+        console.log(`   🏷️  New category "${category}"`);
+    }
+    registry.markets[marketId] = { category, tags: update.tags, updatedAtMs: update.issuedAtMs, updatedBy: signer };
+    saveRegistry();
+    console.log(`   💾 ${marketId.slice(0, 10)}... → ${category} [${update.tags.join(", ")}]`);
+
+    return registry.markets[marketId];
+}
+
+// --- 3. DOCUMENTS ---
+
+// Mirrors canonicalizeDocument in src/lib/market-documents.ts; the hash must come out identical
+function canonicalizeDocument(document: MarketDocument): string {
+    return JSON.stringify({
+        version: document.version,
+        description: document.description,
+        resolutionCriteria: document.resolutionCriteria,
+        sources: document.sources.map(s => ({ label: s.label, url: s.url })),
+        edgeCases: document.edgeCases,
+        imageUrl: document.imageUrl,
+    });
+}
+
+function hashDocument(document: MarketDocument): string {
+    return createHash("sha256").update(canonicalizeDocument(document), "utf8").digest("hex");
+}
+
+const isString = (v: unknown) => typeof v === "string";
+
+function validateDocument(document: MarketDocument) {
+    const valid = document
+        && document.version === 1
+        && isString(document.description)
+        && isString(document.resolutionCriteria)
+        && Array.isArray(document.sources) && document.sources.length <= MAX_SOURCES
+        && document.sources.every(s => s && isString(s.label) && isString(s.url) && /^https?:\/\//.test(s.url))
+        && Array.isArray(document.edgeCases) && document.edgeCases.length <= MAX_EDGE_CASES
+        && document.edgeCases.every(isString)
+        && (document.imageUrl === null || (isString(document.imageUrl) && /^https?:\/\//.test(document.imageUrl)));
+    if (!valid) throw new RequestError(400, "Malformed market document");
+    if (Buffer.byteLength(canonicalizeDocument(document)) > MAX_DOCUMENT_BYTES) {
+        throw new RequestError(413, `Market documents are limited to ${MAX_DOCUMENT_BYTES / 1024} KB`);
+    }
+}
+
+// Mirrors src/lib/market-documents.ts DocumentUpload
+interface DocumentUpload {
+    action: string;
+    document: MarketDocument;
+    issuedAtMs: number;
+}
+
+/**
+ * Documents are stored under their own hash, so storing one twice is a no-op
+ * and an existing one can never be overwritten with different content
+ */
+async function storeSignedDocument(hash: string, body: { message?: string; signature?: string }) {
+    if (!HASH_PATTERN.test(hash)) throw new RequestError(400, "Expected a hex SHA-256 hash");
+
+    const { payload: upload } = await verifyAdminMessage<DocumentUpload>(body);
+    if (upload.action !== "calibr:put-document") throw new RequestError(400, "Unknown action");
+    checkMessageAge(upload.issuedAtMs);
+    validateDocument(upload.document);
+
+    const document = JSON.parse(canonicalizeDocument(upload.document)) as MarketDocument;
+    if (hashDocument(document) !== hash) throw new RequestError(400, "Document does not hash to the URL");
+
+    if (!registry.documents[hash]) {
+        registry.documents[hash] = document;
+        saveRegistry();
+        console.log(`   📄 Stored document ${hash.slice(0, 10)}...`);
+    }
+    return { hash, document };
+}
+
+// --- 4. WATCHLISTS ---
+
+// Mirrors src/lib/watchlist.ts WatchlistUpdate
+interface WatchlistUpdate {
+    action: string;
+    address: string;
+    entries: Watchlist["entries"];
+    updatedAtMs: number;
+}
+
+/**
+ * Anyone may save their own watchlist. The whole list is replaced, and only
+ * by a newer one, so a replayed message can't roll it back.
+ */
+async function saveSignedWatchlist(address: string, body: { message?: string; signature?: string }) {
+    const { signer, payload: update } = await verifySignedMessage<WatchlistUpdate>(body);
+    if (update.action !== "calibr:set-watchlist") throw new RequestError(400, "Unknown action");
+    if (signer !== address || normalizeSuiAddress(String(update.address)) !== address) {
+        throw new RequestError(403, "Watchlists can only be saved by their own wallet");
+    }
+    checkMessageAge(update.updatedAtMs);
+
+    const valid = Array.isArray(update.entries)
+        && update.entries.length <= MAX_WATCHLIST_SIZE
+        && update.entries.every(e => e
+            && typeof e.marketId === "string"
+            && Number.isFinite(e.addedAtMs)
+            && Number.isFinite(e.probabilityAtAdd));
+    if (!valid) throw new RequestError(400, `Expected up to ${MAX_WATCHLIST_SIZE} watchlist entries`);
+
+    const existing = watchlists[address];
+    if (existing && update.updatedAtMs <= existing.updatedAtMs) {
+        throw new RequestError(409, "A newer watchlist has already been saved");
+    }
+
+    watchlists[address] = {
+        entries: update.entries.map(e => ({ marketId: e.marketId, addedAtMs: e.addedAtMs, probabilityAtAdd: e.probabilityAtAdd })),
+        updatedAtMs: update.updatedAtMs,
+    };
+    writeJsonFile(WATCHLIST_PATH, watchlists);
+    console.log(`   ⭐ ${address.slice(0, 10)}... watching ${update.entries.length} markets`);
+
+    return watchlists[address];
+}
+
+// --- 5. HTTP API ---
+function send(res: http.ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, {
+        "Content-Type": "application/json",
+        "Access-Control-Allow-Origin": "*",
+    });
+    res.end(JSON.stringify(body));
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        let body = "";
+        req.setEncoding("utf8");
+        req.on("data", chunk => (body += chunk));
+        req.on("end", () => resolve(body));
+        req.on("error", reject);
+    });
+}
+
+async function handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+    if (req.method === "OPTIONS") {
+        res.writeHead(204, {
+            "Access-Control-Allow-Origin": "*",
+            "Access-Control-Allow-Headers": "Content-Type",
+            "Access-Control-Allow-Methods": "GET, PUT, OPTIONS",
+        });
+        res.end();
+        return;
+    }
+
+    const url = new URL(req.url || "/", `http://localhost:${PORT}`);
+    const parts = url.pathname.split("/").filter(Boolean);
+
+    try {
+        // GET /health
+        if (req.method === "GET" && parts[0] === "health") {
+            return send(res, 200, {
+                network: NETWORK,
+                adminCapId: ADMIN_CAP_ID,
+                categories: registry.categories.length,
+                markets: Object.keys(registry.markets).length,
+                documents: Object.keys(registry.documents).length,
+                watchlists: Object.keys(watchlists).length,
+            });
+        }
+
+        // GET /registry (labels only; documents are fetched one at a time by hash)
+        if (req.method === "GET" && parts[0] === "registry") {
+            return send(res, 200, { categories: registry.categories, markets: registry.markets });
+        }
+
+        // GET /documents/:hash, PUT /documents/:hash { message, signature }
+        if (parts[0] === "documents" && parts.length === 2) {
+            if (req.method === "GET") {
+                const document = registry.documents[parts[1]];
+                return document ? send(res, 200, document) : send(res, 404, { error: "No document with this hash" });
+            }
+            if (req.method === "PUT") {
+                let body: any;
+                try {
+                    body = JSON.parse(await readBody(req));
+                } catch {
+                    return send(res, 400, { error: "Body is not JSON" });
+                }
+                return send(res, 200, await storeSignedDocument(parts[1], body));
+            }
+            return send(res, 405, { error: "Method not allowed" });
+        }
+
+        // GET /markets/:id, PUT /markets/:id { message, signature }
+        if (parts[0] === "markets" && parts.length === 2) {
+            if (req.method === "GET") {
+                const entry = registry.markets[parts[1]];
+                return entry ? send(res, 200, entry) : send(res, 404, { error: "Market has no metadata" });
+            }
+            if (req.method === "PUT") {
+                let body: any;
+                try {
+                    body = JSON.parse(await readBody(req));
+                } catch {
+                    return send(res, 400, { error: "Body is not JSON" });
+                }
+                return send(res, 200, await applySignedUpdate(parts[1], body));
+            }
+            return send(res, 405, { error: "Method not allowed" });
+        }
+
+        // GET /watchlists/:address, PUT /watchlists/:address { message, signature }
+        if (parts[0] === "watchlists" && parts.length === 2) {
+            const address = normalizeSuiAddress(parts[1]);
+            if (req.method === "GET") {
+                const watchlist = watchlists[address];
+                return watchlist ? send(res, 200, watchlist) : send(res, 404, { error: "No watchlist saved" });
+            }
+            if (req.method === "PUT") {
+                let body: any;
+                try {
+                    body = JSON.parse(await readBody(req));
+                } catch {
+                    return send(res, 400, { error: "Body is not JSON" });
+                }
+                return send(res, 200, await saveSignedWatchlist(address, body));
+            }
+            return send(res, 405, { error: "Method not allowed" });
+        }
+
+        send(res, 404, { error: "Not found" });
+    } catch (e) {
+        if (e instanceof RequestError) return send(res, e.status, { error: e.message });
+        console.error("   ❌ Request failed:", e);
+        send(res, 500, { error: "Internal error" });
+    }
+}
+
+// --- 6. MAIN ---
+function main() {
+    console.log(`🏷️  Calibr Metadata Service Starting...`);
+    console.log(`🔹 Network: ${NETWORK} (${RPC_URL})`);
+    console.log(`🔹 AdminCap: ${ADMIN_CAP_ID.slice(0, 10)}...`);
+    console.log(`🔹 Registry: ${REGISTRY_PATH} (${registry.categories.length} categories, ${Object.keys(registry.markets).length} markets, ${Object.keys(registry.documents).length} documents)`);
+    console.log(`🔹 Watchlists: ${WATCHLIST_PATH} (${Object.keys(watchlists).length} wallets)`);
+
+    http.createServer(handleRequest).listen(PORT, () => {
+        console.log(`🌍 API listening on http://localhost:${PORT}`);
+        console.log(`   Run the app with NEXT_PUBLIC_METADATA_URL=http://localhost:${PORT} to save labels and documents from the admin page`);
+    });
+}
+
+main();
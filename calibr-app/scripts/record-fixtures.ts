@@ -0,0 +1,147 @@
+import { getJsonRpcFullnodeUrl } from "@mysten/sui/jsonRpc";
+import fs from "fs";
+import http from "http";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+// --- CONFIGURATION ---
+const NETWORK = (process.env.SUI_NETWORK || "testnet") as "testnet" | "mainnet" | "devnet";
+const UPSTREAM_URL = process.env.SUI_RPC_URL || getJsonRpcFullnodeUrl(NETWORK);
+const PORT = Number(process.env.RECORDER_PORT || 4100);
+const OUTPUT_PATH = process.env.FIXTURE_PATH || "src/data/fixtures/rpc.json";
+
+// Coalesce writes while a page is firing off its queries
+const SAVE_DELAY_MS = 500;
+
+function argValue(flag: string): string | null {
+    const index = process.argv.indexOf(flag);
+    return index !== -1 ? process.argv[index + 1] ?? null : null;
+}
+
+// Shape of src/lib/rpc-fixtures.ts RpcFixtureFile
+interface FixtureFile {
+    network: string;
+    recordedAt: string | null;
+    demoAddress: string | null;
+    responses: Record<string, { result: unknown } | { error: unknown }>;
+}
+
+// Mirrors fixtureKey() in src/lib/rpc-fixtures.ts
+function fixtureKey(method: string, params: unknown[]): string {
+    return `${method} ${JSON.stringify(params)}`;
+}
+
+// --- 1. FIXTURE FILE ---
+// Recording merges into the existing file, so pages can be captured one at a time.
+// Pass --reset to start from scratch.
+function loadFixtures(): FixtureFile {
+    if (!process.argv.includes("--reset") && fs.existsSync(OUTPUT_PATH)) {
+        const existing = JSON.parse(fs.readFileSync(OUTPUT_PATH, "utf8")) as FixtureFile;
+        if (existing.network === NETWORK) return existing;
+        console.warn(`⚠️ ${OUTPUT_PATH} was recorded on ${existing.network}; starting a new ${NETWORK} recording`);
+    }
+    return { network: NETWORK, recordedAt: null, demoAddress: null, responses: {} };
+}
+
+const fixtures = loadFixtures();
+fixtures.demoAddress = argValue("--address") ?? fixtures.demoAddress;
+
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+function scheduleSave() {
+    if (saveTimer) return;
+    saveTimer = setTimeout(() => {
+        saveTimer = null;
+        fixtures.recordedAt = new Date().toISOString();
+        fs.writeFileSync(OUTPUT_PATH, JSON.stringify(fixtures, null, 2) + "\n");
+        console.log(`   💾 ${Object.keys(fixtures.responses).length} responses saved to ${OUTPUT_PATH}`);
+    }, SAVE_DELAY_MS);
+}
+
+// --- 2. RECORDING ---
+// Requests and responses may be single objects or JSON-RPC batches; pair them up by id.
+function record(request: any, response: any) {
+    const requests: any[] = Array.isArray(request) ? request : [request];
+    const responses: any[] = Array.isArray(response) ? response : [response];
+    const byId = new Map(responses.map(r => [r?.id, r]));
+
+    for (const call of requests) {
+        const reply = byId.get(call?.id);
+        if (!reply || typeof call.method !== "string") continue;
+
+        const key = fixtureKey(call.method, call.params ?? []);
+        fixtures.responses[key] = reply.error ? { error: reply.error } : { result: reply.result };
+        console.log(`   📼 ${call.method}${reply.error ? " (error)" : ""}`);
+    }
+    scheduleSave();
+}
+
+// --- 3. PROXY ---
+function readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        let body = "";
+        req.setEncoding("utf8");
+        req.on("data", chunk => (body += chunk));
+        req.on("end", () => resolve(body));
+        req.on("error", reject);
+    });
+}
+
+async function handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+    const cors = {
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Headers": "*",
+        "Access-Control-Allow-Methods": "POST, OPTIONS",
+    };
+    if (req.method === "OPTIONS") {
+        res.writeHead(204, cors);
+        res.end();
+        return;
+    }
+    if (req.method !== "POST") {
+        res.writeHead(405, { ...cors, "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "Method not allowed" }));
+        return;
+    }
+
+    try {
+        const body = await readBody(req);
+        const upstream = await fetch(UPSTREAM_URL, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body,
+        });
+        const text = await upstream.text();
+
+        if (upstream.ok) {
+            try {
+                record(JSON.parse(body), JSON.parse(text));
+            } catch (e) {
+                console.error("   ❌ Could not record exchange:", e);
+            }
+        }
+
+        res.writeHead(upstream.status, { ...cors, "Content-Type": "application/json" });
+        res.end(text);
+    } catch (e) {
+        console.error("   ❌ Upstream request failed:", e);
+        res.writeHead(502, { ...cors, "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "Upstream request failed" }));
+    }
+}
+
+// --- 4. MAIN ---
+function main() {
+    console.log(`📼 Calibr Fixture Recorder Starting...`);
+    console.log(`🔹 Upstream: ${NETWORK} (${UPSTREAM_URL})`);
+    console.log(`🔹 Output: ${OUTPUT_PATH} (${Object.keys(fixtures.responses).length} existing responses)`);
+    console.log(`🔹 Demo address: ${fixtures.demoAddress ?? "none (pass --address 0x...)"}`);
+
+    http.createServer(handleRequest).listen(PORT, () => {
+        console.log(`🌍 Proxy listening on http://localhost:${PORT}`);
+        console.log(`   Run the app with NEXT_PUBLIC_SUI_RPC_URL=http://localhost:${PORT} and browse every page to record it`);
+    });
+}
+
+main();
@@ -1,9 +1,28 @@
 "use client";
 
 import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { useWalletContext } from "@/contexts/WalletContext";
 import { useMarkets } from "@/hooks/useMarkets";
+import { useMarketRegistry } from "@/hooks/useMarketRegistry";
 import { CONTRACT_IDS } from "@/lib/sui-config";
+import { getSuiRpcClient } from "@/lib/sui-rpc";
+import { decodeEvents } from "@/lib/calibr-events";
+import {
+    buildMetadataUpdate,
+    isMetadataServiceEnabled,
+    listCategories,
+    parseTags,
+    saveMarketLabels
+} from "@/lib/market-metadata";
+import {
+    buildMarketDocument,
+    isDocumentEmpty,
+    parseEdgeCases,
+    parseSources,
+    saveMarketDocument
+} from "@/lib/market-documents";
+import { withDocumentCommitment, type MarketStatus } from "@/lib/calibr-types";
 import {
     buildCreateMarketTx,
     buildLockMarketTx,
@@ -13,14 +32,42 @@ import { toast } from "sonner";
 import { Shield, Plus, Lock, Check, X, RefreshCw, Calendar } from "lucide-react";
 import { CountdownTimer } from "@/components/ui/CountdownTimer";
 
+const statusBadges: Record<MarketStatus, { label: string; className: string }> = {
+    active: { label: "ACTIVE", className: "bg-blue-500/10 text-blue-600 border-blue-500/20" },
+    expired: { label: "AWAITING LOCK", className: "bg-orange-500/10 text-orange-600 border-orange-500/20" },
+    resolving: { label: "AWAITING RESOLUTION", className: "bg-amber-500/10 text-amber-600 border-amber-500/20" },
+    resolved: { label: "RESOLVED", className: "bg-green-500/10 text-green-600 border-green-500/20" },
+};
+
+// The create transaction's MarketCreated event carries the new ID; the
+// fullnode may take a moment to index it
+async function findCreatedMarketId(digest: string): Promise<string | null> {
+    for (let attempt = 0; attempt < 5; attempt++) {
+        const events = await getSuiRpcClient().queryAllEvents({ Transaction: digest }).catch(() => []);
+        const created = decodeEvents(events, "MarketCreated");
+        if (created.length > 0) return created[0].data.marketId;
+        await new Promise(resolve => setTimeout(resolve, 1000));
+    }
+    return null;
+}
+
 export default function AdminPage() {
-    const { isConnected, address, signAndExecuteTransaction } = useWalletContext();
+    const { isConnected, address, signAndExecuteTransaction, signPersonalMessage } = useWalletContext();
     const { data: markets, isLoading, refetch } = useMarkets();
+    const { data: registry } = useMarketRegistry();
+    const queryClient = useQueryClient();
     const [activeTab, setActiveTab] = useState<"create" | "manage">("create");
 
     // Create Market Form State
     const [question, setQuestion] = useState("");
     const [deadlineDate, setDeadlineDate] = useState("");
+    const [category, setCategory] = useState("");
+    const [tagsInput, setTagsInput] = useState("");
+    const [description, setDescription] = useState("");
+    const [resolutionCriteria, setResolutionCriteria] = useState("");
+    const [sourcesInput, setSourcesInput] = useState("");
+    const [edgeCasesInput, setEdgeCasesInput] = useState("");
+    const [imageUrl, setImageUrl] = useState("");
     const [isCreating, setIsCreating] = useState(false);
 
     const adminCapId = CONTRACT_IDS.testnet.adminCapId;
@@ -50,9 +97,30 @@ export default function AdminPage() {
                 return;
             }
 
+            // The document is stored first so its hash can go into the question
+            let onChainQuestion = question;
+            const document = buildMarketDocument({
+                description,
+                resolutionCriteria,
+                sources: parseSources(sourcesInput),
+                edgeCases: parseEdgeCases(edgeCasesInput),
+                imageUrl,
+            });
+            if (!isDocumentEmpty(document)) {
+                try {
+                    const documentHash = await saveMarketDocument(document, signPersonalMessage);
+                    onChainQuestion = withDocumentCommitment(question, documentHash);
+                } catch (error) {
+                    console.error("Save document error:", error);
+                    toast.error("Market not created, saving its document failed: " + (error instanceof Error ? error.message : "Unknown error"));
+                    setIsCreating(false);
+                    return;
+                }
+            }
+
             const tx = buildCreateMarketTx(
                 adminCapId,
-                question,
+                onChainQuestion,
                 deadlineMs,
                 address
             );
@@ -60,8 +128,16 @@ export default function AdminPage() {
             const result = await signAndExecuteTransaction(tx);
             if (result) {
                 toast.success("Market created successfully!");
+                await saveLabels(result.digest);
                 setQuestion("");
                 setDeadlineDate("");
+                setCategory("");
+                setTagsInput("");
+                setDescription("");
+                setResolutionCriteria("");
+                setSourcesInput("");
+                setEdgeCasesInput("");
+                setImageUrl("");
                 refetch();
             }
         } catch (error) {
@@ -72,6 +148,32 @@ export default function AdminPage() {
         }
     };
 
+    // Category and tags go to the metadata registry once the market has an ID.
+    // A failure here leaves the market live, filed under an inferred category.
+    const saveLabels = async (digest: string) => {
+        const tags = parseTags(tagsInput);
+        if (!category.trim() && tags.length === 0) return;
+        if (!isMetadataServiceEnabled()) {
+            toast.warning("Category and tags not saved: no metadata service configured");
+            return;
+        }
+
+        try {
+            const marketId = await findCreatedMarketId(digest);
+            if (!marketId) throw new Error("Could not find the new market ID");
+
+            await saveMarketLabels(
+                buildMetadataUpdate(marketId, category.trim() || "Other", tags),
+                signPersonalMessage
+            );
+            queryClient.invalidateQueries({ queryKey: ["market-registry"] });
+            toast.success("Category and tags saved");
+        } catch (error) {
+            console.error("Save labels error:", error);
+            toast.error("Market created, but saving its category failed: " + (error instanceof Error ? error.message : "Unknown error"));
+        }
+    };
+
     const [resolvingId, setResolvingId] = useState<string | null>(null);
     const [confirmingId, setConfirmingId] = useState<string | null>(null);
     const [confirmOutcome, setConfirmOutcome] = useState<boolean>(false);
@@ -209,6 +311,99 @@ export default function AdminPage() {
                                 </p>
                             </div>
 
+                            <div className="grid gap-4 sm:grid-cols-2">
+                                <div className="space-y-2">
+                                    <label className="text-sm font-medium">Category</label>
+                                    <input
+                                        list="market-categories"
+                                        value={category}
+                                        onChange={(e) => setCategory(e.target.value)}
+                                        placeholder="Pick or type a new one"
+                                        className="w-full p-3 rounded-lg border border-input bg-background focus:ring-2 focus:ring-primary/20 outline-none"
+                                    />
+                                    <datalist id="market-categories">
+                                        {registry && listCategories(registry, markets).map(name => (
+                                            <option key={name} value={name} />
+                                        ))}
+                                    </datalist>
+                                </div>
+                                <div className="space-y-2">
+                                    <label className="text-sm font-medium">Tags</label>
+                                    <input
+                                        value={tagsInput}
+                                        onChange={(e) => setTagsInput(e.target.value)}
+                                        placeholder="e.g. bitcoin, etf"
+                                        className="w-full p-3 rounded-lg border border-input bg-background focus:ring-2 focus:ring-primary/20 outline-none"
+                                    />
+                                </div>
+                            </div>
+                            <p className="text-xs text-muted-foreground -mt-4">
+                                {isMetadataServiceEnabled()
+                                    ? "Saved to the metadata registry with a signed message after the market is created."
+                                    : "Set NEXT_PUBLIC_METADATA_URL to save labels; otherwise the category is inferred from the question."}
+                            </p>
+
+                            <div className="space-y-4 pt-4 border-t border-border">
+                                <div>
+                                    <h3 className="text-sm font-medium">Market Document</h3>
+                                    <p className="text-xs text-muted-foreground mt-1">
+                                        Optional. Its hash is committed in the question on chain, so these details can&apos;t change after predictions are placed.
+                                        {!isMetadataServiceEnabled() && " Requires a metadata service (NEXT_PUBLIC_METADATA_URL)."}
+                                    </p>
+                                </div>
+
+                                <div className="space-y-2">
+                                    <label className="text-sm font-medium">Description</label>
+                                    <textarea
+                                        value={description}
+                                        onChange={(e) => setDescription(e.target.value)}
+                                        placeholder="Background and context for predictors"
+                                        className="w-full min-h-[80px] p-3 rounded-lg border border-input bg-background focus:ring-2 focus:ring-primary/20 outline-none resize-y"
+                                    />
+                                </div>
+
+                                <div className="space-y-2">
+                                    <label className="text-sm font-medium">Resolution Criteria</label>
+                                    <textarea
+                                        value={resolutionCriteria}
+                                        onChange={(e) => setResolutionCriteria(e.target.value)}
+                                        placeholder="e.g. Resolves YES if the CoinGecko daily close for BTC/USD exceeds $100,000 on any day before the deadline."
+                                        className="w-full min-h-[80px] p-3 rounded-lg border border-input bg-background focus:ring-2 focus:ring-primary/20 outline-none resize-y"
+                                    />
+                                </div>
+
+                                <div className="space-y-2">
+                                    <label className="text-sm font-medium">Sources</label>
+                                    <textarea
+                                        value={sourcesInput}
+                                        onChange={(e) => setSourcesInput(e.target.value)}
+                                        placeholder={"One per line: Label | https://...\nhttps://www.coingecko.com/en/coins/bitcoin"}
+                                        className="w-full min-h-[60px] p-3 rounded-lg border border-input bg-background focus:ring-2 focus:ring-primary/20 outline-none resize-y font-mono text-xs"
+                                    />
+                                </div>
+
+                                <div className="space-y-2">
+                                    <label className="text-sm font-medium">Edge Cases</label>
+                                    <textarea
+                                        value={edgeCasesInput}
+                                        onChange={(e) => setEdgeCasesInput(e.target.value)}
+                                        placeholder={"One rule per line\ne.g. If the source is unavailable, the next listed source is used."}
+                                        className="w-full min-h-[60px] p-3 rounded-lg border border-input bg-background focus:ring-2 focus:ring-primary/20 outline-none resize-y"
+                                    />
+                                </div>
+
+                                <div className="space-y-2">
+                                    <label className="text-sm font-medium">Image URL</label>
+                                    <input
+                                        type="url"
+                                        value={imageUrl}
+                                        onChange={(e) => setImageUrl(e.target.value)}
+                                        placeholder="https://..."
+                                        className="w-full p-3 rounded-lg border border-input bg-background focus:ring-2 focus:ring-primary/20 outline-none"
+                                    />
+                                </div>
+                            </div>
+
                             <button
                                 type="submit"
                                 disabled={isCreating}
@@ -250,27 +445,26 @@ export default function AdminPage() {
                                 <div className="space-y-2 flex-1">
                                     <div className="flex items-start justify-between">
                                         <h3 className="font-medium">{market.question}</h3>
-                                        <span className={`px-2 py-0.5 rounded text-xs font-medium border ${market.status === 'resolved'
-                                            ? "bg-green-500/10 text-green-600 border-green-500/20"
-                                            : market.status === 'resolving'
-                                                ? "bg-amber-500/10 text-amber-600 border-amber-500/20"
-                                                : "bg-blue-500/10 text-blue-600 border-blue-500/20"
-                                            }`}>
-                                            {market.status.toUpperCase()}
+                                        <span className={`px-2 py-0.5 rounded text-xs font-medium border whitespace-nowrap ${statusBadges[market.status].className}`}>
+                                            {statusBadges[market.status].label}
                                         </span>
                                     </div>
                                     <div className="flex items-center gap-4 text-sm text-muted-foreground">
-                                        <CountdownTimer targetDate={market.resolveDate} size="sm" />
+                                        <CountdownTimer targetDate={market.deadline} size="sm" status={market.status} />
                                         <span>ID: {market.id.slice(0, 8)}...</span>
                                     </div>
                                 </div>
 
                                 <div className="flex items-center gap-3">
-                                    {market.status === 'active' && (
+                                    {(market.status === 'active' || market.status === 'expired') && (
                                         <button
                                             onClick={() => handleLock(market.id)}
                                             disabled={!!isLocking}
-                                            className="px-4 py-2 bg-secondary text-secondary-foreground text-sm font-medium rounded-lg hover:bg-secondary/80 flex items-center gap-2 disabled:opacity-50"
+                                            className={`px-4 py-2 text-sm font-medium rounded-lg flex items-center gap-2 disabled:opacity-50 ${market.status === 'expired'
+                                                ? "bg-orange-500 text-white hover:bg-orange-500/90"
+                                                : "bg-secondary text-secondary-foreground hover:bg-secondary/80"
+                                                }`}
+                                            title={market.status === 'expired' ? "Deadline passed; lock to stop new predictions" : undefined}
                                         >
                                             {isLocking === market.id ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Lock className="w-4 h-4" />}
                                             Lock
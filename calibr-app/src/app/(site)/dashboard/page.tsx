@@ -3,17 +3,22 @@
 import { CalibrationGauge } from "@/components/ui/CalibrationGauge";
 
 import { StatCard } from "@/components/dashboard/StatCard";
-import { NoActivePredictions, NoPredictions } from "@/components/ui/empty-state";
+import { NoActivePredictions, NoPredictions, NoWatchedMarkets } from "@/components/ui/empty-state";
+import { CountdownTimer } from "@/components/ui/CountdownTimer";
+import { WatchButton } from "@/components/markets/WatchButton";
 import { StatCardSkeleton, PredictionRowSkeleton } from "@/components/ui/skeleton-cards";
-import { Target, Percent, Trophy, TrendingUp, LayoutDashboard, Clock, CheckCircle, Coins, Loader2, Sparkles } from "lucide-react";
+import { Target, Percent, Trophy, TrendingUp, LayoutDashboard, Clock, CheckCircle, Coins, Loader2, Sparkles, Star } from "lucide-react";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { useWallet } from "@/hooks/useWallet";
 import { usePointsBalance } from "@/hooks/usePointsBalance";
 import { useUserPredictions } from "@/hooks/useUserPredictions";
 import { useMarkets } from "@/hooks/useMarkets";
+import { useWatchlist } from "@/hooks/useWatchlist";
 import { useMemo, useState } from "react";
 import { buildSettlePredictionTx, buildClaimAllTx } from "@/lib/calibr-transactions";
+import { ZERO_POINTS, formatPoints, sign, sub, sum } from "@/lib/amounts";
+import { probabilityChange } from "@/lib/watchlist";
 import { toast } from "sonner";
 
 export default function DashboardPage() {
@@ -21,6 +26,7 @@ export default function DashboardPage() {
   const { data: pointsBalance, isLoading: isLoadingPoints } = usePointsBalance();
   const { data: predictions, isLoading: isLoadingPredictions, refetch: refetchPredictions } = useUserPredictions();
   const { data: markets } = useMarkets();
+  const { watchlist } = useWatchlist();
   const [isClaiming, setIsClaiming] = useState(false);
 
   // Calculate stats from real data
@@ -30,11 +36,12 @@ export default function DashboardPage() {
       activePredictions: 0,
       winRate: 0,
       avgConfidence: 0,
-      netProfit: 0
+      netProfit: ZERO_POINTS
     };
 
     const active = predictions.filter(p => p.status === "active");
-    const resolved = predictions.filter(p => p.status !== "active");
+    // Settled predictions whose outcome couldn't be loaded don't count toward the win rate
+    const resolved = predictions.filter(p => p.status === "won" || p.status === "lost");
     const won = resolved.filter(p => p.status === "won");
 
     const winRate = resolved.length > 0
@@ -45,11 +52,10 @@ export default function DashboardPage() {
       ? Math.round(predictions.reduce((sum, p) => sum + p.confidence, 0) / predictions.length)
       : 0;
 
-    const netProfit = resolved.reduce((sum, p) => {
-      if (p.profit) return sum + p.profit;
-      if (p.loss) return sum - p.loss;
-      return sum;
-    }, 0);
+    const netProfit = sub(
+      sum(resolved.map(p => p.profit ?? ZERO_POINTS), ZERO_POINTS),
+      sum(resolved.map(p => p.loss ?? ZERO_POINTS), ZERO_POINTS)
+    );
 
     return {
       totalPredictions: predictions.length,
@@ -72,6 +78,15 @@ export default function DashboardPage() {
     });
   }, [predictions, markets]);
 
+  // Watched markets that are still loaded, in the order they were added
+  const watchedMarkets = useMemo(() => {
+    if (!markets) return [];
+    return watchlist.entries.flatMap(entry => {
+      const market = markets.find(m => m.id === entry.marketId);
+      return market ? [{ entry, market, change: probabilityChange(entry, market) }] : [];
+    });
+  }, [watchlist, markets]);
+
   const activePredictions = predictions?.filter(p => p.status === "active") || [];
   const resolvedPredictions = predictions?.filter(p => p.status !== "active") || [];
 
@@ -223,8 +238,9 @@ export default function DashboardPage() {
           <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5 mb-12">
             <StatCard
               label="Points Balance"
-              value={pointsBalance?.balance.toLocaleString() || "0"}
+              value={pointsBalance ? formatPoints(pointsBalance.balance) : "0"}
               icon={Coins}
+              sublabel={sign(stats.netProfit) !== 0 ? `${formatPoints(stats.netProfit, { signed: true })} net from settlements` : undefined}
             />
             <StatCard
               label="Total Predictions"
@@ -272,6 +288,67 @@ export default function DashboardPage() {
           </div>
 
           <div className="space-y-10">
+            {/* Watchlist */}
+            <section>
+              <div className="flex items-center justify-between mb-5">
+                <div className="flex items-center gap-2.5">
+                  <div className="p-1.5 rounded-lg bg-amber-500/10">
+                    <Star className="h-4 w-4 text-amber-500" />
+                  </div>
+                  <h2 className="text-xl font-semibold">Watchlist</h2>
+                </div>
+                <Link
+                  href="/explore?tab=watching"
+                  className="px-3 py-1 text-xs font-semibold rounded-full bg-amber-500/10 text-amber-600 dark:text-amber-400 hover:bg-amber-500/20 transition-colors"
+                >
+                  {watchlist.entries.length} watching
+                </Link>
+              </div>
+              {watchedMarkets.length > 0 ? (
+                <div className="space-y-3">
+                  {watchedMarkets.map(({ entry, market, change }, index) => (
+                    <Link
+                      key={market.id}
+                      href={`/market/${market.id}`}
+                      className="block animate-fade-in group"
+                      style={{ animationDelay: `${index * 50}ms` }}
+                    >
+                      <div className="bg-card border border-border rounded-xl p-5 transition-all hover:shadow-md hover:border-primary/30">
+                        <div className="flex items-center justify-between gap-4">
+                          <div className="flex-1 min-w-0">
+                            <p className="font-semibold text-base mb-3 group-hover:text-primary transition-colors line-clamp-2">
+                              {market.question}
+                            </p>
+                            <div className="flex flex-wrap items-center gap-3 text-xs">
+                              <span className="font-medium text-foreground font-mono-numbers">
+                                YES {market.yesPercentage}%
+                              </span>
+                              <span
+                                className={`font-semibold font-mono-numbers ${change > 0 ? "text-green-600 dark:text-green-400" : change < 0 ? "text-red-600 dark:text-red-400" : "text-muted-foreground"}`}
+                                title={`${entry.probabilityAtAdd}% when added on ${new Date(entry.addedAtMs).toLocaleDateString()}`}
+                              >
+                                {change > 0 ? "▲" : change < 0 ? "▼" : "±"}{Math.abs(change)} pts since added
+                              </span>
+                              {market.status === "active" ? (
+                                <CountdownTimer targetDate={market.deadline} size="sm" />
+                              ) : (
+                                <span className="text-muted-foreground capitalize">{market.status}</span>
+                              )}
+                            </div>
+                          </div>
+                          <WatchButton marketId={market.id} yesPercentage={market.yesPercentage} className="shrink-0" />
+                        </div>
+                      </div>
+                    </Link>
+                  ))}
+                </div>
+              ) : (
+                <div className="bg-card border border-border rounded-xl">
+                  <NoWatchedMarkets />
+                </div>
+              )}
+            </section>
+
             {/* Active Predictions */}
             <section>
               <div className="flex items-center justify-between mb-5">
@@ -396,7 +473,7 @@ export default function DashboardPage() {
                       className="block animate-fade-in group"
                       style={{ animationDelay: `${index * 50}ms` }}
                     >
-                      <div className={`bg-card border rounded-xl p-5 transition-all hover:shadow-md ${prediction.status === "won" ? "border-green-500/30 hover:border-green-500/50" : "border-red-500/20 hover:border-red-500/40"}`}>
+                      <div className={`bg-card border rounded-xl p-5 transition-all hover:shadow-md ${prediction.status === "won" ? "border-green-500/30 hover:border-green-500/50" : prediction.status === "lost" ? "border-red-500/20 hover:border-red-500/40" : "hover:border-primary/30"}`}>
                         <div className="flex items-start justify-between gap-4">
                           {/* Left: Market Info */}
                           <div className="flex-1 min-w-0">
@@ -421,22 +498,33 @@ export default function DashboardPage() {
                           {/* Right: Results Panel */}
                           <div className="shrink-0 flex flex-col items-end gap-2">
                             {/* Outcome Badge */}
-                            <span className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-semibold ${prediction.status === "won"
-                              ? "bg-green-500/15 text-green-600 dark:text-green-400 border border-green-500/30"
-                              : "bg-red-500/15 text-red-600 dark:text-red-400 border border-red-500/30"
-                              }`}>
-                              {prediction.status === "won" ? "✓ Won" : "✗ Lost"}
-                            </span>
+                            {prediction.status === "settled" ? (
+                              <span
+                                className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-semibold bg-muted text-muted-foreground border"
+                                title="Settled on chain, but its settlement details couldn't be loaded"
+                              >
+                                Settled
+                              </span>
+                            ) : (
+                              <span className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-semibold ${prediction.status === "won"
+                                ? "bg-green-500/15 text-green-600 dark:text-green-400 border border-green-500/30"
+                                : "bg-red-500/15 text-red-600 dark:text-red-400 border border-red-500/30"
+                                }`}>
+                                {prediction.status === "won" ? "✓ Won" : "✗ Lost"}
+                              </span>
+                            )}
 
                             {/* Points & Rep Changes */}
                             <div className="flex items-center gap-3 text-sm">
                               {/* Points */}
                               <div className="flex items-center gap-1">
                                 <Coins className="w-3.5 h-3.5 text-muted-foreground" />
-                                {prediction.profit !== undefined && prediction.profit > 0 ? (
-                                  <span className="font-bold text-green-600 dark:text-green-400">+{prediction.profit}</span>
-                                ) : prediction.loss !== undefined && prediction.loss > 0 ? (
-                                  <span className="font-bold text-red-600 dark:text-red-400">-{prediction.loss}</span>
+                                {prediction.profit !== undefined && sign(prediction.profit) > 0 ? (
+                                  <span className="font-bold text-green-600 dark:text-green-400">{formatPoints(prediction.profit, { signed: true })}</span>
+                                ) : prediction.loss !== undefined && sign(prediction.loss) > 0 ? (
+                                  <span className="font-bold text-red-600 dark:text-red-400">-{formatPoints(prediction.loss)}</span>
+                                ) : prediction.status === "settled" ? (
+                                  <span className="font-medium text-muted-foreground">—</span>
                                 ) : (
                                   <span className="font-medium text-muted-foreground">+0</span>
                                 )}
@@ -451,6 +539,16 @@ export default function DashboardPage() {
                                   </span>
                                 </div>
                               )}
+
+                              {/* Tier change */}
+                              {prediction.tierChange && (
+                                <span
+                                  className={`text-xs font-medium px-1.5 py-0.5 rounded ${prediction.tierChange.newCap > prediction.tierChange.oldCap ? "bg-green-500/10 text-green-600 dark:text-green-400" : "bg-red-500/10 text-red-600 dark:text-red-400"}`}
+                                  title={`Confidence cap ${prediction.tierChange.oldCap}% → ${prediction.tierChange.newCap}%`}
+                                >
+                                  {prediction.tierChange.oldTier} → {prediction.tierChange.newTier}
+                                </span>
+                              )}
                             </div>
                           </div>
                         </div>
@@ -0,0 +1,386 @@
+"use client";
+
+import { Suspense, useCallback, useEffect, useMemo, useState } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { ArrowDownWideNarrow, ArrowUpNarrowWide, Rss, Search, SlidersHorizontal, Star, X } from "lucide-react";
+import { MarketCard } from "@/components/markets/MarketCard";
+import { MarketCardSkeleton } from "@/components/ui/skeleton-cards";
+import { NoMarketsFound, NoWatchedMarkets } from "@/components/ui/empty-state";
+import { Input } from "@/components/ui/input";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMarkets } from "@/hooks/useMarkets";
+import { useConsensusForecasts } from "@/hooks/useConsensus";
+import { useMarketRegistry } from "@/hooks/useMarketRegistry";
+import { useUserPredictions } from "@/hooks/useUserPredictions";
+import { useWallet } from "@/hooks/useWallet";
+import { useWatchlist } from "@/hooks/useWatchlist";
+import type { MarketStatus } from "@/lib/calibr-types";
+import { listCategories } from "@/lib/market-metadata";
+import { probabilityChange } from "@/lib/watchlist";
+import {
+  DEFAULT_EXPLORE_QUERY,
+  MARKET_SORTS,
+  MARKET_STATUSES,
+  applyExploreQuery,
+  countActiveFilters,
+  parseExploreQuery,
+  serializeExploreQuery,
+  type ExploreQuery,
+  type ExploreTab,
+  type MarketSortKey,
+} from "@/lib/market-filters";
+import { cn } from "@/lib/utils";
+
+const statusLabels: Record<MarketStatus, string> = {
+  active: "Active",
+  expired: "Awaiting Lock",
+  resolving: "Awaiting Resolution",
+  resolved: "Resolved",
+};
+
+// Typing into search rewrites the URL once the user pauses
+const SEARCH_DEBOUNCE_MS = 300;
+
+function chipClass(selected: boolean) {
+  return cn(
+    "px-4 py-2 text-sm font-medium rounded-lg transition-colors",
+    selected
+      ? "bg-primary text-primary-foreground"
+      : "bg-secondary text-secondary-foreground hover:bg-secondary/80"
+  );
+}
+
+function tabClass(selected: boolean) {
+  return cn(
+    "px-4 py-2 rounded-md text-sm font-medium transition-colors flex items-center gap-2",
+    selected ? "bg-background shadow-sm text-foreground" : "text-muted-foreground hover:text-foreground"
+  );
+}
+
+function MarketGridSkeleton() {
+  return (
+    <div className="grid gap-5 md:grid-cols-2">
+      {[1, 2, 3, 4, 5, 6].map((i) => (
+        <MarketCardSkeleton key={i} />
+      ))}
+    </div>
+  );
+}
+
+export default function ExplorePage() {
+  return (
+    <div className="container py-8 md:py-12">
+      <div className="max-w-3xl mb-10">
+        <h1 className="mb-3">Explore Markets</h1>
+        <p className="text-lg text-muted-foreground">
+          Make predictions on real-world events. Your reputation reflects how well
+          your confidence matches reality.
+        </p>
+      </div>
+
+      {/* useSearchParams needs a Suspense boundary to prerender */}
+      <Suspense fallback={<MarketGridSkeleton />}>
+        <ExploreMarkets />
+      </Suspense>
+    </div>
+  );
+}
+
+function ExploreMarkets() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const { isConnected } = useWallet();
+  const { data: allMarkets, isLoading } = useMarkets();
+  const { data: registry } = useMarketRegistry();
+  const { data: predictions } = useUserPredictions();
+  const { watchlist } = useWatchlist();
+  const { data: consensus } = useConsensusForecasts();
+
+  const query = useMemo(
+    () => parseExploreQuery(new URLSearchParams(searchParams.toString())),
+    [searchParams]
+  );
+
+  // Registry categories plus any in use, so a shared link's category always shows
+  const categories = useMemo(() => {
+    const names = registry ? listCategories(registry, allMarkets) : [];
+    if (query.category && !names.includes(query.category)) names.push(query.category);
+    return ["All", ...names];
+  }, [registry, allMarkets, query.category]);
+
+  const updateQuery = useCallback((patch: Partial<ExploreQuery>) => {
+    const qs = serializeExploreQuery({ ...query, ...patch });
+    router.replace(qs ? `${pathname}?${qs}` : pathname, { scroll: false });
+  }, [query, pathname, router]);
+
+  // Search and the probability slider are edited locally and committed to the URL
+  const [searchInput, setSearchInput] = useState(query.search);
+  const [probability, setProbability] = useState<[number, number]>(query.probability);
+  const [showFilters, setShowFilters] = useState(() => countActiveFilters(query) > 0);
+
+  // Follow back/forward navigation and shared links
+  useEffect(() => setSearchInput(query.search), [query.search]);
+  useEffect(() => setProbability(query.probability), [query.probability]);
+
+  useEffect(() => {
+    if (searchInput.trim() === query.search) return;
+    const timer = setTimeout(() => updateQuery({ search: searchInput }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput, query.search, updateQuery]);
+
+  const predictedMarketIds = useMemo(
+    () => new Set((predictions || []).map(p => p.marketId)),
+    [predictions]
+  );
+
+  const watchEntries = useMemo(
+    () => new Map(watchlist.entries.map(e => [e.marketId, e])),
+    [watchlist]
+  );
+
+  const filteredMarkets = useMemo(
+    () => applyExploreQuery(allMarkets || [], query, isConnected
+      ? { predictedMarketIds, watchedMarketIds: new Set(watchEntries.keys()) }
+      : {}),
+    [allMarkets, query, isConnected, predictedMarketIds, watchEntries]
+  );
+
+  const activeFilters = countActiveFilters(query);
+  const hasQuery = activeFilters > 0 || query.search !== "";
+
+  const toggleStatus = (status: MarketStatus) => {
+    const statuses = query.statuses.includes(status)
+      ? query.statuses.filter(s => s !== status)
+      : [...query.statuses, status];
+    updateQuery({ statuses });
+  };
+
+  const clearAll = () => {
+    setSearchInput("");
+    updateQuery({ ...DEFAULT_EXPLORE_QUERY, sort: query.sort, direction: query.direction, tab: query.tab });
+  };
+
+  const tabs: { key: ExploreTab; label: string }[] = [
+    { key: "all", label: "All markets" },
+    { key: "watching", label: "Watching" },
+  ];
+
+  return (
+    <>
+      {/* Tabs */}
+      <div className="inline-flex gap-1 bg-muted p-1 rounded-lg mb-4">
+        {tabs.map(tab => (
+          <button key={tab.key} onClick={() => updateQuery({ tab: tab.key })} className={tabClass(query.tab === tab.key)}>
+            {tab.key === "watching" && <Star className="h-3.5 w-3.5" />}
+            {tab.label}
+            {tab.key === "watching" && watchlist.entries.length > 0 && (
+              <span className="text-xs text-muted-foreground font-mono-numbers">{watchlist.entries.length}</span>
+            )}
+          </button>
+        ))}
+      </div>
+
+      {/* Search & Sort */}
+      <div className="flex flex-col sm:flex-row gap-3 mb-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Search questions and tags..."
+            className="pl-9"
+            aria-label="Search markets"
+          />
+        </div>
+        <div className="flex gap-2">
+          <Select
+            value={query.sort}
+            onValueChange={(value) => {
+              const sort = value as MarketSortKey;
+              const direction = MARKET_SORTS.find(s => s.key === sort)!.defaultDirection;
+              updateQuery({ sort, direction });
+            }}
+          >
+            <SelectTrigger className="w-[180px]" aria-label="Sort markets">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MARKET_SORTS.map(s => (
+                <SelectItem key={s.key} value={s.key}>{s.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <button
+            onClick={() => updateQuery({ direction: query.direction === "asc" ? "desc" : "asc" })}
+            className="h-10 w-10 flex items-center justify-center rounded-md border border-input bg-background hover:bg-secondary transition-colors"
+            title={query.direction === "asc" ? "Ascending" : "Descending"}
+            aria-label="Toggle sort direction"
+          >
+            {query.direction === "asc"
+              ? <ArrowUpNarrowWide className="h-4 w-4" />
+              : <ArrowDownWideNarrow className="h-4 w-4" />}
+          </button>
+          <button
+            onClick={() => setShowFilters(!showFilters)}
+            className={cn(
+              "h-10 px-3 flex items-center gap-2 rounded-md border text-sm font-medium transition-colors",
+              showFilters ? "border-primary text-primary" : "border-input bg-background hover:bg-secondary"
+            )}
+          >
+            <SlidersHorizontal className="h-4 w-4" />
+            Filters
+            {activeFilters > 0 && (
+              <span className="px-1.5 rounded-full bg-primary text-primary-foreground text-xs">{activeFilters}</span>
+            )}
+          </button>
+        </div>
+      </div>
+
+      {/* Categories */}
+      <div className="flex flex-wrap gap-2 mb-6">
+        {categories.map((category) => (
+          <button
+            key={category}
+            onClick={() => updateQuery({ category: category === "All" ? null : category })}
+            className={chipClass((query.category ?? "All") === category)}
+          >
+            {category}
+          </button>
+        ))}
+        <a
+          href={`/feeds/markets.xml${query.category ? `?category=${encodeURIComponent(query.category)}` : ""}`}
+          className="ml-auto inline-flex items-center gap-1.5 px-2 text-xs text-muted-foreground hover:text-primary transition-colors"
+          title={query.category ? `RSS feed for ${query.category} markets` : "RSS feed of new and resolved markets"}
+        >
+          <Rss className="h-3.5 w-3.5" />
+          RSS
+        </a>
+      </div>
+
+      {/* Facets */}
+      {showFilters && (
+        <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4 p-5 mb-8 rounded-xl border border-border bg-card animate-in fade-in slide-in-from-top-1">
+          <div>
+            <div className="text-sm font-medium mb-3">Status</div>
+            <div className="flex flex-wrap gap-2">
+              {MARKET_STATUSES.map(status => (
+                <button
+                  key={status}
+                  onClick={() => toggleStatus(status)}
+                  className={cn(chipClass(query.statuses.includes(status)), "px-3 py-1.5")}
+                >
+                  {statusLabels[status]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="text-sm font-medium mb-3">Deadline</div>
+            <div className="flex items-center gap-2">
+              <Input
+                type="date"
+                value={query.deadlineFrom ?? ""}
+                max={query.deadlineTo ?? undefined}
+                onChange={(e) => updateQuery({ deadlineFrom: e.target.value || null })}
+                aria-label="Deadline from"
+              />
+              <span className="text-muted-foreground">–</span>
+              <Input
+                type="date"
+                value={query.deadlineTo ?? ""}
+                min={query.deadlineFrom ?? undefined}
+                onChange={(e) => updateQuery({ deadlineTo: e.target.value || null })}
+                aria-label="Deadline to"
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="flex justify-between text-sm font-medium mb-3">
+              <span>YES probability</span>
+              <span className="font-mono-numbers text-muted-foreground">{probability[0]}% – {probability[1]}%</span>
+            </div>
+            <Slider
+              value={probability}
+              min={0}
+              max={100}
+              step={5}
+              minStepsBetweenThumbs={0}
+              onValueChange={(value) => setProbability([value[0], value[1]])}
+              onValueCommit={(value) => updateQuery({ probability: [value[0], value[1]] })}
+              className="py-2"
+            />
+          </div>
+
+          <div>
+            <div className="text-sm font-medium mb-3">My predictions</div>
+            <label className={cn("flex items-center gap-3 text-sm", !isConnected && "opacity-50")}>
+              <Switch
+                checked={query.unpredictedOnly}
+                onCheckedChange={(checked) => updateQuery({ unpredictedOnly: checked })}
+                disabled={!isConnected}
+              />
+              {isConnected ? "Only markets I haven't predicted on" : "Connect a wallet to filter"}
+            </label>
+          </div>
+        </div>
+      )}
+
+      {/* Results */}
+      {!isLoading && hasQuery && (
+        <div className="flex items-center justify-between mb-4 text-sm text-muted-foreground">
+          <span>{filteredMarkets.length} of {allMarkets?.length ?? 0} markets</span>
+          <button onClick={clearAll} className="flex items-center gap-1 hover:text-foreground transition-colors">
+            <X className="h-3.5 w-3.5" />
+            Clear filters
+          </button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <MarketGridSkeleton />
+      ) : (
+        <div className="grid gap-5 md:grid-cols-2">
+          {filteredMarkets.map((market, index) => (
+            <div
+              key={market.id}
+              className="animate-fade-in"
+              style={{ animationDelay: `${index * 50}ms` }}
+            >
+              <MarketCard
+                id={market.id}
+                question={market.question}
+                category={market.category}
+                yesPercentage={market.yesPercentage}
+                volume={market.volume}
+                isTrending={market.isTrending}
+                deadline={market.deadline}
+                status={market.status}
+                probabilityChange={query.tab === "watching" && watchEntries.has(market.id)
+                  ? probabilityChange(watchEntries.get(market.id)!, market)
+                  : undefined}
+                consensus={consensus?.get(market.id)?.yesProbability}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!isLoading && filteredMarkets.length === 0 && (
+        query.tab === "watching" && watchlist.entries.length === 0 ? (
+          <NoWatchedMarkets />
+        ) : hasQuery ? (
+          <NoMarketsFound onClear={clearAll} />
+        ) : (
+          <div className="text-center py-16">
+            <p className="text-muted-foreground">No markets yet.</p>
+          </div>
+        )
+      )}
+    </>
+  );
+}
@@ -5,6 +5,7 @@ import { useRouter } from "next/navigation";
 import { useWallet } from "@/hooks/useWallet";
 import { useLeaderboard, TimeFrame } from "@/hooks/useLeaderboard";
 import { cn } from "@/lib/utils";
+import { formatPoints, sign } from "@/lib/amounts";
 import { Trophy, Medal, Award, TrendingUp, Crown, Flame, Target, Sparkles, ChevronRight } from "lucide-react";
 import { AnimatedCounter } from "@/components/ui/animated-counter";
 
@@ -228,9 +229,9 @@ export default function LeaderboardPage() {
                   <div className="col-span-2 text-right hidden md:block">
                     <span className={cn(
                       "font-mono-numbers font-medium",
-                      user.pnl > 0 ? "text-green-500" : user.pnl < 0 ? "text-red-500" : "text-muted-foreground"
+                      sign(user.pnl) > 0 ? "text-green-500" : sign(user.pnl) < 0 ? "text-red-500" : "text-muted-foreground"
                     )}>
-                      {user.pnl > 0 ? "+" : ""}{user.pnl.toFixed(1)} <span className="text-xs text-muted-foreground">SUI</span>
+                      {formatPoints(user.pnl, { signed: true, compact: true })} <span className="text-xs text-muted-foreground">pts</span>
                     </span>
                   </div>
 
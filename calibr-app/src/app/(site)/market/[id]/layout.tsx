@@ -0,0 +1,38 @@
+import type { Metadata } from "next";
+import { loadMarket } from "@/lib/market-data";
+import { formatUtcDate } from "@/lib/utils";
+
+// The page is a client component, so its share metadata is generated here
+export async function generateMetadata({ params }: { params: { id: string } }): Promise<Metadata> {
+  const market = await loadMarket(params.id).catch(() => null);
+  if (!market) return { title: "Market | Calibr" };
+
+  const predictions = market.yesCount + market.noCount;
+  const description = [
+    `${market.yesPercentage}% YES`,
+    `${predictions} prediction${predictions === 1 ? "" : "s"}`,
+    market.resolved
+      ? `Resolved ${market.outcome ? "YES" : "NO"}`
+      : market.deadline > 0 ? `Deadline ${formatUtcDate(market.deadline)}` : null,
+  ].filter(Boolean).join(" · ");
+
+  return {
+    title: `${market.question} | Calibr`,
+    description,
+    openGraph: {
+      title: market.question,
+      description,
+      url: `/market/${market.id}`,
+      type: "website",
+    },
+    twitter: {
+      card: "summary_large_image",
+      title: market.question,
+      description,
+    },
+  };
+}
+
+export default function MarketLayout({ children }: { children: React.ReactNode }) {
+  return children;
+}
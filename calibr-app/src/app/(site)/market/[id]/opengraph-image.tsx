@@ -0,0 +1,43 @@
+import { ImageResponse } from "next/og";
+import { OG_SIZE, OgFallback, OgFrame, OgStat, ogColors, truncate } from "@/components/og/OgCard";
+import { loadMarket } from "@/lib/market-data";
+import { formatUtcDate } from "@/lib/utils";
+
+export const size = OG_SIZE;
+export const contentType = "image/png";
+export const alt = "Calibr market";
+
+export default async function MarketImage({ params }: { params: { id: string } }) {
+  const market = await loadMarket(params.id).catch(() => null);
+
+  if (!market) {
+    return new ImageResponse(<OgFallback label="Market" message="Market not found" />, size);
+  }
+
+  const predictions = market.yesCount + market.noCount;
+
+  return new ImageResponse(
+    (
+      <OgFrame label={market.category}>
+        <div style={{ display: "flex", fontSize: 56, fontWeight: 600, lineHeight: 1.2, marginBottom: 48 }}>
+          {truncate(market.question, 110)}
+        </div>
+        <div style={{ display: "flex", marginTop: "auto", marginBottom: 32 }}>
+          <OgStat label="Yes" value={`${market.yesPercentage}%`} color={ogColors.yes} />
+          <OgStat label="No" value={`${100 - market.yesPercentage}%`} color={ogColors.no} />
+          <OgStat label="Predictions" value={predictions.toString()} />
+          <OgStat
+            label={market.resolved ? "Resolved" : "Deadline"}
+            value={market.resolved
+              ? (market.outcome ? "YES" : "NO")
+              : market.deadline > 0 ? formatUtcDate(market.deadline) : "Open"}
+          />
+        </div>
+        <div style={{ display: "flex", height: 20, borderRadius: 10, overflow: "hidden", background: ogColors.no, marginBottom: 32 }}>
+          <div style={{ width: `${market.yesPercentage}%`, background: ogColors.yes }} />
+        </div>
+      </OgFrame>
+    ),
+    size
+  );
+}
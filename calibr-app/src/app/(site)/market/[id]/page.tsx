@@ -3,111 +3,37 @@
 
 import Link from "next/link";
 import { useParams } from "next/navigation";
-import { useEffect, useState, useCallback } from "react";
 import { CountdownTimer } from "@/components/ui/CountdownTimer";
 import { InfoTooltip } from "@/components/ui/InfoTooltip";
 import { MarketInsightPanel } from "@/components/markets/MarketInsightPanel";
 import { PredictionPanel } from "@/components/markets/PredictionPanel";
+import { MarketDocumentPanel } from "@/components/markets/MarketDocumentPanel";
+import { MarketParticipantsPanel } from "@/components/markets/MarketParticipantsPanel";
+import { WatchButton } from "@/components/markets/WatchButton";
+import { EmbedCodeButton } from "@/components/markets/EmbedCodeButton";
 import { ArrowLeft, Clock, Users, FileText, Loader2, AlertCircle, TrendingUp, ExternalLink } from "lucide-react";
-import { getPackageId, DEFAULT_NETWORK } from "@/lib/sui-config";
-import { ParsedMarket, parseMarket, decodeQuestion } from "@/lib/calibr-types";
+import { useMarket } from "@/hooks/useMarket";
+import { useMarketHistory } from "@/hooks/useMarketHistory";
+import { useMarketConsensus } from "@/hooks/useConsensus";
+import { useMarketStatus } from "@/hooks/useMarketStatus";
+import { ProbabilityHistoryChart } from "@/components/markets/ProbabilityHistoryChart";
 import { AIPulse } from "@/components/markets/AIPulse";
-// ... imports
-
-
-// Fetch market data from chain
-async function fetchMarketFromChain(marketId: string): Promise<ParsedMarket | null> {
-  try {
-    const response = await fetch(`https://fullnode.testnet.sui.io:443`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        jsonrpc: "2.0",
-        id: 1,
-        method: "sui_getObject",
-        params: [
-          marketId,
-          { showContent: true, showType: true }
-        ],
-      }),
-    });
-
-    const data = await response.json();
-
-    if (data.error || !data.result?.data?.content) {
-      console.error("Failed to fetch market:", data.error);
-      return null;
-    }
-
-    const content = data.result.data.content;
-    if (content.dataType !== "moveObject") {
-      return null;
-    }
-
-    const packageId = getPackageId(DEFAULT_NETWORK);
-    const expectedType = `${packageId}::calibr::Market`;
-
-    // Check if it's a Market object
-    if (!content.type?.includes("::calibr::Market")) {
-      console.error("Object is not a Market:", content.type);
-      return null;
-    }
-
-    const fields = content.fields;
-    return parseMarket(marketId, {
-      id: marketId,
-      question: fields.question || [],
-      deadline: Number(fields.deadline || 0),
-      yes_risk_total: Number(fields.yes_risk_total || 0),
-      no_risk_total: Number(fields.no_risk_total || 0),
-      yes_count: Number(fields.yes_count || 0),
-      no_count: Number(fields.no_count || 0),
-      locked: fields.locked || false,
-      resolved: fields.resolved || false,
-      outcome: fields.outcome,
-      authority: fields.authority || "",
-    });
-  } catch (error) {
-    console.error("Error fetching market:", error);
-    return null;
-  }
-}
 
 export default function MarketDetailPage() {
   const params = useParams();
   const id = params.id as string;
 
-  const [market, setMarket] = useState<ParsedMarket | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  const loadMarket = useCallback(async () => {
-    if (!id) return;
-
-    // Check if it looks like an object ID (starts with 0x)
-    if (!id.startsWith("0x")) {
-      setError("Invalid market ID. Please use a valid Sui object ID.");
-      setIsLoading(false);
-      return;
-    }
-
-    setIsLoading(true);
-    setError(null);
-
-    const marketData = await fetchMarketFromChain(id);
-
-    if (marketData) {
-      setMarket(marketData);
-    } else {
-      setError("Market not found or failed to load.");
-    }
-
-    setIsLoading(false);
-  }, [id]);
-
-  useEffect(() => {
-    loadMarket();
-  }, [loadMarket]);
+  // Check if it looks like an object ID (starts with 0x)
+  const isValidId = !!id && id.startsWith("0x");
+  const { data: market, isLoading, refetch: refetchMarket } = useMarket(isValidId ? id : undefined);
+  const { data: history, isLoading: isLoadingHistory } = useMarketHistory(market);
+  const { data: consensus } = useMarketConsensus(market);
+  const liveStatus = useMarketStatus(market);
+  const error = !isValidId
+    ? "Invalid market ID. Please use a valid Sui object ID."
+    : !isLoading && !market
+      ? "Market not found or failed to load."
+      : null;
 
   // Loading state
   if (isLoading) {
@@ -133,14 +59,8 @@ export default function MarketDetailPage() {
     );
   }
 
-  // Determine market status
-  const getStatus = (): "active" | "resolving" | "resolved" => {
-    if (market.resolved) return "resolved";
-    if (market.locked) return "resolving";
-    return "active";
-  };
-
-  const status = getStatus();
+  const status = liveStatus ?? market.status;
+  const msRemaining = Math.max(0, market.deadline - Date.now());
 
   const getStatusBadge = () => {
     return <AIPulse status={status} />;
@@ -162,17 +82,37 @@ export default function MarketDetailPage() {
           {/* Header */}
           <div className="space-y-4">
             <div className="flex items-center gap-3 flex-wrap">
-              <span className="px-3 py-1 text-sm font-medium rounded-lg bg-secondary text-secondary-foreground">
-                Prediction Market
-              </span>
+              <Link
+                href={`/explore?category=${encodeURIComponent(market.category)}`}
+                className="px-3 py-1 text-sm font-medium rounded-lg bg-secondary text-secondary-foreground hover:bg-secondary/80 transition-colors"
+              >
+                {market.category}
+              </Link>
               {getStatusBadge()}
+              {market.tags.map(tag => (
+                <Link
+                  key={tag}
+                  href={`/explore?q=${encodeURIComponent(tag)}`}
+                  className="text-sm text-muted-foreground hover:text-primary transition-colors"
+                >
+                  #{tag}
+                </Link>
+              ))}
+              <div className="ml-auto flex items-center gap-2">
+                <EmbedCodeButton marketId={market.id} />
+                <WatchButton
+                  marketId={market.id}
+                  yesPercentage={market.yesPercentage}
+                  showLabel
+                />
+              </div>
             </div>
             <h1 className="text-2xl md:text-3xl lg:text-4xl font-semibold leading-tight text-balance">
               {market.question}
             </h1>
             <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
               <div className="flex items-center gap-1.5">
-                <CountdownTimer targetDate={market.deadline || 0} size="md" />
+                <CountdownTimer targetDate={market.deadline} size="md" status={status} />
               </div>
               <div className="w-1 h-1 rounded-full bg-border" />
               <div className="flex items-center gap-1.5">
@@ -298,6 +238,15 @@ export default function MarketDetailPage() {
 
           </div>
 
+          {/* Probability History */}
+          <ProbabilityHistoryChart history={history} isLoading={isLoadingHistory} />
+
+          {/* Participants */}
+          <MarketParticipantsPanel market={market} />
+
+          {/* Resolution Details */}
+          <MarketDocumentPanel documentHash={market.documentHash} />
+
           {/* Market Info */}
           <div className="bg-card border border-border rounded-xl p-6">
             <div className="flex items-center gap-2 mb-4">
@@ -333,7 +282,16 @@ export default function MarketDetailPage() {
 
         {/* Prediction Panel */}
         <div className="lg:col-span-1">
-          <div className="sticky top-24">
+          <div className="sticky top-24 space-y-6">
+            <MarketInsightPanel
+              yesPercentage={market.yesPercentage}
+              startDate={market.createdAtMs ? new Date(market.createdAtMs).toISOString() : ""}
+              resolveDate={new Date(market.deadline).toISOString()}
+              daysRemaining={Math.floor(msRemaining / 86_400_000)}
+              hoursRemaining={Math.floor((msRemaining % 86_400_000) / 3_600_000)}
+              status={status}
+              consensus={consensus}
+            />
             {market.locked ? (
               <div className="bg-card border border-border rounded-xl p-6 text-center">
                 <Clock className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
@@ -347,7 +305,9 @@ export default function MarketDetailPage() {
               <PredictionPanel
                 marketId={market.id}
                 question={market.question}
-                onPredictionSuccess={loadMarket}
+                status={status}
+                pools={market}
+                onPredictionSuccess={() => refetchMarket()}
               />
             )}
           </div>
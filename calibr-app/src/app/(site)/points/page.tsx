@@ -23,7 +23,6 @@ import { InfoTooltip, EducationalBanner } from "@/components/ui/InfoTooltip";
 import {
     POINTS_BASE_PRICE_MIST,
     POINTS_UNIT,
-    mistToSui,
     estimatePointsCost,
     POINTS_ECONOMY_OBJECTS,
     buildBuyPointsTx,
@@ -33,6 +32,7 @@ import {
     REDEMPTION_REQUIREMENTS
 } from "@/lib/points-transactions";
 import { DEFAULT_NETWORK } from "@/lib/sui-config";
+import { Points, ZERO_MIST, ZERO_POINTS, formatMist, formatPoints, mulDiv, percentOf, points, sub } from "@/lib/amounts";
 
 // Preset buy amounts
 const BUY_PRESETS = [
@@ -42,6 +42,11 @@ const BUY_PRESETS = [
     { points: 5000, label: "Pro" },
 ];
 
+// Blank or partial input counts as zero rather than throwing mid-keystroke
+function parsePointsInput(text: string): Points {
+    return /^\d+$/.test(text.trim()) ? points(text) : ZERO_POINTS;
+}
+
 export default function PointsPage() {
     const { isConnected, signAndExecuteTransaction, reputation, userProfile } = useWallet();
     const { data: pointsBalance, isLoading: isLoadingBalance } = usePointsBalance();
@@ -60,27 +65,28 @@ export default function PointsPage() {
     const [isSelling, setIsSelling] = useState(false);
 
     // Buy calculations
-    const pointsToBuy = isCustom ? parseInt(customAmount) || 0 : selectedPoints;
-    const estimatedCostMist = useMemo(() => {
-        if (pointsToBuy < POINTS_UNIT || pointsToBuy % POINTS_UNIT !== 0) return 0;
-        return estimatePointsCost(pointsToBuy);
-    }, [pointsToBuy]);
-    const costInSui = mistToSui(estimatedCostMist);
-    const pricePerPoint = costInSui / (pointsToBuy || 1);
-    const predictionsEnabled = Math.floor(pointsToBuy / 100);
+    const pointsToBuy = isCustom ? parsePointsInput(customAmount) : points(selectedPoints);
+    const isValidBuy = pointsToBuy >= POINTS_UNIT && pointsToBuy % POINTS_UNIT === BigInt(0);
+    const estimatedCostMist = useMemo(
+        () => (isValidBuy ? estimatePointsCost(pointsToBuy) : ZERO_MIST),
+        [isValidBuy, pointsToBuy]
+    );
+    const predictionsEnabled = pointsToBuy / POINTS_UNIT;
 
     // Sell calculations
-    const pointsToSell = parseInt(sellAmount) || 0;
+    const pointsToSell = parsePointsInput(sellAmount);
+    const isValidSell = pointsToSell >= POINTS_UNIT && pointsToSell % POINTS_UNIT === BigInt(0);
     const sellPayout = useMemo(() => {
-        if (pointsToSell < POINTS_UNIT || pointsToSell % POINTS_UNIT !== 0) {
-            return { grossMist: 0, feeMist: 0, netMist: 0 };
+        if (!isValidSell) {
+            return { grossMist: ZERO_MIST, feeMist: ZERO_MIST, netMist: ZERO_MIST };
         }
         return estimateRedemptionPayout(pointsToSell);
-    }, [pointsToSell]);
+    }, [isValidSell, pointsToSell]);
 
     // Eligibility check (simplified - real check happens on-chain)
-    const currentBalance = pointsBalance?.balance || 0;
-    const maxRedeemable = Math.floor((currentBalance * REDEMPTION_REQUIREMENTS.maxWeeklyPct / 100) / 100) * 100;
+    const currentBalance = pointsBalance?.balance ?? ZERO_POINTS;
+    const weeklyCap = percentOf(currentBalance, REDEMPTION_REQUIREMENTS.maxWeeklyPct);
+    const maxRedeemable = sub(weeklyCap, points(weeklyCap % POINTS_UNIT)); // round down to a whole unit
     const meetsReputationReq = reputation >= REDEMPTION_REQUIREMENTS.minReputation;
     // Note: We can't check predictions count or epochs held from frontend easily
     // The contract will validate on-chain
@@ -91,7 +97,7 @@ export default function PointsPage() {
             return;
         }
 
-        if (pointsToBuy < POINTS_UNIT || pointsToBuy % POINTS_UNIT !== 0) {
+        if (!isValidBuy) {
             toast.error(`Points must be purchased in multiples of ${POINTS_UNIT}`);
             return;
         }
@@ -107,12 +113,12 @@ export default function PointsPage() {
             }
 
             // Add 10% buffer to cost estimate to account for bonding curve price increases
-            const costWithBuffer = Math.ceil(estimatedCostMist * 1.1);
+            const costWithBuffer = mulDiv(estimatedCostMist, 110, 100);
 
             console.log("💰 Buy Points Debug:", {
-                pointsToBuy,
-                estimatedCostMist,
-                costWithBuffer,
+                pointsToBuy: pointsToBuy.toString(),
+                estimatedCostMist: estimatedCostMist.toString(),
+                costWithBuffer: costWithBuffer.toString(),
                 hasExistingBalance: !!pointsBalance,
                 balanceId: pointsBalance?.id,
                 treasury: economyIds.treasury,
@@ -146,7 +152,7 @@ export default function PointsPage() {
             const result = await signAndExecuteTransaction(tx);
 
             if (result && result.digest) {
-                toast.success(`Successfully purchased ${pointsToBuy} points!`);
+                toast.success(`Successfully purchased ${formatPoints(pointsToBuy)} points!`);
             }
         } catch (error: any) {
             console.error("Buy points error:", error);
@@ -180,7 +186,7 @@ export default function PointsPage() {
             return;
         }
 
-        if (pointsToSell < POINTS_UNIT || pointsToSell % POINTS_UNIT !== 0) {
+        if (!isValidSell) {
             toast.error(`Points must be sold in multiples of ${POINTS_UNIT}`);
             return;
         }
@@ -211,7 +217,7 @@ export default function PointsPage() {
             const result = await signAndExecuteTransaction(tx);
 
             if (result && result.digest) {
-                toast.success(`Successfully redeemed ${pointsToSell} points for ~${mistToSui(sellPayout.netMist).toFixed(4)} SUI!`);
+                toast.success(`Successfully redeemed ${formatPoints(pointsToSell)} points for ~${formatMist(sellPayout.netMist)} SUI!`);
                 setSellAmount("");
             }
         } catch (error: any) {
@@ -268,12 +274,12 @@ export default function PointsPage() {
                                     <div>
                                         <p className="text-sm text-muted-foreground">Your Points Balance</p>
                                         <p className="text-3xl font-bold font-mono-numbers">
-                                            {isLoadingBalance ? "..." : currentBalance.toLocaleString()}
+                                            {isLoadingBalance ? "..." : formatPoints(currentBalance)}
                                         </p>
                                     </div>
                                 </div>
                                 <div className="text-right text-sm text-muted-foreground">
-                                    <p>≈ {Math.floor(currentBalance / 100)} predictions</p>
+                                    <p>≈ {(currentBalance / POINTS_UNIT).toString()} predictions</p>
                                 </div>
                             </div>
                         </div>
@@ -353,8 +359,8 @@ export default function PointsPage() {
                                             <input
                                                 type="number"
                                                 autoFocus
-                                                min={POINTS_UNIT}
-                                                step={POINTS_UNIT}
+                                                min={POINTS_UNIT.toString()}
+                                                step={POINTS_UNIT.toString()}
                                                 value={customAmount}
                                                 onChange={(e) => setCustomAmount(e.target.value)}
                                                 placeholder={`Multiple of ${POINTS_UNIT}`}
@@ -371,16 +377,16 @@ export default function PointsPage() {
                                         <div className="w-full sm:w-auto text-center sm:text-left">
                                             <div className="text-sm text-muted-foreground mb-1">Total Cost</div>
                                             <div className="text-3xl font-bold font-mono-numbers text-foreground flex items-baseline justify-center sm:justify-start gap-2">
-                                                ~{costInSui.toFixed(4)} <span className="text-base font-normal text-muted-foreground">SUI</span>
+                                                ~{formatMist(estimatedCostMist)} <span className="text-base font-normal text-muted-foreground">SUI</span>
                                             </div>
                                             <div className="text-xs text-green-500 font-medium mt-1 bg-green-500/10 px-2 py-0.5 rounded-full inline-block">
-                                                +{predictionsEnabled} predictions
+                                                +{predictionsEnabled.toString()} predictions
                                             </div>
                                         </div>
 
                                         <button
                                             onClick={handleBuyPoints}
-                                            disabled={!isConnected || pointsToBuy < POINTS_UNIT || isBuying}
+                                            disabled={!isConnected || !isValidBuy || isBuying}
                                             className="w-full sm:w-auto flex-1 min-w-[200px] py-4 bg-primary hover:bg-primary/90 disabled:bg-muted disabled:text-muted-foreground text-primary-foreground font-semibold rounded-xl transition-all flex items-center justify-center gap-2 shadow-lg shadow-primary/20 hover:shadow-primary/40 hover:-translate-y-0.5"
                                         >
                                             {!isConnected ? (
@@ -461,9 +467,9 @@ export default function PointsPage() {
                                             </label>
                                             <input
                                                 type="number"
-                                                min={POINTS_UNIT}
-                                                step={POINTS_UNIT}
-                                                max={currentBalance}
+                                                min={POINTS_UNIT.toString()}
+                                                step={POINTS_UNIT.toString()}
+                                                max={currentBalance.toString()}
                                                 value={sellAmount}
                                                 onChange={(e) => setSellAmount(e.target.value)}
                                                 placeholder="Enter amount..."
@@ -474,16 +480,16 @@ export default function PointsPage() {
                                         {/* Quick select buttons */}
                                         <div className="flex gap-2">
                                             <button
-                                                onClick={() => setSellAmount(String(Math.min(100, currentBalance)))}
+                                                onClick={() => setSellAmount((currentBalance < POINTS_UNIT ? currentBalance : POINTS_UNIT).toString())}
                                                 className="px-3 py-1.5 text-xs bg-muted rounded-lg hover:bg-muted/80"
                                             >
                                                 Min (100)
                                             </button>
                                             <button
-                                                onClick={() => setSellAmount(String(maxRedeemable))}
+                                                onClick={() => setSellAmount(maxRedeemable.toString())}
                                                 className="px-3 py-1.5 text-xs bg-muted rounded-lg hover:bg-muted/80"
                                             >
-                                                Max ({maxRedeemable})
+                                                Max ({formatPoints(maxRedeemable)})
                                             </button>
                                         </div>
                                     </div>
@@ -493,20 +499,20 @@ export default function PointsPage() {
                                         <div className="mt-6 p-4 bg-muted/50 rounded-xl space-y-2">
                                             <div className="flex justify-between text-sm">
                                                 <span className="text-muted-foreground">Points to sell</span>
-                                                <span className="font-medium">{pointsToSell.toLocaleString()}</span>
+                                                <span className="font-medium">{formatPoints(pointsToSell)}</span>
                                             </div>
                                             <div className="flex justify-between text-sm">
                                                 <span className="text-muted-foreground">Gross value</span>
-                                                <span className="font-mono">{mistToSui(sellPayout.grossMist).toFixed(4)} SUI</span>
+                                                <span className="font-mono">{formatMist(sellPayout.grossMist)} SUI</span>
                                             </div>
                                             <div className="flex justify-between text-sm text-red-500">
-                                                <span>Fee (5%)</span>
-                                                <span className="font-mono">-{mistToSui(sellPayout.feeMist).toFixed(4)} SUI</span>
+                                                <span>Fee ({REDEMPTION_REQUIREMENTS.feePct}%)</span>
+                                                <span className="font-mono">-{formatMist(sellPayout.feeMist)} SUI</span>
                                             </div>
                                             <div className="border-t border-border pt-2 flex justify-between">
                                                 <span className="font-semibold">You receive</span>
                                                 <span className="font-bold text-lg text-green-500">
-                                                    ~{mistToSui(sellPayout.netMist).toFixed(4)} SUI
+                                                    ~{formatMist(sellPayout.netMist)} SUI
                                                 </span>
                                             </div>
                                         </div>
@@ -525,7 +531,7 @@ export default function PointsPage() {
                                             "Enter amount to sell"
                                         ) : (
                                             <>
-                                                Sell {pointsToSell.toLocaleString()} Points
+                                                Sell {formatPoints(pointsToSell)} Points
                                                 <ArrowRight className="w-5 h-5" />
                                             </>
                                         )}
@@ -559,7 +565,7 @@ export default function PointsPage() {
                                         </div>
                                         <div className="flex items-center gap-2 p-2 rounded-lg text-sm bg-muted">
                                             <TrendingUp className="w-4 h-4 text-muted-foreground flex-shrink-0" />
-                                            <span>{REDEMPTION_REQUIREMENTS.maxWeeklyPct}% weekly limit • 5% fee</span>
+                                            <span>{REDEMPTION_REQUIREMENTS.maxWeeklyPct}% weekly limit • {REDEMPTION_REQUIREMENTS.feePct}% fee</span>
                                         </div>
                                     </div>
                                 </div>
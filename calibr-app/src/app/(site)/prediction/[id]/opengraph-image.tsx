@@ -0,0 +1,59 @@
+import { ImageResponse } from "next/og";
+import { OG_SIZE, OgFallback, OgFrame, OgStat, ogColors, truncate } from "@/components/og/OgCard";
+import { loadMarket } from "@/lib/market-data";
+import { loadPrediction } from "@/lib/user-predictions";
+
+export const size = OG_SIZE;
+export const contentType = "image/png";
+export const alt = "Calibr prediction";
+
+export default async function PredictionImage({ params }: { params: { id: string } }) {
+  const prediction = await loadPrediction(params.id).catch(() => null);
+  const market = prediction ? await loadMarket(prediction.marketId).catch(() => null) : null;
+
+  if (!prediction) {
+    return new ImageResponse(<OgFallback label="Prediction" message="Prediction not found" />, size);
+  }
+
+  const sideColor = prediction.side ? ogColors.yes : ogColors.no;
+  const decided = prediction.status === "won" || prediction.status === "lost";
+  const delta = prediction.reputationChange;
+
+  return new ImageResponse(
+    (
+      <OgFrame label="Prediction">
+        <div style={{ display: "flex", fontSize: 40, fontWeight: 600, lineHeight: 1.25, color: ogColors.muted, marginBottom: 40 }}>
+          {market ? truncate(market.question, 120) : "Calibr market"}
+        </div>
+        <div style={{ display: "flex", alignItems: "baseline", marginBottom: 24 }}>
+          <div style={{ fontSize: 120, fontWeight: 700, color: sideColor, lineHeight: 1 }}>
+            {prediction.side ? "YES" : "NO"}
+          </div>
+          <div style={{ fontSize: 56, fontWeight: 600, marginLeft: 28 }}>{`@ ${prediction.confidence}%`}</div>
+        </div>
+        <div style={{ display: "flex", marginTop: "auto", marginBottom: 32 }}>
+          <OgStat label="At Risk" value={`${prediction.risk} pts`} />
+          {decided ? (
+            <OgStat
+              label="Result"
+              value={prediction.status === "won" ? "Correct" : "Wrong"}
+              color={prediction.status === "won" ? ogColors.yes : ogColors.no}
+            />
+          ) : prediction.status === "settled" ? (
+            <OgStat label="Status" value="Settled" />
+          ) : (
+            <OgStat label="Status" value="Awaiting resolution" color={ogColors.amber} />
+          )}
+          {decided && delta !== undefined && (
+            <OgStat
+              label="Reputation"
+              value={`${delta >= 0 ? "+" : ""}${delta}`}
+              color={delta >= 0 ? ogColors.yes : ogColors.no}
+            />
+          )}
+        </div>
+      </OgFrame>
+    ),
+    size
+  );
+}
@@ -0,0 +1,40 @@
+import type { Metadata } from "next";
+import { PredictionPermalink } from "@/components/markets/PredictionPermalink";
+import { loadMarket } from "@/lib/market-data";
+import { loadPrediction } from "@/lib/user-predictions";
+
+export async function generateMetadata({ params }: { params: { id: string } }): Promise<Metadata> {
+  const prediction = await loadPrediction(params.id).catch(() => null);
+  if (!prediction) return { title: "Prediction | Calibr" };
+
+  const market = await loadMarket(prediction.marketId).catch(() => null);
+  const call = `${prediction.side ? "YES" : "NO"} at ${prediction.confidence}% confidence`;
+  const title = market ? `${call} on "${market.question}"` : call;
+  const description = prediction.status === "active"
+    ? "Awaiting resolution on Calibr, the prediction market for calibrated forecasters."
+    : prediction.status === "settled"
+    ? "Settled on Calibr, the prediction market for calibrated forecasters."
+    : `${prediction.status === "won" ? "Correct" : "Wrong"}${prediction.reputationChange !== undefined
+      ? `, ${prediction.reputationChange >= 0 ? "+" : ""}${prediction.reputationChange} reputation`
+      : ""}.`;
+
+  return {
+    title: `${title} | Calibr`,
+    description,
+    openGraph: {
+      title,
+      description,
+      url: `/prediction/${prediction.predictionId}`,
+      type: "article",
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description,
+    },
+  };
+}
+
+export default function PredictionPage({ params }: { params: { id: string } }) {
+  return <PredictionPermalink predictionId={params.id} />;
+}
@@ -0,0 +1,43 @@
+import type { Metadata } from "next";
+import { loadUserProfile } from "@/lib/user-profile";
+import { loadUserPredictions, summarizeCalibration } from "@/lib/user-predictions";
+
+function shortAddress(address: string) {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+// The page is a client component, so its share metadata is generated here
+export async function generateMetadata({ params }: { params: { address: string } }): Promise<Metadata> {
+  const address = decodeURIComponent(params.address);
+  const [profile, predictions] = await Promise.all([
+    loadUserProfile(address).catch(() => null),
+    loadUserPredictions(address).catch(() => []),
+  ]);
+  if (!profile) return { title: `${shortAddress(address)} | Calibr` };
+
+  const calibration = summarizeCalibration(predictions);
+  const title = `${shortAddress(address)} · ${profile.reputationScore} reputation (${profile.tier})`;
+  const description = calibration.settled > 0
+    ? `${calibration.settled} settled predictions at ${calibration.meanConfidence}% average confidence, ${calibration.winRate}% correct.`
+    : "No settled predictions yet.";
+
+  return {
+    title: `${title} | Calibr`,
+    description,
+    openGraph: {
+      title,
+      description,
+      url: `/profile/${address}`,
+      type: "profile",
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description,
+    },
+  };
+}
+
+export default function ProfileLayout({ children }: { children: React.ReactNode }) {
+  return children;
+}
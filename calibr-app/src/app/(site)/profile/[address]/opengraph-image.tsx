@@ -0,0 +1,68 @@
+import { ImageResponse } from "next/og";
+import { OG_SIZE, OgFallback, OgFrame, OgStat, ogColors, tierColors } from "@/components/og/OgCard";
+import { loadUserProfile } from "@/lib/user-profile";
+import { loadUserPredictions, summarizeCalibration } from "@/lib/user-predictions";
+
+export const size = OG_SIZE;
+export const contentType = "image/png";
+export const alt = "Calibr forecaster profile";
+
+export default async function ProfileImage({ params }: { params: { address: string } }) {
+  const address = decodeURIComponent(params.address);
+  const [profile, predictions] = await Promise.all([
+    loadUserProfile(address).catch(() => null),
+    loadUserPredictions(address).catch(() => []),
+  ]);
+
+  if (!profile) {
+    return new ImageResponse(<OgFallback label="Forecaster" message="No Calibr profile yet" />, size);
+  }
+
+  const calibration = summarizeCalibration(predictions);
+  const gap = calibration.calibrationGap;
+
+  return new ImageResponse(
+    (
+      <OgFrame label="Forecaster">
+        <div style={{ display: "flex", fontSize: 36, color: ogColors.muted, marginBottom: 24 }}>
+          {`${address.slice(0, 10)}...${address.slice(-6)}`}
+        </div>
+        <div style={{ display: "flex", alignItems: "baseline", marginBottom: 16 }}>
+          <div style={{ fontSize: 144, fontWeight: 700, lineHeight: 1 }}>{profile.reputationScore}</div>
+          <div style={{ fontSize: 36, color: ogColors.muted, marginLeft: 20 }}>reputation</div>
+        </div>
+        <div style={{ display: "flex", marginBottom: 48 }}>
+          <div
+            style={{
+              display: "flex",
+              padding: "6px 20px",
+              borderRadius: 999,
+              fontSize: 28,
+              color: tierColors[profile.tier],
+              border: `2px solid ${tierColors[profile.tier]}`,
+            }}
+          >
+            {`${profile.tier} · ${profile.maxConfidence}% cap`}
+          </div>
+        </div>
+        {calibration.settled > 0 ? (
+          <div style={{ display: "flex", marginTop: "auto", marginBottom: 32 }}>
+            <OgStat label="Settled" value={calibration.settled.toString()} />
+            <OgStat label="Avg Confidence" value={`${calibration.meanConfidence}%`} />
+            <OgStat label="Correct" value={`${calibration.winRate}%`} />
+            <OgStat
+              label="Calibration"
+              value={gap === 0 ? "Spot on" : `${Math.abs(gap)} pts ${gap > 0 ? "over" : "under"}`}
+              color={Math.abs(gap) <= 5 ? ogColors.yes : ogColors.amber}
+            />
+          </div>
+        ) : (
+          <div style={{ display: "flex", marginTop: "auto", marginBottom: 32, color: ogColors.muted }}>
+            No settled predictions yet
+          </div>
+        )}
+      </OgFrame>
+    ),
+    size
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState, useMemo } from "react";
 import { cn } from "@/lib/utils";
+import { ZERO_POINTS, compare, formatPoints, sign, sub, sum } from "@/lib/amounts";
 import { AnimatedCounter } from "@/components/ui/animated-counter";
 import { ReputationDisplay } from "@/components/profile/ReputationDisplay";
 import { ReputationChart } from "@/components/profile/ReputationChart";
@@ -11,6 +12,7 @@ import Link from "next/link";
 import { useWallet } from "@/hooks/useWallet";
 import { useUserPredictions } from "@/hooks/useUserPredictions";
 import { useLeaderboard } from "@/hooks/useLeaderboard";
+import { useReputationHistory } from "@/hooks/useReputationHistory";
 
 export default function PublicProfilePage({ params }: { params: { address: string } }) {
     const { address: myAddress } = useWallet();
@@ -27,37 +29,27 @@ export default function PublicProfilePage({ params }: { params: { address: strin
 
     const { data: predictions, isLoading: isLoadingPredictions } = useUserPredictions(address);
     const { data: leaderboardData, isLoading: isLoadingLeaderboard } = useLeaderboard(null);
+    const { data: reputationHistory } = useReputationHistory(address);
 
     const userStats = leaderboardData?.find(u => u.address === address);
 
     // Calculate stats and chart data from real predictions
     const {
-        reputationHistory,
         confidenceAccuracy,
         bestPredictions,
         worstPredictions,
         netProfit
     } = useMemo(() => {
-        // If we have leaderboard stats, use that reputation as "Current"
-        const currentRep = userStats?.reputation || 700;
-
         if (!predictions || predictions.length === 0) {
             return {
-                reputationHistory: [{ date: "Now", score: currentRep }],
                 confidenceAccuracy: [],
                 bestPredictions: [],
                 worstPredictions: [],
-                netProfit: 0
+                netProfit: ZERO_POINTS
             };
         }
 
-        const resolved = predictions.filter(p => p.status !== "active");
-
-        // Build reputation history
-        const repHistory = [
-            { date: "Start", score: 700 },
-            { date: "Now", score: currentRep }
-        ];
+        const resolved = predictions.filter(p => p.status === "won" || p.status === "lost");
 
         // Build confidence vs accuracy chart data
         const confidenceBuckets: Record<string, { predicted: number; actual: number; count: number }> = {
@@ -102,43 +94,40 @@ export default function PublicProfilePage({ params }: { params: { address: strin
         // Best predictions (won with highest profit)
         const won = resolved.filter(p => p.status === "won" && p.profit);
         const best = won
-            .sort((a, b) => (b.profit || 0) - (a.profit || 0))
+            .sort((a, b) => compare(b.profit, a.profit))
             .slice(0, 3)
             .map(p => ({
                 marketId: p.marketId,
                 question: `Market ${p.marketId.slice(0, 8)}...`,
                 confidence: p.confidence,
-                profit: p.profit || 0
+                profit: p.profit
             }));
 
         // Worst predictions
         const lost = resolved.filter(p => p.status === "lost" && p.loss);
         const worst = lost
-            .sort((a, b) => (b.loss || 0) - (a.loss || 0))
+            .sort((a, b) => compare(b.loss, a.loss))
             .slice(0, 3)
             .map(p => ({
                 marketId: p.marketId,
                 question: `Market ${p.marketId.slice(0, 8)}...`,
                 confidence: p.confidence,
-                loss: p.loss || 0
+                loss: p.loss
             }));
 
         // Net profit
-        const profit = resolved.reduce((sum, p) => {
-            // Only count SETTLED profit/loss
-            if (p.profit) return sum + p.profit;
-            if (p.loss) return sum - p.loss;
-            return sum;
-        }, 0);
+        const profit = sub(
+            sum(resolved.map(p => p.profit ?? ZERO_POINTS), ZERO_POINTS),
+            sum(resolved.map(p => p.loss ?? ZERO_POINTS), ZERO_POINTS)
+        );
 
         return {
-            reputationHistory: repHistory,
             confidenceAccuracy: confAccuracy,
             bestPredictions: best,
             worstPredictions: worst,
-            netProfit: profit // In MIST/Points directly (as integer)
+            netProfit: profit
         };
-    }, [predictions, userStats]);
+    }, [predictions]);
 
     const isLoading = isLoadingPredictions || isLoadingLeaderboard;
 
@@ -208,9 +197,9 @@ export default function PublicProfilePage({ params }: { params: { address: strin
                             <div className="flex items-baseline gap-1">
                                 <span className={cn(
                                     "text-3xl font-bold font-mono-numbers",
-                                    netProfit > 0 ? "text-green-500" : netProfit < 0 ? "text-red-500" : "text-foreground"
+                                    sign(netProfit) > 0 ? "text-green-500" : sign(netProfit) < 0 ? "text-red-500" : "text-foreground"
                                 )}>
-                                    {netProfit > 0 ? "+" : ""}{netProfit}
+                                    {formatPoints(netProfit, { signed: true })}
                                 </span>
                                 <span className="text-xs text-muted-foreground font-medium uppercase">pts</span>
                             </div>
@@ -265,7 +254,7 @@ export default function PublicProfilePage({ params }: { params: { address: strin
                     {/* 2. Charts Area */}
                     <div className="grid md:grid-cols-2 gap-6 animate-fade-in-up" style={{ animationDelay: '0.2s' }}>
                         <div className="bg-card/50 backdrop-blur-sm border border-border rounded-xl p-1 shadow-sm h-[350px]">
-                            <ReputationChart data={reputationHistory} />
+                            <ReputationChart data={reputationHistory ?? []} />
                         </div>
                         <div className="bg-card/50 backdrop-blur-sm border border-border rounded-xl p-1 shadow-sm h-[350px]">
                             {confidenceAccuracy.length > 0 ? (
@@ -304,7 +293,7 @@ export default function PublicProfilePage({ params }: { params: { address: strin
                                                 </div>
                                             </div>
                                             <div className="text-right">
-                                                <span className="text-sm font-bold text-green-500 font-mono-numbers">+{pred.profit}</span>
+                                                <span className="text-sm font-bold text-green-500 font-mono-numbers">{formatPoints(pred.profit, { signed: true })}</span>
                                                 <div className="text-[10px] text-muted-foreground">pts</div>
                                             </div>
                                         </Link>
@@ -341,7 +330,7 @@ export default function PublicProfilePage({ params }: { params: { address: strin
                                                 </div>
                                             </div>
                                             <div className="text-right">
-                                                <span className="text-sm font-bold text-red-500 font-mono-numbers">-{pred.loss}</span>
+                                                <span className="text-sm font-bold text-red-500 font-mono-numbers">-{formatPoints(pred.loss)}</span>
                                                 <div className="text-[10px] text-muted-foreground">pts</div>
                                             </div>
                                         </Link>
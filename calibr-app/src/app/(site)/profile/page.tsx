@@ -2,6 +2,7 @@
 
 import { useState, useMemo } from "react";
 import { cn } from "@/lib/utils";
+import { ZERO_POINTS, compare, formatPoints, sign, sub, sum } from "@/lib/amounts";
 import { ReputationDisplay } from "@/components/profile/ReputationDisplay";
 import { ReputationChart } from "@/components/profile/ReputationChart";
 import { ConfidenceAccuracyChart } from "@/components/profile/ConfidenceAccuracyChart";
@@ -10,11 +11,13 @@ import Link from "next/link";
 import { useWallet } from "@/hooks/useWallet";
 import { useUserPredictions } from "@/hooks/useUserPredictions";
 import { useLeaderboard } from "@/hooks/useLeaderboard";
+import { useReputationHistory } from "@/hooks/useReputationHistory";
 
 export default function ProfilePage() {
   const { isConnected, address, shortAddress } = useWallet();
   const { data: predictions, isLoading: isLoadingPredictions } = useUserPredictions();
   const { data: leaderboardData, isLoading: isLoadingLeaderboard } = useLeaderboard(null);
+  const { data: reputationHistory } = useReputationHistory(address);
 
   const [copied, setCopied] = useState(false);
 
@@ -29,31 +32,21 @@ export default function ProfilePage() {
 
   // Calculate stats and chart data from real predictions
   const {
-    reputationHistory,
     confidenceAccuracy,
     bestPredictions,
     worstPredictions,
     netProfit
   } = useMemo(() => {
-    const currentRep = userStats?.reputation || 500; // Default/Fallback
-
     if (!predictions || predictions.length === 0) {
       return {
-        reputationHistory: [{ date: "Now", score: currentRep }],
         confidenceAccuracy: [],
         bestPredictions: [],
         worstPredictions: [],
-        netProfit: 0
+        netProfit: ZERO_POINTS
       };
     }
 
-    const resolved = predictions.filter(p => p.status !== "active");
-
-    // Build reputation history
-    const repHistory = [
-      { date: "Start", score: 500 },
-      { date: "Now", score: currentRep }
-    ];
+    const resolved = predictions.filter(p => p.status === "won" || p.status === "lost");
 
     // Build confidence vs accuracy chart data
     const confidenceBuckets: Record<string, { predicted: number; actual: number; count: number }> = {
@@ -98,42 +91,40 @@ export default function ProfilePage() {
     // Best predictions
     const won = resolved.filter(p => p.status === "won" && p.profit);
     const best = won
-      .sort((a, b) => (b.profit || 0) - (a.profit || 0))
+      .sort((a, b) => compare(b.profit, a.profit))
       .slice(0, 3)
       .map(p => ({
         marketId: p.marketId,
         question: `Market ${p.marketId.slice(0, 8)}...`,
         confidence: p.confidence,
-        profit: p.profit || 0
+        profit: p.profit
       }));
 
     // Worst predictions
     const lost = resolved.filter(p => p.status === "lost" && p.loss);
     const worst = lost
-      .sort((a, b) => (b.loss || 0) - (a.loss || 0))
+      .sort((a, b) => compare(b.loss, a.loss))
       .slice(0, 3)
       .map(p => ({
         marketId: p.marketId,
         question: `Market ${p.marketId.slice(0, 8)}...`,
         confidence: p.confidence,
-        loss: p.loss || 0
+        loss: p.loss
       }));
 
     // Net profit
-    const profit = resolved.reduce((sum, p) => {
-      if (p.profit) return sum + p.profit;
-      if (p.loss) return sum - p.loss;
-      return sum;
-    }, 0);
+    const profit = sub(
+      sum(resolved.map(p => p.profit ?? ZERO_POINTS), ZERO_POINTS),
+      sum(resolved.map(p => p.loss ?? ZERO_POINTS), ZERO_POINTS)
+    );
 
     return {
-      reputationHistory: repHistory,
       confidenceAccuracy: confAccuracy,
       bestPredictions: best,
       worstPredictions: worst,
       netProfit: profit
     };
-  }, [predictions, userStats]);
+  }, [predictions]);
 
   // Not connected state
   if (!isConnected) {
@@ -200,9 +191,9 @@ export default function ProfilePage() {
                   <div className="flex items-baseline gap-1">
                     <span className={cn(
                       "text-3xl font-bold font-mono-numbers",
-                      netProfit > 0 ? "text-green-500" : netProfit < 0 ? "text-red-500" : "text-foreground"
+                      sign(netProfit) > 0 ? "text-green-500" : sign(netProfit) < 0 ? "text-red-500" : "text-foreground"
                     )}>
-                      {netProfit > 0 ? "+" : ""}{netProfit}
+                      {formatPoints(netProfit, { signed: true })}
                     </span>
                     <span className="text-xs text-muted-foreground font-medium uppercase">pts</span>
                   </div>
@@ -257,7 +248,7 @@ export default function ProfilePage() {
               {/* 2. Charts Area */}
               <div className="grid md:grid-cols-2 gap-6 animate-fade-in-up" style={{ animationDelay: '0.2s' }}>
                 <div className="bg-card/50 backdrop-blur-sm border border-border rounded-xl p-1 shadow-sm h-[350px]">
-                  <ReputationChart data={reputationHistory} />
+                  <ReputationChart data={reputationHistory ?? []} />
                 </div>
                 <div className="bg-card/50 backdrop-blur-sm border border-border rounded-xl p-1 shadow-sm h-[350px]">
                   {confidenceAccuracy.length > 0 ? (
@@ -296,7 +287,7 @@ export default function ProfilePage() {
                             </div>
                           </div>
                           <div className="text-right">
-                            <span className="text-sm font-bold text-green-500 font-mono-numbers">+{pred.profit}</span>
+                            <span className="text-sm font-bold text-green-500 font-mono-numbers">{formatPoints(pred.profit, { signed: true })}</span>
                             <div className="text-[10px] text-muted-foreground">pts</div>
                           </div>
                         </Link>
@@ -333,7 +324,7 @@ export default function ProfilePage() {
                             </div>
                           </div>
                           <div className="text-right">
-                            <span className="text-sm font-bold text-red-500 font-mono-numbers">-{pred.loss}</span>
+                            <span className="text-sm font-bold text-red-500 font-mono-numbers">-{formatPoints(pred.loss)}</span>
                             <div className="text-[10px] text-muted-foreground">pts</div>
                           </div>
                         </Link>
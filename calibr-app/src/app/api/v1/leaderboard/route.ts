@@ -0,0 +1,20 @@
+import { loadLeaderboard, type TimeFrame } from "@/lib/leaderboard";
+import { enumParam, handleApiRequest, paginate, parsePageRequest } from "@/lib/public-api";
+
+export const dynamic = "force-dynamic";
+
+const PERIODS: Record<string, TimeFrame> = {
+  all: "All Time",
+  month: "This Month",
+  week: "This Week",
+};
+
+export function GET(request: Request) {
+  return handleApiRequest(request, async (params) => {
+    const period = enumParam(params, "period", Object.keys(PERIODS), "all");
+    const page = parsePageRequest(params);
+    const ranked = await loadLeaderboard(PERIODS[period]);
+    // isYou only means something to a connected wallet
+    return paginate(ranked.map(({ isYou, ...user }) => user), page);
+  });
+}
@@ -0,0 +1,20 @@
+import { loadMarket, loadMarketHistory } from "@/lib/market-data";
+import { ApiError, handleApiRequest } from "@/lib/public-api";
+
+export const dynamic = "force-dynamic";
+
+export function GET(request: Request, { params }: { params: { id: string } }) {
+  return handleApiRequest(request, async () => {
+    const market = await loadMarket(decodeURIComponent(params.id), { throwOnError: true });
+    if (!market) throw new ApiError(404, "not_found", `Market ${params.id} not found`);
+
+    const history = await loadMarketHistory(market);
+    return {
+      market,
+      predictions: history.entries,
+      history: history.points,
+      lockedAtMs: history.lockedAtMs,
+      resolvedAtMs: history.resolvedAtMs,
+    };
+  });
+}
@@ -0,0 +1,14 @@
+import { loadMarkets } from "@/lib/market-data";
+import { applyExploreQuery, parseExploreQuery } from "@/lib/market-filters";
+import { handleApiRequest, paginate, parsePageRequest } from "@/lib/public-api";
+
+export const dynamic = "force-dynamic";
+
+// Filters and sorting use the explore page's query parameters
+export function GET(request: Request) {
+  return handleApiRequest(request, async (params) => {
+    const page = parsePageRequest(params);
+    const query = { ...parseExploreQuery(params), tab: "all" as const, unpredictedOnly: false };
+    return paginate(applyExploreQuery(await loadMarkets(), query), page);
+  });
+}
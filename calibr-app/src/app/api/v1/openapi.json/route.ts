@@ -0,0 +1,6 @@
+import { OPENAPI_DOCUMENT } from "@/lib/openapi";
+import { apiJson } from "@/lib/public-api";
+
+export function GET(request: Request) {
+  return apiJson(request, OPENAPI_DOCUMENT, 3600);
+}
@@ -0,0 +1,35 @@
+import { loadLeaderboard } from "@/lib/leaderboard";
+import { loadUserPredictions, summarizeCalibration } from "@/lib/user-predictions";
+import { loadUserProfile } from "@/lib/user-profile";
+import { ApiError, handleApiRequest, parseAddress } from "@/lib/public-api";
+
+export const dynamic = "force-dynamic";
+
+export function GET(request: Request, { params }: { params: { address: string } }) {
+  return handleApiRequest(request, async () => {
+    const address = parseAddress(params.address);
+    const [profile, predictions, leaderboard] = await Promise.all([
+      loadUserProfile(address),
+      loadUserPredictions(address),
+      loadLeaderboard("All Time"),
+    ]);
+    if (!profile && predictions.length === 0) {
+      throw new ApiError(404, "not_found", `No Calibr profile for ${address}`);
+    }
+
+    const entry = leaderboard.find(u => u.address === address);
+    return {
+      address,
+      profile,
+      stats: entry ? {
+        rank: entry.rank,
+        predictions: entry.predictions,
+        winRate: entry.winRate,
+        pnl: entry.pnl,
+        streak: entry.streak,
+        form: entry.form,
+      } : null,
+      calibration: summarizeCalibration(predictions),
+    };
+  });
+}
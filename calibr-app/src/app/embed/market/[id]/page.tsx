@@ -0,0 +1,22 @@
+import type { Metadata } from "next";
+import { EmbedProviders } from "@/components/providers/EmbedProviders";
+import { MarketEmbed } from "@/components/markets/MarketEmbed";
+import { parseEmbedTheme } from "@/lib/embed";
+
+export const metadata: Metadata = {
+  title: "Calibr Market",
+  robots: { index: false },
+};
+
+interface EmbedMarketPageProps {
+  params: { id: string };
+  searchParams: { theme?: string | string[] };
+}
+
+export default function EmbedMarketPage({ params, searchParams }: EmbedMarketPageProps) {
+  return (
+    <EmbedProviders theme={parseEmbedTheme(searchParams.theme)}>
+      <MarketEmbed marketId={params.id} />
+    </EmbedProviders>
+  );
+}
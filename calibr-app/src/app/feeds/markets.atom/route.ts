@@ -0,0 +1,7 @@
+import { buildFeedResponse } from "@/lib/market-feed";
+
+export const dynamic = "force-dynamic";
+
+export function GET(request: Request) {
+  return buildFeedResponse(request, "atom");
+}
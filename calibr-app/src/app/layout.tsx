@@ -1,9 +1,7 @@
 import type { Metadata, Viewport } from "next";
 import { Inter } from "next/font/google";
 import "./globals.css";
-import { Providers } from "./providers";
-import { Header } from "@/components/layout/Header";
-import { Footer } from "@/components/layout/Footer";
+import { SITE_URL } from "@/lib/sui-config";
 
 const inter = Inter({
   subsets: ["latin"],
@@ -12,10 +10,18 @@ const inter = Inter({
 });
 
 export const metadata: Metadata = {
+  metadataBase: new URL(SITE_URL),
   title: "Calibr - Prediction Market for Calibrated Forecasters",
   description: "Calibr is a prediction market for people who care about being right. Express your confidence, build your reputation.",
   keywords: ["prediction market", "forecasting", "calibration", "sui", "blockchain"],
   authors: [{ name: "Calibr Team" }],
+  alternates: {
+    types: {
+      "application/rss+xml": "/feeds/markets.xml",
+      "application/atom+xml": "/feeds/markets.atom",
+      "application/feed+json": "/feeds/markets.json",
+    },
+  },
   openGraph: {
     title: "Calibr - Prediction Market for Calibrated Forecasters",
     description: "Express your confidence, build your reputation. A prediction market that rewards skill, not luck.",
@@ -49,13 +55,7 @@ export default function RootLayout({
   return (
     <html lang="en" suppressHydrationWarning>
       <body className={`${inter.className} ${inter.variable}`}>
-        <Providers>
-          <div className="min-h-screen bg-background flex flex-col relative z-0">
-            <Header />
-            <main className="flex-1 relative z-0">{children}</main>
-            <Footer />
-          </div>
-        </Providers>
+        {children}
       </body>
     </html>
   );
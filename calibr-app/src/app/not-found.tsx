@@ -1,15 +1,19 @@
 import Link from "next/link";
+import { SiteShell } from "@/components/layout/SiteShell";
 
+// Unmatched URLs render under the root layout, outside the (site) group
 export default function NotFound() {
   return (
-    <div className="flex min-h-[calc(100vh-4rem)] items-center justify-center">
-      <div className="text-center">
-        <h1 className="mb-4 text-4xl font-bold">404</h1>
-        <p className="mb-4 text-xl text-muted-foreground">Oops! Page not found</p>
-        <Link href="/" className="text-primary underline hover:text-primary/90">
-          Return to Home
-        </Link>
+    <SiteShell>
+      <div className="flex min-h-[calc(100vh-4rem)] items-center justify-center">
+        <div className="text-center">
+          <h1 className="mb-4 text-4xl font-bold">404</h1>
+          <p className="mb-4 text-xl text-muted-foreground">Oops! Page not found</p>
+          <Link href="/" className="text-primary underline hover:text-primary/90">
+            Return to Home
+          </Link>
+        </div>
       </div>
-    </div>
+    </SiteShell>
   );
 }
@@ -11,6 +11,7 @@ import { ThemeToggleCompact } from "@/components/ui/theme-toggle";
 import { WalletButton, WalletButtonCompact } from "@/components/wallet/WalletButton";
 import { useWallet } from "@/hooks/useWallet";
 import { usePointsBalance } from "@/hooks/usePointsBalance";
+import { formatPoints } from "@/lib/amounts";
 
 
 const navItems = [
@@ -30,11 +31,6 @@ export function Header() {
   const { data: pointsBalance } = usePointsBalance();
 
   // Format points for display
-  const formatPoints = (points: number) => {
-    if (points >= 1000) return `${(points / 1000).toFixed(1)}K`;
-    return points.toString();
-  };
-
   return (
     <header className="sticky top-0 z-50 border-b border-border bg-background/80 backdrop-blur-md supports-[backdrop-filter]:bg-background/60">
       <div className="container flex h-16 items-center justify-between">
@@ -106,7 +102,7 @@ export function Header() {
             >
               <Coins className="h-4 w-4 text-amber-500 flex-shrink-0" />
               <span className="font-semibold font-mono-numbers text-amber-600 dark:text-amber-400 tabular-nums leading-none">
-                {pointsBalance ? formatPoints(pointsBalance.balance) : "0"}
+                {pointsBalance ? formatPoints(pointsBalance.balance, { compact: true }) : "0"}
               </span>
             </Link>
           )}
@@ -203,7 +199,7 @@ export function Header() {
                 >
                   <Coins className="h-3.5 w-3.5 text-amber-500 flex-shrink-0" />
                   <span className="font-semibold font-mono-numbers text-amber-600 dark:text-amber-400">
-                    {pointsBalance ? formatPoints(pointsBalance.balance) : "0"} pts
+                    {pointsBalance ? formatPoints(pointsBalance.balance, { compact: true }) : "0"} pts
                   </span>
                 </Link>
               )}
@@ -0,0 +1,16 @@
+import { Providers } from "@/app/providers";
+import { Header } from "@/components/layout/Header";
+import { Footer } from "@/components/layout/Footer";
+
+// Providers and chrome for every page except embeds, which bring their own
+export function SiteShell({ children }: { children: React.ReactNode }) {
+  return (
+    <Providers>
+      <div className="min-h-screen bg-background flex flex-col relative z-0">
+        <Header />
+        <main className="flex-1 relative z-0">{children}</main>
+        <Footer />
+      </div>
+    </Providers>
+  );
+}
@@ -1,10 +1,11 @@
 "use client";
 
 import { cn } from "@/lib/utils";
-import { Brain, CheckCircle2, Loader2, Radio } from "lucide-react";
+import { Brain, CheckCircle2, Hourglass, Loader2, Radio } from "lucide-react";
+import type { MarketStatus } from "@/lib/calibr-types";
 
 interface AIPulseProps {
-    status: "active" | "resolving" | "resolved";
+    status: MarketStatus;
     className?: string;
 }
 
@@ -24,11 +25,20 @@ export function AIPulse({ status, className }: AIPulseProps) {
         );
     }
 
+    if (status === "expired") {
+        return (
+            <div className={cn("flex items-center gap-2 px-3 py-1 rounded-full bg-orange-500/10 border border-orange-500/20 text-orange-600 dark:text-orange-400 text-xs font-medium", className)}>
+                <Hourglass className="w-3 h-3" />
+                <span>Deadline Passed · Awaiting Lock</span>
+            </div>
+        );
+    }
+
     if (status === "resolving") {
         return (
             <div className={cn("flex items-center gap-2 px-3 py-1 rounded-full bg-amber-500/10 border border-amber-500/20 text-amber-600 dark:text-amber-400 text-xs font-medium animate-pulse", className)}>
                 <Brain className="w-3 h-3 animate-pulse" />
-                <span>AI Analyzing...</span>
+                <span>Locked · AI Analyzing...</span>
             </div>
         );
     }
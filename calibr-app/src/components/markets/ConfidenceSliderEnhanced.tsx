@@ -3,6 +3,7 @@
 import { useState, useCallback } from "react";
 import { Slider } from "@/components/ui/slider";
 import { cn } from "@/lib/utils";
+import { riskFromConfidence } from "@/lib/payout-preview";
 import { AlertTriangle, Shield, Flame, Info } from "lucide-react";
 import {
   Tooltip,
@@ -19,11 +20,6 @@ interface ConfidenceSliderEnhancedProps {
   disabled?: boolean;
 }
 
-// Calculate risk based on Calibr's formula
-function calculateRisk(confidence: number): number {
-  return Math.max(5, Math.round(100 * (confidence - 50) / 40));
-}
-
 // Get risk level info
 function getRiskLevel(confidence: number) {
   if (confidence <= 60) {
@@ -78,7 +74,7 @@ export function ConfidenceSliderEnhanced({
   disabled = false,
 }: ConfidenceSliderEnhancedProps) {
   const [isHovering, setIsHovering] = useState(false);
-  const risk = calculateRisk(value);
+  const risk = riskFromConfidence(value);
   const riskInfo = getRiskLevel(value);
   const RiskIcon = riskInfo.icon;
 
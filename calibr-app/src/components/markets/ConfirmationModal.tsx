@@ -8,9 +8,12 @@ import {
   DialogDescription,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { AlertTriangle, Loader2, CheckCircle2, ThumbsUp, ThumbsDown } from "lucide-react";
+import { AlertTriangle, Loader2, CheckCircle2, ThumbsUp, ThumbsDown, XCircle } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useRouter } from "next/navigation";
+import type { PayoutPreview } from "@/lib/payout-preview";
+import type { BalanceDelta, TransactionPreview } from "@/lib/transaction-preview";
+import { formatMist, mist } from "@/lib/amounts";
 
 interface ConfirmationModalProps {
   open: boolean;
@@ -20,10 +23,18 @@ interface ConfirmationModalProps {
   riskAmount: number;
   question: string;
   stakeAmount?: number;
+  preview?: PayoutPreview;
+  simulation?: TransactionPreview | null;
+  isSimulating?: boolean;
   onConfirm?: () => void;
   isLoading?: boolean;
 }
 
+function formatBalanceDelta(change: BalanceDelta) {
+  const text = change.symbol === "SUI" ? formatMist(mist(change.amount), 6) : change.amount.toString();
+  return `${change.amount > BigInt(0) ? "+" : ""}${text} ${change.symbol}`;
+}
+
 export function ConfirmationModal({
   open,
   onClose,
@@ -32,11 +43,16 @@ export function ConfirmationModal({
   riskAmount,
   question,
   stakeAmount = 100,
+  preview,
+  simulation,
+  isSimulating = false,
   onConfirm,
   isLoading = false,
 }: ConfirmationModalProps) {
   const router = useRouter();
   const protectedAmount = stakeAmount - riskAmount;
+  // A failed dry run means the chain would reject it, so don't let it reach the wallet
+  const simulationFailed = simulation?.success === false;
 
   const handleConfirm = () => {
     if (onConfirm) {
@@ -107,12 +123,106 @@ export function ConfirmationModal({
               <span className="text-muted-foreground">Risk (R)</span>
               <span className="font-semibold font-mono-numbers text-orange-500">{riskAmount} pts</span>
             </div>
-            <div className="flex justify-between items-center text-sm pt-2 border-t border-border">
-              <span className="text-muted-foreground">Protected if wrong</span>
+            {preview && (
+              <div className="flex justify-between items-center text-sm pt-2 border-t border-border">
+                <span className="text-muted-foreground">Payout if right</span>
+                <span className="font-semibold font-mono-numbers text-green-500">
+                  {preview.payoutIfRight} pts
+                  <span className="text-xs text-muted-foreground font-normal ml-1.5">{preview.multiplier.toFixed(2)}x</span>
+                </span>
+              </div>
+            )}
+            <div className={cn("flex justify-between items-center text-sm", !preview && "pt-2 border-t border-border")}>
+              <span className="text-muted-foreground">{preview ? "Payout if wrong" : "Protected if wrong"}</span>
               <span className="font-semibold font-mono-numbers text-green-500">{protectedAmount} pts</span>
             </div>
+            {preview && (
+              <p className="text-xs text-muted-foreground">
+                Estimated from the current pools; final payouts depend on everyone who enters before the market locks.
+              </p>
+            )}
           </div>
 
+          {preview?.opposingPoolEmpty && (
+            <div className="bg-amber-500/10 border border-amber-500/30 rounded-xl p-4 flex gap-3">
+              <AlertTriangle className="h-5 w-5 text-amber-600 dark:text-amber-400 flex-shrink-0 mt-0.5" />
+              <div className="text-sm">
+                <p className="font-medium text-amber-700 dark:text-amber-300 mb-1">
+                  No one on the other side yet
+                </p>
+                <p className="text-amber-600/80 dark:text-amber-400/80 text-xs leading-relaxed">
+                  If the market resolved now, being right would only return your {stakeAmount} pt stake.
+                  You profit only once others predict {side === "yes" ? "NO" : "YES"}.
+                </p>
+              </div>
+            </div>
+          )}
+
+          {/* Dry run */}
+          {isSimulating && (
+            <div className="rounded-xl border border-border p-4 flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Simulating transaction...
+            </div>
+          )}
+
+          {!isSimulating && simulation?.success && (
+            <div className="rounded-xl border border-green-500/30 bg-green-500/5 p-4 space-y-2 text-sm">
+              <p className="flex items-center gap-2 font-medium text-green-600 dark:text-green-400">
+                <CheckCircle2 className="h-4 w-4" />
+                Simulation passed
+              </p>
+              {simulation.gas && (
+                <div className="flex justify-between text-xs">
+                  <span className="text-muted-foreground">Estimated gas</span>
+                  <span className="font-mono-numbers">{formatMist(simulation.gas.total, 6)} SUI</span>
+                </div>
+              )}
+              {simulation.balanceChanges.map(change => (
+                <div key={change.coinType} className="flex justify-between text-xs">
+                  <span className="text-muted-foreground">Balance change</span>
+                  <span className="font-mono-numbers">{formatBalanceDelta(change)}</span>
+                </div>
+              ))}
+              {simulation.createdObjects.length > 0 && (
+                <div className="flex justify-between gap-4 text-xs">
+                  <span className="text-muted-foreground">Creates</span>
+                  <span className="font-mono text-right">
+                    {simulation.createdObjects.map(o => o.typeName).join(", ")}
+                  </span>
+                </div>
+              )}
+              {simulation.events.length > 0 && (
+                <div className="flex flex-wrap gap-1.5 pt-1">
+                  {simulation.events.map((name, i) => (
+                    <span key={i} className="text-[10px] px-1.5 py-0.5 rounded bg-muted text-muted-foreground font-mono">
+                      {name}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {!isSimulating && simulationFailed && (
+            <div className="rounded-xl border border-red-500/30 bg-red-500/10 p-4 flex gap-3">
+              <XCircle className="h-5 w-5 text-red-500 flex-shrink-0 mt-0.5" />
+              <div className="text-sm">
+                <p className="font-medium text-red-600 dark:text-red-400 mb-1">
+                  This transaction would fail
+                </p>
+                <p className="text-red-600/80 dark:text-red-400/80 text-xs leading-relaxed">
+                  {simulation.failure?.message}
+                </p>
+                {simulation.failure?.abortCode !== null && simulation.failure?.abortCode !== undefined && (
+                  <p className="text-[10px] text-muted-foreground font-mono mt-1">
+                    Abort {simulation.failure.abortCode} in {simulation.failure.module}
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+
           {/* Warning */}
           <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-xl p-4 flex gap-3">
             <AlertTriangle className="h-5 w-5 text-yellow-600 dark:text-yellow-400 flex-shrink-0 mt-0.5" />
@@ -140,13 +250,15 @@ export function ConfirmationModal({
             <Button
               onClick={handleConfirm}
               className="flex-1 gap-2"
-              disabled={isLoading}
+              disabled={isLoading || isSimulating || simulationFailed}
             >
               {isLoading ? (
                 <>
                   <Loader2 className="h-4 w-4 animate-spin" />
                   Submitting...
                 </>
+              ) : simulationFailed ? (
+                "Can't Submit"
               ) : (
                 "Confirm Prediction"
               )}
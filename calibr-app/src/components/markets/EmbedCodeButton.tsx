@@ -0,0 +1,95 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { CheckCircle2, Code2, Copy } from "lucide-react";
+import { toast } from "sonner";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { EMBED_HEIGHT, EMBED_THEMES, EMBED_WIDTH, buildEmbedSnippet, buildEmbedUrl, type EmbedTheme } from "@/lib/embed";
+import { cn } from "@/lib/utils";
+
+export function EmbedCodeButton({ marketId }: { marketId: string }) {
+  const [open, setOpen] = useState(false);
+  const [theme, setTheme] = useState<EmbedTheme>("light");
+  const [copied, setCopied] = useState(false);
+  // The snippet points at whichever deployment is serving this page
+  const [origin, setOrigin] = useState("");
+
+  useEffect(() => {
+    setOrigin(window.location.origin);
+  }, []);
+
+  const snippet = buildEmbedSnippet(origin, marketId, theme);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(snippet);
+    setCopied(true);
+    toast.success("Embed code copied");
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium rounded-md border border-border text-muted-foreground hover:text-foreground hover:bg-secondary transition-colors"
+      >
+        <Code2 className="h-4 w-4" />
+        Embed
+      </button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Code2 className="h-5 w-5 text-primary" />
+              Embed this market
+            </DialogTitle>
+            <DialogDescription>
+              Paste the snippet into any page to show this market&apos;s live probability.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="flex gap-2">
+              {EMBED_THEMES.map(t => (
+                <button
+                  key={t}
+                  type="button"
+                  onClick={() => setTheme(t)}
+                  className={cn(
+                    "px-3 py-1.5 text-sm font-medium rounded-md border capitalize transition-colors",
+                    theme === t ? "border-primary text-primary bg-primary/10" : "border-border text-muted-foreground hover:text-foreground"
+                  )}
+                >
+                  {t}
+                </button>
+              ))}
+            </div>
+
+            {origin && (
+              <iframe
+                key={theme}
+                src={buildEmbedUrl(origin, marketId, theme)}
+                width={EMBED_WIDTH}
+                height={EMBED_HEIGHT}
+                className="max-w-full rounded-xl border-0 mx-auto block"
+                title="Embed preview"
+              />
+            )}
+
+            <pre className="text-xs font-mono bg-muted rounded-lg p-3 whitespace-pre-wrap break-all select-all">
+              {snippet}
+            </pre>
+
+            <Button onClick={handleCopy} className="w-full gap-2" disabled={!origin}>
+              {copied ? <CheckCircle2 className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              {copied ? "Copied" : "Copy embed code"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -1,8 +1,10 @@
 import Link from "next/link";
 import { cn } from "@/lib/utils";
 import { format } from "date-fns";
-import { ChevronRight, Clock, TrendingUp, Users, Brain } from "lucide-react";
+import { ChevronRight, Clock, TrendingUp, Users, Brain, Scale } from "lucide-react";
 import { CountdownTimer } from "@/components/ui/CountdownTimer";
+import { WatchButton } from "@/components/markets/WatchButton";
+import type { MarketStatus } from "@/lib/calibr-types";
 
 interface MarketCardProps {
   id: string;
@@ -11,10 +13,12 @@ interface MarketCardProps {
   yesPercentage: number;
   volume: number;
   isTrending?: boolean;
-  resolveDate?: string;
+  deadline?: number;
   participants?: number;
-  status?: "active" | "resolving" | "resolved";
+  status?: MarketStatus;
   isAiResolved?: boolean;
+  probabilityChange?: number; // YES points moved since the market was watched
+  consensus?: number; // Reputation-weighted YES probability
 }
 
 export function MarketCard({
@@ -24,10 +28,12 @@ export function MarketCard({
   yesPercentage,
   volume,
   isTrending,
-  resolveDate,
+  deadline,
   participants,
   status = "active",
   isAiResolved = true, // Default to true for hackathon to show off AI
+  probabilityChange,
+  consensus,
 }: MarketCardProps) {
   const noPercentage = 100 - yesPercentage;
 
@@ -82,9 +88,12 @@ export function MarketCard({
                 </span>
               )}
             </div>
-            <div className="flex items-center gap-1 text-xs text-muted-foreground font-mono-numbers whitespace-nowrap">
-              <TrendingUp className="h-3.5 w-3.5" />
-              {formatVolume(volume)}
+            <div className="flex items-center gap-2">
+              <div className="flex items-center gap-1 text-xs text-muted-foreground font-mono-numbers whitespace-nowrap">
+                <TrendingUp className="h-3.5 w-3.5" />
+                {formatVolume(volume)}
+              </div>
+              <WatchButton marketId={id} yesPercentage={yesPercentage} className="relative z-20" />
             </div>
           </div>
 
@@ -130,19 +139,42 @@ export function MarketCard({
               </div>
             </div>
 
+            {consensus !== undefined && (
+              <div
+                className="flex items-center gap-1.5 text-xs text-muted-foreground"
+                title="YES probability pooled from every prediction, weighted by each predictor's track record"
+              >
+                <Scale className="h-3.5 w-3.5" />
+                Consensus
+                <span className="font-mono-numbers font-medium text-foreground">{consensus}%</span>
+                Yes
+              </div>
+            )}
+
             {/* Footer with enhanced info */}
             <div className="pt-3 border-t border-border flex items-center justify-between">
               <div className="flex items-center gap-3 text-xs text-muted-foreground">
-                {resolveDate && (
+                {deadline > 0 && (
                   <span className="flex items-center gap-1">
-                    {status === "resolved" || status === "resolving" ? (
+                    {status === "resolved" ? (
                       <span className="flex items-center gap-1 text-red-500">
                         <Clock className="h-3.5 w-3.5" />
                         Ended
                       </span>
                     ) : (
-                      <CountdownTimer targetDate={resolveDate} showIcon={true} />
+                      <CountdownTimer targetDate={deadline} showIcon={true} status={status} />
+                    )}
+                  </span>
+                )}
+                {probabilityChange !== undefined && (
+                  <span
+                    className={cn(
+                      "font-mono-numbers",
+                      probabilityChange > 0 ? "text-green-500" : probabilityChange < 0 ? "text-red-500" : ""
                     )}
+                    title="YES probability change since you started watching"
+                  >
+                    {probabilityChange > 0 ? "▲" : probabilityChange < 0 ? "▼" : "±"}{Math.abs(probabilityChange)} pts since watched
                   </span>
                 )}
                 {participants && (
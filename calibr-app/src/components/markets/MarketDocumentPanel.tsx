@@ -0,0 +1,127 @@
+"use client";
+
+import { AlertTriangle, ExternalLink, FileText, ShieldCheck } from "lucide-react";
+import { Skeleton } from "@/components/ui/skeleton";
+import { InfoTooltip } from "@/components/ui/InfoTooltip";
+import { useMarketDocument } from "@/hooks/useMarketDocument";
+import { DEFAULT_RESOLUTION_CRITERIA } from "@/lib/market-documents";
+
+interface MarketDocumentPanelProps {
+  documentHash: string | null;
+}
+
+function shortHash(hash: string) {
+  return `${hash.slice(0, 8)}…${hash.slice(-8)}`;
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <h4 className="text-xs text-muted-foreground uppercase tracking-wider font-semibold mb-2">{title}</h4>
+      {children}
+    </div>
+  );
+}
+
+export function MarketDocumentPanel({ documentHash }: MarketDocumentPanelProps) {
+  const { data: loaded, isLoading } = useMarketDocument(documentHash);
+  const document = loaded?.document;
+
+  return (
+    <div className="bg-card border border-border rounded-xl p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <FileText className="h-4 w-4 text-muted-foreground" />
+        <h3 className="text-sm font-medium text-muted-foreground">
+          Resolution Details
+        </h3>
+        {loaded?.status === "verified" && (
+          <span className="ml-auto flex items-center gap-1 text-xs text-green-600 dark:text-green-500">
+            <ShieldCheck className="h-3.5 w-3.5" />
+            Verified
+            <InfoTooltip
+              title="Committed on chain"
+              content={`This document hashes to ${shortHash(loaded.hash)}, the SHA-256 committed in the market's question when it was created. It can't be changed without the hash failing to match.`}
+            />
+          </span>
+        )}
+      </div>
+
+      {!documentHash ? (
+        <p className="text-sm">{DEFAULT_RESOLUTION_CRITERIA}</p>
+      ) : isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-4 w-full" />
+          <Skeleton className="h-4 w-5/6" />
+          <Skeleton className="h-4 w-2/3" />
+        </div>
+      ) : !document ? (
+        <div className="flex gap-3 p-3 rounded-lg bg-destructive/10 text-sm">
+          <AlertTriangle className="h-4 w-4 text-destructive shrink-0 mt-0.5" />
+          <div className="space-y-1">
+            <p className="font-medium">
+              {loaded?.status === "mismatch"
+                ? "The stored document doesn't match the hash committed on chain, so it isn't shown."
+                : "This market's document couldn't be loaded."}
+            </p>
+            <p className="text-muted-foreground font-mono text-xs break-all">sha256:{documentHash}</p>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-5 text-sm">
+          {document.imageUrl && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              src={document.imageUrl}
+              alt=""
+              className="w-full max-h-64 object-cover rounded-lg border border-border"
+            />
+          )}
+
+          {document.description && (
+            <p className="leading-relaxed whitespace-pre-line">{document.description}</p>
+          )}
+
+          <Section title="Resolution Criteria">
+            <p className="leading-relaxed whitespace-pre-line">
+              {document.resolutionCriteria || DEFAULT_RESOLUTION_CRITERIA}
+            </p>
+          </Section>
+
+          {document.edgeCases.length > 0 && (
+            <Section title="Edge Cases">
+              <ul className="list-disc pl-5 space-y-1">
+                {document.edgeCases.map((edgeCase, i) => (
+                  <li key={i}>{edgeCase}</li>
+                ))}
+              </ul>
+            </Section>
+          )}
+
+          {document.sources.length > 0 && (
+            <Section title="Sources">
+              <ul className="space-y-1">
+                {document.sources.map((source) => (
+                  <li key={source.url}>
+                    <a
+                      href={source.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1.5 text-primary/80 hover:text-primary transition-colors"
+                    >
+                      <ExternalLink className="h-3.5 w-3.5" />
+                      {source.label}
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            </Section>
+          )}
+
+          <p className="pt-3 border-t border-border text-xs text-muted-foreground font-mono break-all">
+            sha256:{loaded.hash}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
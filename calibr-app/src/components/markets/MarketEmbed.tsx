@@ -0,0 +1,101 @@
+"use client";
+
+import Image from "next/image";
+import { ArrowUpRight, Loader2, Users } from "lucide-react";
+import { CountdownTimer } from "@/components/ui/CountdownTimer";
+import { useMarket } from "@/hooks/useMarket";
+import { useMarketStatus } from "@/hooks/useMarketStatus";
+import { cn } from "@/lib/utils";
+
+/**
+ * Self-contained market widget for /embed/market/[id]. Links open the full
+ * market in a new tab, since the widget lives inside someone else's page.
+ */
+export function MarketEmbed({ marketId }: { marketId: string }) {
+  const isValidId = marketId.startsWith("0x");
+  const { data: market, isLoading } = useMarket(isValidId ? marketId : undefined);
+  const status = useMarketStatus(market);
+
+  if (isLoading) {
+    return (
+      <div className="h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!market) {
+    return (
+      <div className="h-screen flex items-center justify-center bg-background text-sm text-muted-foreground">
+        Market not found.
+      </div>
+    );
+  }
+
+  const participants = market.yesCount + market.noCount;
+
+  return (
+    <div className="h-screen flex flex-col gap-3 p-4 bg-background text-foreground border border-border rounded-xl overflow-hidden">
+      <div className="flex items-center justify-between gap-2 text-xs">
+        <a
+          href="/"
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-1.5 font-semibold hover:text-primary transition-colors"
+        >
+          <Image src="/calibr_logo.png" alt="Calibr" width={16} height={16} className="rounded" />
+          Calibr
+        </a>
+        <span className="px-2 py-0.5 rounded-md bg-secondary text-secondary-foreground font-medium">
+          {market.category}
+        </span>
+      </div>
+
+      <h1 className="text-base font-medium leading-snug line-clamp-3">{market.question}</h1>
+
+      <div className="mt-auto space-y-2">
+        <div className="flex items-baseline justify-between">
+          <div className="flex items-baseline gap-1.5">
+            <span className={cn(
+              "text-2xl font-bold font-mono-numbers",
+              market.yesPercentage >= 50 ? "text-green-600 dark:text-green-500" : "text-foreground"
+            )}>
+              {market.yesPercentage}%
+            </span>
+            <span className="text-sm text-muted-foreground">Yes</span>
+          </div>
+          <span className="text-sm text-muted-foreground font-mono-numbers">{100 - market.yesPercentage}% No</span>
+        </div>
+        <div className="h-2 bg-muted rounded-full overflow-hidden">
+          <div
+            className="h-full rounded-full bg-gradient-to-r from-green-500 to-green-400"
+            style={{ width: `${market.yesPercentage}%` }}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-3 pt-3 border-t border-border text-xs text-muted-foreground">
+        <div className="flex items-center gap-3">
+          <span className="flex items-center gap-1">
+            <Users className="h-3.5 w-3.5" />
+            {participants}
+          </span>
+          {status === "resolved" ? (
+            <span>Resolved</span>
+          ) : market.deadline > 0 && (
+            <CountdownTimer targetDate={market.deadline} showIcon={false} status={status} />
+          )}
+        </div>
+        <a
+          href={`/market/${market.id}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-1 px-3 py-1.5 rounded-md bg-primary text-primary-foreground font-medium hover:bg-primary/90 transition-colors"
+        >
+          Predict on Calibr
+          <ArrowUpRight className="h-3.5 w-3.5" />
+        </a>
+      </div>
+    </div>
+  );
+}
@@ -1,3 +1,9 @@
+"use client";
+
+import { useState } from "react";
+import { InfoTooltip } from "@/components/ui/InfoTooltip";
+import { EXTREMIZATION_FACTOR, type ConsensusForecast } from "@/lib/consensus";
+import type { MarketStatus } from "@/lib/calibr-types";
 import { cn } from "@/lib/utils";
 
 interface MarketInsightPanelProps {
@@ -6,7 +12,8 @@ interface MarketInsightPanelProps {
   resolveDate: string;
   daysRemaining: number;
   hoursRemaining: number;
-  status: "active" | "resolving" | "resolved";
+  status: MarketStatus;
+  consensus?: ConsensusForecast | null;
 }
 
 export function MarketInsightPanel({
@@ -14,8 +21,13 @@ export function MarketInsightPanel({
   daysRemaining,
   hoursRemaining,
   status,
+  consensus,
 }: MarketInsightPanelProps) {
+  const [extremized, setExtremized] = useState(false);
   const noPercentage = 100 - yesPercentage;
+  const consensusPercentage = consensus
+    ? (extremized ? consensus.extremizedProbability : consensus.yesProbability)
+    : null;
 
   const getSentiment = () => {
     if (yesPercentage >= 70) return { label: "Strongly Yes", color: "text-primary" };
@@ -45,18 +57,60 @@ export function MarketInsightPanel({
             </span>
           </div>
         </div>
-        <div className="confidence-bar-horizontal">
-          <div
-            className="confidence-bar-yes"
-            style={{ width: `${yesPercentage}%` }}
-          />
-          <div
-            className="confidence-bar-no"
-            style={{ width: `${noPercentage}%` }}
-          />
+        <div className="relative">
+          <div className="confidence-bar-horizontal">
+            <div
+              className="confidence-bar-yes"
+              style={{ width: `${yesPercentage}%` }}
+            />
+            <div
+              className="confidence-bar-no"
+              style={{ width: `${noPercentage}%` }}
+            />
+          </div>
+          {consensusPercentage !== null && (
+            <div
+              className="absolute -top-1 -bottom-1 w-0.5 bg-foreground rounded-full"
+              style={{ left: `${consensusPercentage}%` }}
+              title={`Consensus ${consensusPercentage}%`}
+            />
+          )}
         </div>
       </div>
 
+      {/* Reputation-weighted Consensus */}
+      {consensus && (
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <div className="flex items-center gap-1 mb-1">
+              <span className="text-xs text-muted-foreground">Consensus Forecast</span>
+              <InfoTooltip
+                title="Consensus Forecast"
+                content={`The percentages above split the points at risk, so every point counts the same whoever stakes it. The consensus pools each predictor's stated confidence in log-odds, weighting them by their Brier score track record; wallets with few settled predictions count as a coin-flipper. Extremized pushes the pool ${EXTREMIZATION_FACTOR}x further from 50%, since predictors often share the same information.`}
+              />
+            </div>
+            <div className="flex items-baseline gap-2">
+              <span className="text-xl font-bold font-mono-numbers">{consensusPercentage}%</span>
+              <span className="text-sm text-muted-foreground">Yes</span>
+            </div>
+            <span className="text-xs text-muted-foreground">
+              {consensus.forecasters} predictors · worth {consensus.effectiveForecasters} equal votes
+            </span>
+          </div>
+          <button
+            type="button"
+            onClick={() => setExtremized(!extremized)}
+            className={cn(
+              "px-2.5 py-1 text-xs font-medium rounded-md border transition-colors",
+              extremized ? "border-primary text-primary bg-primary/10" : "border-border text-muted-foreground hover:text-foreground"
+            )}
+            aria-pressed={extremized}
+          >
+            Extremized
+          </button>
+        </div>
+      )}
+
       {/* Stats Row */}
       <div className="grid grid-cols-2 gap-4 pt-4 border-t border-border">
         <div>
@@ -70,7 +124,9 @@ export function MarketInsightPanel({
           {status === "resolved" ? (
             <span className="text-sm font-medium text-muted-foreground">Resolved</span>
           ) : status === "resolving" ? (
-            <span className="text-sm font-medium text-yellow-600">Resolving soon</span>
+            <span className="text-sm font-medium text-yellow-600">Awaiting resolution</span>
+          ) : status === "expired" ? (
+            <span className="text-sm font-medium text-orange-600">Awaiting lock</span>
           ) : (
             <span className="text-sm font-medium font-mono-numbers">
               {daysRemaining}d {hoursRemaining}h
@@ -0,0 +1,221 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import { Loader2, Users } from "lucide-react";
+import { InfoTooltip } from "@/components/ui/InfoTooltip";
+import { useMarketParticipants } from "@/hooks/useMarketParticipants";
+import { TOP_RISK_COUNT } from "@/lib/market-participants";
+import type { Market, UserTier } from "@/lib/calibr-types";
+import { cn } from "@/lib/utils";
+
+const tierStyles: Record<UserTier, { bar: string; text: string; bg: string }> = {
+  Elite: { bar: "bg-purple-500", text: "text-purple-500", bg: "bg-purple-500/10" },
+  Proven: { bar: "bg-blue-500", text: "text-blue-500", bg: "bg-blue-500/10" },
+  New: { bar: "bg-gray-400", text: "text-gray-500", bg: "bg-gray-500/10" },
+};
+
+// Entries shown before "Show all"
+const TIMELINE_PREVIEW = 8;
+
+function shortAddress(address: string) {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+function SideBadge({ side }: { side: boolean }) {
+  return (
+    <span className={cn(
+      "px-1.5 py-0.5 rounded text-xs font-bold",
+      side ? "bg-green-500/10 text-green-600 dark:text-green-400" : "bg-red-500/10 text-red-600 dark:text-red-400"
+    )}>
+      {side ? "YES" : "NO"}
+    </span>
+  );
+}
+
+function SectionTitle({ children }: { children: React.ReactNode }) {
+  return (
+    <h4 className="text-xs text-muted-foreground uppercase tracking-wider font-semibold mb-3">{children}</h4>
+  );
+}
+
+export function MarketParticipantsPanel({ market }: { market: Market }) {
+  const { summary, entries, isLoading } = useMarketParticipants(market);
+  const [showAllEntries, setShowAllEntries] = useState(false);
+
+  const maxBucket = summary ? Math.max(1, ...summary.histogram.map(b => Math.max(b.yes, b.no))) : 1;
+  const timeline = [...entries].reverse();
+  const visibleTimeline = showAllEntries ? timeline : timeline.slice(0, TIMELINE_PREVIEW);
+
+  return (
+    <div className="bg-card border border-border rounded-xl p-6">
+      <div className="flex items-center justify-between gap-4 mb-6 flex-wrap">
+        <div className="flex items-center gap-2">
+          <Users className="h-4 w-4 text-muted-foreground" />
+          <h3 className="text-sm font-medium text-muted-foreground">Participants</h3>
+        </div>
+        {summary && summary.participants > 0 && (
+          <div className="flex items-center gap-1 text-xs text-muted-foreground">
+            <span>
+              {summary.participants} predictors · top {TOP_RISK_COUNT} hold{" "}
+              <span className={cn("font-semibold font-mono-numbers", summary.topRiskShare >= 50 ? "text-amber-600" : "text-foreground")}>
+                {summary.topRiskShare}%
+              </span>{" "}
+              of risk
+            </span>
+            <InfoTooltip
+              title="Risk concentration"
+              content={`Share of all points at risk placed by the ${TOP_RISK_COUNT} largest entries. A high share means a few predictors are driving the probability; a low one means broad agreement.`}
+            />
+          </div>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="h-40 flex items-center justify-center">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : !summary || summary.participants === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">No predictions yet.</p>
+      ) : (
+        <div className="space-y-8">
+          <div className="grid gap-8 md:grid-cols-2">
+            {/* Confidence Histogram */}
+            <div>
+              <SectionTitle>Declared Confidence</SectionTitle>
+              <div className="flex justify-between text-xs text-muted-foreground mb-2">
+                <span className="text-green-600 dark:text-green-500 font-medium">YES</span>
+                <span className="text-red-600 dark:text-red-500 font-medium">NO</span>
+              </div>
+              <div className="space-y-1.5">
+                {summary.histogram.map(bucket => (
+                  <div key={bucket.from} className="flex items-center gap-2 text-xs">
+                    <div className="flex-1 flex justify-end items-center gap-1.5">
+                      {bucket.yes > 0 && <span className="font-mono-numbers text-muted-foreground">{bucket.yes}</span>}
+                      <div
+                        className="h-3 rounded-l bg-green-500/80"
+                        style={{ width: `${(bucket.yes / maxBucket) * 100}%` }}
+                      />
+                    </div>
+                    <span className="w-14 text-center font-mono-numbers text-muted-foreground shrink-0">
+                      {bucket.from}–{bucket.to}%
+                    </span>
+                    <div className="flex-1 flex items-center gap-1.5">
+                      <div
+                        className="h-3 rounded-r bg-red-500/80"
+                        style={{ width: `${(bucket.no / maxBucket) * 100}%` }}
+                      />
+                      {bucket.no > 0 && <span className="font-mono-numbers text-muted-foreground">{bucket.no}</span>}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Tier Mix */}
+            <div>
+              <SectionTitle>Tier Mix</SectionTitle>
+              <div className="h-3 flex rounded-full overflow-hidden bg-muted mb-4">
+                {summary.tiers.map(share => (
+                  <div
+                    key={share.tier}
+                    className={tierStyles[share.tier].bar}
+                    style={{ width: `${((share.yes + share.no) / summary.participants) * 100}%` }}
+                    title={`${share.tier}: ${share.yes + share.no}`}
+                  />
+                ))}
+              </div>
+              <div className="space-y-2">
+                {[...summary.tiers].reverse().map(share => (
+                  <div key={share.tier} className="flex items-center justify-between text-sm">
+                    <span className={cn("px-2 py-0.5 rounded text-xs font-medium", tierStyles[share.tier].bg, tierStyles[share.tier].text)}>
+                      {share.tier}
+                    </span>
+                    <span className="text-xs text-muted-foreground font-mono-numbers">
+                      <span className="text-green-600 dark:text-green-500">{share.yes} YES</span>
+                      {" · "}
+                      <span className="text-red-600 dark:text-red-500">{share.no} NO</span>
+                      {" · "}
+                      {share.risk.toLocaleString()} pts at risk
+                    </span>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground mt-3">
+                Tier is the confidence cap each predictor entered with.
+              </p>
+            </div>
+          </div>
+
+          {/* Top Predictors */}
+          <div>
+            <SectionTitle>Top Predictors by Reputation</SectionTitle>
+            <div className="divide-y divide-border">
+              {summary.topPredictors.map(predictor => (
+                <div key={predictor.address} className="flex items-center justify-between gap-3 py-2 text-sm">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Link
+                      href={`/profile/${predictor.address}`}
+                      className="font-mono text-xs hover:text-primary transition-colors"
+                    >
+                      {shortAddress(predictor.address)}
+                    </Link>
+                    <span className={cn("px-1.5 py-0.5 rounded text-xs", tierStyles[predictor.tier].bg, tierStyles[predictor.tier].text)}>
+                      {predictor.tier}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-3 text-xs shrink-0">
+                    <SideBadge side={predictor.side} />
+                    <span className="font-mono-numbers text-muted-foreground">{predictor.confidence}%</span>
+                    <span className="font-mono-numbers font-semibold w-12 text-right">
+                      {predictor.reputation ?? "—"}
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Entry Timeline */}
+          <div>
+            <SectionTitle>Entry Timeline</SectionTitle>
+            <ol className="relative border-l border-border ml-1.5 space-y-3">
+              {visibleTimeline.map(entry => (
+                <li key={entry.predictionId} className="pl-4 relative">
+                  <span className={cn(
+                    "absolute -left-[5px] top-1.5 w-2 h-2 rounded-full",
+                    entry.side ? "bg-green-500" : "bg-red-500"
+                  )} />
+                  <div className="flex items-center justify-between gap-3 text-xs">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <SideBadge side={entry.side} />
+                      <span className="font-mono-numbers">{entry.confidence}%</span>
+                      <Link
+                        href={`/profile/${entry.user}`}
+                        className="font-mono text-muted-foreground hover:text-primary transition-colors truncate"
+                      >
+                        {shortAddress(entry.user)}
+                      </Link>
+                    </div>
+                    <span className="text-muted-foreground shrink-0">
+                      {entry.timestampMs > 0 ? format(entry.timestampMs, "MMM d, HH:mm") : "—"}
+                    </span>
+                  </div>
+                </li>
+              ))}
+            </ol>
+            {timeline.length > TIMELINE_PREVIEW && (
+              <button
+                onClick={() => setShowAllEntries(!showAllEntries)}
+                className="mt-3 text-xs text-primary hover:underline"
+              >
+                {showAllEntries ? "Show fewer" : `Show all ${timeline.length} entries`}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
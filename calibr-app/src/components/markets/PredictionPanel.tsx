@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useMemo } from "react";
+import { useState, useMemo, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { ConfidenceSliderEnhanced } from "./ConfidenceSliderEnhanced";
 import { ConfirmationModal } from "./ConfirmationModal";
@@ -8,11 +8,16 @@ import { InfoTooltip } from "@/components/ui/InfoTooltip";
 import { SharePredictionModal } from "./SharePredictionModal";
 import { AlreadyPredictedModal } from "./AlreadyPredictedModal";
 import { cn } from "@/lib/utils";
-import { ThumbsUp, ThumbsDown, Sparkles, AlertCircle, UserPlus, Wallet, Coins, CheckCircle2, Share2 } from "lucide-react";
+import { ThumbsUp, ThumbsDown, Sparkles, AlertCircle, AlertTriangle, UserPlus, Wallet, Coins, CheckCircle2, Share2, Hourglass } from "lucide-react";
 import { toast } from "sonner";
 import { useWalletContext } from "@/contexts/WalletContext";
 import { buildPlacePredictionWithPointsTx } from "@/lib/points-transactions";
-import { getErrorMessage } from "@/lib/calibr-types";
+import { formatPoints, points } from "@/lib/amounts";
+import type { MarketStatus } from "@/lib/calibr-types";
+import { decodeEvents } from "@/lib/calibr-events";
+import { previewPayout, riskFromConfidence, type PoolTotals } from "@/lib/payout-preview";
+import { decodeExecutionError, type TransactionPreview } from "@/lib/transaction-preview";
+import { getSuiRpcClient } from "@/lib/sui-rpc";
 import { usePointsBalance } from "@/hooks/usePointsBalance";
 import { useUserPredictions, type UserPrediction } from "@/hooks/useUserPredictions";
 import { triggerConfetti } from "@/lib/confetti";
@@ -22,15 +27,27 @@ import { HoldToConfirmButton } from "@/components/ui/HoldToConfirmButton";
 interface PredictionPanelProps {
   marketId: string;
   question: string;
+  status?: MarketStatus;
+  pools: PoolTotals;
   onPredictionSuccess?: () => void;
 }
 
-// Calculate risk based on Calibr's formula
-function calculateRisk(confidence: number): number {
-  return Math.max(5, Math.round(100 * (confidence - 50) / 40));
+// Optimistic predictions carry a placeholder ID until the real one is found
+const PENDING_PREFIX = "pending-";
+
+// The placement's PredictionPlaced event carries the new object ID; the
+// fullnode may take a moment to index it
+async function findPlacedPredictionId(digest: string): Promise<string | null> {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const events = await getSuiRpcClient().queryAllEvents({ Transaction: digest }).catch(() => []);
+    const placed = decodeEvents(events, "PredictionPlaced");
+    if (placed.length > 0) return placed[0].data.predictionId;
+    await new Promise(resolve => setTimeout(resolve, 1000));
+  }
+  return null;
 }
 
-export function PredictionPanel({ marketId, question, onPredictionSuccess }: PredictionPanelProps) {
+export function PredictionPanel({ marketId, question, status = "active", pools, onPredictionSuccess }: PredictionPanelProps) {
   const {
     isConnected,
     hasProfile,
@@ -38,6 +55,7 @@ export function PredictionPanel({ marketId, question, onPredictionSuccess }: Pre
     maxConfidence,
     createProfile,
     signAndExecuteTransaction,
+    previewTransaction,
     refreshProfile,
   } = useWalletContext();
 
@@ -63,12 +81,19 @@ export function PredictionPanel({ marketId, question, onPredictionSuccess }: Pre
   const [showAlreadyPredicted, setShowAlreadyPredicted] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isCreatingProfile, setIsCreatingProfile] = useState(false);
+  const [simulation, setSimulation] = useState<TransactionPreview | null>(null);
+  const [isSimulating, setIsSimulating] = useState(false);
+  // Only the latest review's dry run may update the modal
+  const simulationRun = useRef(0);
 
   // Fixed stake of 100 (as per Calibr protocol)
   const stake = 100;
-  const risk = calculateRisk(confidence);
-  const potentialLoss = risk;
-  const protectedAmount = stake - risk;
+  const risk = riskFromConfidence(confidence);
+  // Settlement if the market resolved on today's pools
+  const preview = previewPayout(selectedSide ?? "yes", risk, stake, pools);
+
+  // Submission closes at the deadline, though the chain accepts predictions until the oracle locks the market
+  const isOpen = status === "active";
 
   const handleSideSelect = (side: "yes" | "no") => {
     setSelectedSide(side);
@@ -78,12 +103,45 @@ export function PredictionPanel({ marketId, question, onPredictionSuccess }: Pre
     });
   };
 
-  const handleReview = () => {
+  const buildPredictionTx = () => {
+    if (!userProfile?.id || !pointsBalance?.id || !selectedSide) return null;
+    return buildPlacePredictionWithPointsTx(
+      userProfile.id,
+      marketId,
+      pointsBalance.id,
+      selectedSide === "yes",
+      confidence
+    );
+  };
+
+  const handleReview = async () => {
+    if (!isOpen) {
+      toast.error("This market is no longer accepting predictions");
+      return;
+    }
     if (!selectedSide) {
       toast.error("Please select YES or NO first");
       return;
     }
     setShowConfirmation(true);
+
+    // Dry-run the exact transaction so the modal can show its effects (or why it would fail)
+    const tx = buildPredictionTx();
+    const run = ++simulationRun.current;
+    setSimulation(null);
+    if (!tx) return;
+    setIsSimulating(true);
+    const result = await previewTransaction(tx);
+    if (run !== simulationRun.current) return;
+    setSimulation(result);
+    setIsSimulating(false);
+  };
+
+  const handleCloseConfirmation = () => {
+    simulationRun.current++;
+    setShowConfirmation(false);
+    setIsSimulating(false);
+    setSimulation(null);
   };
 
   const handleCreateProfile = async () => {
@@ -109,6 +167,11 @@ export function PredictionPanel({ marketId, question, onPredictionSuccess }: Pre
   };
 
   const handleConfirm = async () => {
+    if (!isOpen) {
+      toast.error("This market is no longer accepting predictions");
+      return;
+    }
+
     if (!userProfile?.id || !selectedSide) {
       toast.error("Missing profile or selection");
       return;
@@ -121,9 +184,9 @@ export function PredictionPanel({ marketId, question, onPredictionSuccess }: Pre
       return;
     }
 
-    if (pointsBalance.balance < stake) {
+    if (pointsBalance.balance < points(stake)) {
       toast.error("Insufficient points", {
-        description: `You have ${pointsBalance.balance} points, need ${stake}`,
+        description: `You have ${formatPoints(pointsBalance.balance)} points, need ${stake}`,
       });
       return;
     }
@@ -132,15 +195,9 @@ export function PredictionPanel({ marketId, question, onPredictionSuccess }: Pre
 
     try {
       // Build the transaction with points balance
-      const tx = buildPlacePredictionWithPointsTx(
-        userProfile.id,
-        marketId,
-        pointsBalance.id,
-        selectedSide === "yes",
-        confidence
-      );
+      const tx = buildPredictionTx()!;
 
-      // Sign and execute
+      // Sign and execute (dry-run again first, in case the market moved since review)
       const result = await signAndExecuteTransaction(tx);
 
       if (result) {
@@ -155,7 +212,7 @@ export function PredictionPanel({ marketId, question, onPredictionSuccess }: Pre
         // 1. Optimistic Update: Set local prediction immediately
         // This ensures the UI updates to "Already Predicted" instantly without waiting for indexing
         setLocalPrediction({
-          predictionId: "pending-" + Date.now(),
+          predictionId: PENDING_PREFIX + Date.now(),
           marketId,
           side: selectedSide === "yes",
           confidence,
@@ -164,6 +221,13 @@ export function PredictionPanel({ marketId, question, onPredictionSuccess }: Pre
           status: "active"
         });
 
+        // Swap in the real ID so the share link can point at the permalink
+        findPlacedPredictionId(result.digest).then(predictionId => {
+          if (predictionId) {
+            setLocalPrediction(prev => prev && { ...prev, predictionId });
+          }
+        });
+
         // 2. UI Updates: Close confirm, Open share
         setShowConfirmation(false);
         setShowShareModal(true);
@@ -189,19 +253,8 @@ export function PredictionPanel({ marketId, question, onPredictionSuccess }: Pre
       console.error("Place prediction error:", error);
       setIsSubmitting(false);
 
-      // Try to extract abort code from error
-      let errorMessage = "Transaction failed";
-      if (error instanceof Error) {
-        const match = error.message.match(/MoveAbort.*?(\d+)/);
-        if (match) {
-          errorMessage = getErrorMessage(parseInt(match[1]));
-        } else {
-          errorMessage = error.message;
-        }
-      }
-
       toast.error("Prediction failed", {
-        description: errorMessage,
+        description: error instanceof Error ? decodeExecutionError(error.message).message : "Transaction failed",
       });
     } finally {
       // ensure modal is closed if we haven't already
@@ -216,6 +269,30 @@ export function PredictionPanel({ marketId, question, onPredictionSuccess }: Pre
 
   // Render logic as a helper function to avoid early return issues with hooks/modals
   const renderContent = () => {
+    // Closed state (a wallet's own prediction is still shown below)
+    if (!isOpen && !existingPrediction) {
+      return (
+        <div className="bg-card border border-border rounded-xl overflow-hidden">
+          <div className="px-6 py-4 bg-muted/30 border-b border-border">
+            <div className="flex items-center gap-2">
+              <Hourglass className="h-4 w-4 text-orange-500" />
+              <h3 className="font-medium">Predictions Closed</h3>
+            </div>
+          </div>
+          <div className="p-6 text-center">
+            <Hourglass className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">
+              {status === "expired"
+                ? "The deadline has passed. This market is waiting to be locked by the oracle."
+                : status === "resolving"
+                  ? "This market is locked and awaiting resolution."
+                  : "This market has been resolved."}
+            </p>
+          </div>
+        </div>
+      );
+    }
+
     // Not connected state
     if (!isConnected) {
       return (
@@ -274,7 +351,7 @@ export function PredictionPanel({ marketId, question, onPredictionSuccess }: Pre
     }
 
     // No points balance state
-    if (!pointsBalance || pointsBalance.balance < stake) {
+    if (!pointsBalance || pointsBalance.balance < points(stake)) {
       return (
         <div className="bg-card border border-border rounded-xl overflow-hidden">
           <div className="px-6 py-4 bg-muted/30 border-b border-border">
@@ -286,7 +363,7 @@ export function PredictionPanel({ marketId, question, onPredictionSuccess }: Pre
           <div className="p-6 text-center">
             <Coins className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
             <p className="text-muted-foreground mb-2">
-              {pointsBalance ? `You have ${pointsBalance.balance} points` : "No points balance found"}
+              {pointsBalance ? `You have ${formatPoints(pointsBalance.balance)} points` : "No points balance found"}
             </p>
             <p className="text-sm text-muted-foreground mb-4">
               You need at least {stake} points to make a prediction
@@ -458,19 +535,36 @@ export function PredictionPanel({ marketId, question, onPredictionSuccess }: Pre
                   <div className="bg-green-500/10 rounded-lg p-3 border border-green-500/20">
                     <p className="text-xs text-green-600 dark:text-green-400 mb-1">If Correct</p>
                     <p className="text-lg font-bold font-mono-numbers text-green-600 dark:text-green-400">
-                      +{risk} <span className="text-xs font-normal">+ share of pool</span>
+                      +{preview.winnings}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Paid {preview.payoutIfRight} · {preview.multiplier.toFixed(2)}x
                     </p>
                   </div>
                   <div className="bg-red-500/10 rounded-lg p-3 border border-red-500/20">
                     <p className="text-xs text-red-600 dark:text-red-400 mb-1">If Wrong</p>
                     <p className="text-lg font-bold font-mono-numbers text-red-600 dark:text-red-400">
-                      -{potentialLoss}
+                      -{preview.lossIfWrong}
                     </p>
                     <p className="text-xs text-muted-foreground">
-                      Keep {protectedAmount} protected
+                      Keep {preview.payoutIfWrong} protected
                     </p>
                   </div>
                 </div>
+
+                {preview.opposingPoolEmpty && (
+                  <div className="flex gap-2 rounded-lg bg-amber-500/10 border border-amber-500/30 p-3 text-xs text-amber-600 dark:text-amber-400">
+                    <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                    <p>
+                      Nobody has predicted {selectedSide === "yes" ? "NO" : "YES"} yet. If the market resolved now,
+                      being right would pay nothing beyond your stake.
+                    </p>
+                  </div>
+                )}
+
+                <p className="text-xs text-muted-foreground">
+                  Based on the current pools. Your share of the losing side&apos;s risk changes as others enter.
+                </p>
               </div>
 
               {/* Hold to Predict Button */}
@@ -495,13 +589,16 @@ export function PredictionPanel({ marketId, question, onPredictionSuccess }: Pre
       {renderContent()}
 
       <ConfirmationModal
-        open={showConfirmation}
-        onClose={() => setShowConfirmation(false)}
+        open={showConfirmation && isOpen}
+        onClose={handleCloseConfirmation}
         side={selectedSide || "yes"}
         confidence={confidence}
         riskAmount={risk}
         question={question}
         stakeAmount={stake}
+        preview={preview}
+        simulation={simulation}
+        isSimulating={isSimulating}
         onConfirm={handleConfirm}
         isLoading={isSubmitting}
       />
@@ -517,6 +614,10 @@ export function PredictionPanel({ marketId, question, onPredictionSuccess }: Pre
         question={question}
         side={selectedSide || "yes"}
         confidence={confidence}
+        marketId={marketId}
+        predictionId={existingPrediction && !existingPrediction.predictionId.startsWith(PENDING_PREFIX)
+          ? existingPrediction.predictionId
+          : undefined}
       />
 
       {existingPrediction && (
@@ -0,0 +1,153 @@
+"use client";
+
+import Link from "next/link";
+import { AlertCircle, ArrowLeft, CheckCircle2, Clock, Loader2, Share2, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { usePrediction } from "@/hooks/usePrediction";
+import { useMarket } from "@/hooks/useMarket";
+import { formatPoints } from "@/lib/amounts";
+import { SITE_URL } from "@/lib/sui-config";
+import { cn } from "@/lib/utils";
+
+function shortAddress(address: string) {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+/**
+ * Public page for a single prediction, the target of shared links
+ */
+export function PredictionPermalink({ predictionId }: { predictionId: string }) {
+  const { data: prediction, isLoading } = usePrediction(predictionId);
+  const { data: market } = useMarket(prediction?.marketId);
+
+  if (isLoading) {
+    return (
+      <div className="container py-16 text-center">
+        <Loader2 className="h-12 w-12 animate-spin mx-auto text-primary mb-4" />
+        <p className="text-muted-foreground">Loading prediction...</p>
+      </div>
+    );
+  }
+
+  if (!prediction) {
+    return (
+      <div className="container py-16 text-center">
+        <AlertCircle className="h-12 w-12 mx-auto text-destructive mb-4" />
+        <h1 className="text-xl font-semibold mb-2">Prediction Not Found</h1>
+        <p className="text-muted-foreground mb-6">This prediction doesn&apos;t exist or couldn&apos;t be loaded.</p>
+        <Link href="/explore" className="text-primary hover:underline">
+          Browse markets
+        </Link>
+      </div>
+    );
+  }
+
+  const sideLabel = prediction.side ? "YES" : "NO";
+  // Settled with a known outcome; "settled" alone means its details couldn't be loaded
+  const decided = prediction.status === "won" || prediction.status === "lost";
+  const won = prediction.status === "won";
+  const delta = prediction.reputationChange;
+
+  const shareText = `${sideLabel} at ${prediction.confidence}% confidence${market ? ` on "${market.question}"` : ""}`;
+  const tweetUrl = `https://x.com/intent/tweet?text=${encodeURIComponent(shareText)}&url=${encodeURIComponent(`${SITE_URL}/prediction/${prediction.predictionId}`)}`;
+
+  return (
+    <div className="container py-8 md:py-12 max-w-2xl">
+      <Link
+        href={`/market/${prediction.marketId}`}
+        className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors mb-8"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        Back to market
+      </Link>
+
+      <div className="bg-card border border-border rounded-xl overflow-hidden">
+        <div className="px-6 py-4 bg-muted/30 border-b border-border flex items-center justify-between gap-4">
+          <Link
+            href={`/profile/${prediction.user}`}
+            className="font-mono text-sm text-muted-foreground hover:text-primary transition-colors"
+          >
+            {shortAddress(prediction.user)}
+          </Link>
+          {decided ? (
+            <span className={cn(
+              "flex items-center gap-1.5 text-xs font-medium px-2 py-0.5 rounded-full border",
+              won ? "bg-green-500/10 text-green-600 border-green-500/30" : "bg-red-500/10 text-red-600 border-red-500/30"
+            )}>
+              {won ? <CheckCircle2 className="h-3.5 w-3.5" /> : <XCircle className="h-3.5 w-3.5" />}
+              {won ? "Correct" : "Wrong"}
+            </span>
+          ) : prediction.status === "settled" ? (
+            <span className="flex items-center gap-1.5 text-xs px-2 py-0.5 rounded-full bg-muted text-muted-foreground border border-border">
+              <CheckCircle2 className="h-3.5 w-3.5" />
+              Settled
+            </span>
+          ) : (
+            <span className="flex items-center gap-1.5 text-xs px-2 py-0.5 rounded-full bg-amber-500/10 text-amber-500 border border-amber-500/30">
+              <Clock className="h-3.5 w-3.5" />
+              Awaiting Resolution
+            </span>
+          )}
+        </div>
+
+        <div className="p-6 space-y-6">
+          <Link href={`/market/${prediction.marketId}`} className="block text-xl font-semibold leading-snug hover:text-primary transition-colors">
+            {market?.question ?? "Loading market..."}
+          </Link>
+
+          <div className="flex items-baseline gap-3">
+            <span className={cn("text-4xl font-bold", prediction.side ? "text-green-500" : "text-red-500")}>
+              {sideLabel}
+            </span>
+            <span className="text-2xl font-semibold font-mono-numbers">@ {prediction.confidence}%</span>
+          </div>
+
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-4 pt-4 border-t border-border text-sm">
+            <div>
+              <p className="text-xs text-muted-foreground mb-1">At Risk</p>
+              <p className="font-semibold font-mono-numbers">{prediction.risk} pts</p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground mb-1">Stake</p>
+              <p className="font-semibold font-mono-numbers">{prediction.stake} pts</p>
+            </div>
+            {decided && prediction.payout !== undefined && (
+              <div>
+                <p className="text-xs text-muted-foreground mb-1">Payout</p>
+                <p className="font-semibold font-mono-numbers">{formatPoints(prediction.payout)} pts</p>
+              </div>
+            )}
+            {decided && delta !== undefined && (
+              <div>
+                <p className="text-xs text-muted-foreground mb-1">Reputation</p>
+                <p className={cn("font-semibold font-mono-numbers", delta >= 0 ? "text-green-500" : "text-red-500")}>
+                  {delta >= 0 ? "+" : ""}{delta}
+                  {prediction.oldScore !== undefined && prediction.newScore !== undefined && (
+                    <span className="text-xs text-muted-foreground font-normal ml-1.5">
+                      {prediction.oldScore} → {prediction.newScore}
+                    </span>
+                  )}
+                </p>
+              </div>
+            )}
+            {prediction.tierChange && (
+              <div>
+                <p className="text-xs text-muted-foreground mb-1">Tier</p>
+                <p className="font-semibold">
+                  {prediction.tierChange.oldTier} → {prediction.tierChange.newTier}
+                </p>
+              </div>
+            )}
+          </div>
+
+          <a href={tweetUrl} target="_blank" rel="noopener noreferrer" className="block">
+            <Button variant="outline" className="w-full gap-2">
+              <Share2 className="h-4 w-4" />
+              Share on X
+            </Button>
+          </a>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { LineChart, Line, XAxis, YAxis, Tooltip, ReferenceLine, ResponsiveContainer } from "recharts";
+import { format } from "date-fns";
+import { LineChart as LineChartIcon, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { MarketHistory } from "@/lib/market-history";
+
+type Weighting = "risk" | "headcount";
+
+interface ProbabilityHistoryChartProps {
+  history?: MarketHistory;
+  isLoading?: boolean;
+}
+
+export function ProbabilityHistoryChart({ history, isLoading }: ProbabilityHistoryChartProps) {
+  const [weighting, setWeighting] = useState<Weighting>("risk");
+
+  // Carry the last value forward to lock/resolution (or now) so the line spans the market's life
+  const data = useMemo(() => {
+    if (!history || history.points.length === 0) return [];
+    const points = [...history.points];
+    const last = points[points.length - 1];
+    const end = history.resolvedAtMs ?? history.lockedAtMs ?? Date.now();
+    if (end > last.timestampMs) {
+      points.push({ ...last, timestampMs: end });
+    }
+    return points;
+  }, [history]);
+
+  const dataKey = weighting === "risk" ? "riskWeighted" : "headcount";
+
+  return (
+    <div className="bg-card border border-border rounded-xl p-6">
+      <div className="flex items-center justify-between gap-4 mb-6 flex-wrap">
+        <div className="flex items-center gap-2">
+          <LineChartIcon className="h-4 w-4 text-muted-foreground" />
+          <h3 className="text-sm font-medium text-muted-foreground">Probability History</h3>
+        </div>
+        <div className="flex gap-2">
+          {([["risk", "Risk-weighted"], ["headcount", "Headcount"]] as const).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setWeighting(value)}
+              className={cn(
+                "px-3 py-1.5 text-xs font-medium rounded-lg transition-all",
+                weighting === value
+                  ? "bg-primary text-primary-foreground shadow-sm"
+                  : "bg-secondary text-secondary-foreground hover:bg-secondary/80"
+              )}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="h-56">
+        {isLoading ? (
+          <div className="h-full flex items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : data.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-sm text-muted-foreground">
+            No predictions yet
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={data} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
+              <XAxis
+                dataKey="timestampMs"
+                type="number"
+                scale="time"
+                domain={["dataMin", "dataMax"]}
+                tickFormatter={(ms: number) => format(ms, "MMM d")}
+                axisLine={false}
+                tickLine={false}
+                tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }}
+                dy={10}
+              />
+              <YAxis
+                domain={[0, 100]}
+                ticks={[0, 25, 50, 75, 100]}
+                tickFormatter={(v: number) => `${v}%`}
+                axisLine={false}
+                tickLine={false}
+                tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }}
+              />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: 'hsl(var(--card))',
+                  border: '1px solid hsl(var(--border))',
+                  borderRadius: '8px',
+                  fontSize: '12px',
+                  boxShadow: '0 4px 12px rgba(0,0,0,0.1)'
+                }}
+                labelStyle={{ color: 'hsl(var(--muted-foreground))', marginBottom: '4px' }}
+                labelFormatter={(ms: number) => format(ms, "MMM d, yyyy HH:mm")}
+                formatter={(value: number) => [`${value}%`, "YES"]}
+                cursor={{ stroke: 'hsl(var(--primary))', strokeWidth: 1, strokeDasharray: '4 4' }}
+              />
+              <ReferenceLine y={50} stroke="hsl(var(--border))" strokeDasharray="4 4" />
+              {history?.lockedAtMs && (
+                <ReferenceLine
+                  x={history.lockedAtMs}
+                  stroke="hsl(var(--muted-foreground))"
+                  strokeDasharray="4 4"
+                  label={{ value: "Locked", position: "insideTopLeft", fontSize: 11, fill: 'hsl(var(--muted-foreground))' }}
+                />
+              )}
+              {history?.resolvedAtMs && (
+                <ReferenceLine
+                  x={history.resolvedAtMs}
+                  stroke="hsl(var(--primary))"
+                  strokeDasharray="4 4"
+                  label={{ value: "Resolved", position: "insideTopRight", fontSize: 11, fill: 'hsl(var(--primary))' }}
+                />
+              )}
+              <Line
+                type="stepAfter"
+                dataKey={dataKey}
+                stroke="hsl(var(--primary))"
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+                activeDot={{ r: 5, fill: 'hsl(var(--background))', stroke: 'hsl(var(--primary))', strokeWidth: 2 }}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import { useState, useRef, useEffect } from "react";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 import { motion, useMotionValue, useSpring, useTransform } from "framer-motion";
+import { SITE_URL } from "@/lib/sui-config";
 
 interface SharePredictionModalProps {
     open: boolean;
@@ -14,6 +15,8 @@ interface SharePredictionModalProps {
     question: string;
     side: "yes" | "no";
     confidence: number;
+    marketId?: string;
+    predictionId?: string;  // Links to the prediction's permalink (and its preview card) when known
 }
 
 export function SharePredictionModal({
@@ -22,6 +25,8 @@ export function SharePredictionModal({
     question,
     side,
     confidence,
+    marketId,
+    predictionId,
 }: SharePredictionModalProps) {
     const [copied, setCopied] = useState(false);
 
@@ -55,7 +60,9 @@ export function SharePredictionModal({
     };
 
     const text = `I just predicted ${confidence}% ${side.toUpperCase()} on "${question}"`;
-    const url = "https://calibr.app";
+    const url = predictionId
+        ? `${SITE_URL}/prediction/${predictionId}`
+        : marketId ? `${SITE_URL}/market/${marketId}` : SITE_URL;
     const hashtags = "Calibr,PredictionMarket";
 
     // Construct URL for X Intent
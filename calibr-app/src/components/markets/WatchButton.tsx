@@ -0,0 +1,41 @@
+"use client";
+
+import { Star } from "lucide-react";
+import { useWatchlist } from "@/hooks/useWatchlist";
+import { cn } from "@/lib/utils";
+
+interface WatchButtonProps {
+  marketId: string;
+  yesPercentage: number;
+  showLabel?: boolean;
+  className?: string;
+}
+
+export function WatchButton({ marketId, yesPercentage, showLabel = false, className }: WatchButtonProps) {
+  const { isWatching, toggle } = useWatchlist();
+  const watching = isWatching(marketId);
+
+  return (
+    <button
+      type="button"
+      onClick={(e) => {
+        // Cards are links; starring one shouldn't open it
+        e.preventDefault();
+        e.stopPropagation();
+        toggle({ id: marketId, yesPercentage });
+      }}
+      className={cn(
+        "inline-flex items-center gap-1.5 rounded-md transition-colors",
+        showLabel ? "px-3 py-1.5 text-sm font-medium border border-border hover:bg-secondary" : "p-1 hover:bg-secondary",
+        watching ? "text-amber-500" : "text-muted-foreground hover:text-foreground",
+        className
+      )}
+      title={watching ? "Stop watching" : "Watch this market"}
+      aria-label={watching ? "Stop watching" : "Watch this market"}
+      aria-pressed={watching}
+    >
+      <Star className={cn("h-4 w-4", watching && "fill-current")} />
+      {showLabel && (watching ? "Watching" : "Watch")}
+    </button>
+  );
+}
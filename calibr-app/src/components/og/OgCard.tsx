@@ -0,0 +1,85 @@
+import type { ReactNode } from "react";
+import { SITE_URL } from "@/lib/sui-config";
+
+// Shared frame for the OpenGraph image routes. These render through
+// next/og (satori), which only understands inline styles and flexbox.
+
+export const OG_SIZE = { width: 1200, height: 630 };
+
+export const ogColors = {
+  background: "#0f0d13",
+  card: "#1a1620",
+  border: "#2c2636",
+  foreground: "#ece9f1",
+  muted: "#9a93a6",
+  primary: "#8b5fd1",
+  yes: "#22c55e",
+  no: "#ef4444",
+  amber: "#f59e0b",
+};
+
+export const tierColors: Record<string, string> = {
+  Elite: "#a855f7",
+  Proven: "#3b82f6",
+  New: "#9ca3af",
+};
+
+export function OgFrame({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div
+      style={{
+        width: "100%",
+        height: "100%",
+        display: "flex",
+        flexDirection: "column",
+        padding: 64,
+        background: ogColors.background,
+        color: ogColors.foreground,
+        fontSize: 32,
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 48 }}>
+        <div style={{ display: "flex", alignItems: "center", fontSize: 36, fontWeight: 700 }}>
+          <div style={{ width: 20, height: 20, borderRadius: 6, background: ogColors.primary, marginRight: 14 }} />
+          Calibr
+        </div>
+        <div style={{ fontSize: 24, color: ogColors.muted, textTransform: "uppercase", letterSpacing: 2 }}>{label}</div>
+      </div>
+      <div style={{ display: "flex", flexDirection: "column", flex: 1 }}>{children}</div>
+      <div style={{ display: "flex", fontSize: 22, color: ogColors.muted }}>
+        {SITE_URL.replace(/^https?:\/\//, "")}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Card shown when the thing being shared can't be loaded
+ */
+export function OgFallback({ label, message }: { label: string; message: string }) {
+  return (
+    <OgFrame label={label}>
+      <div style={{ display: "flex", flex: 1, alignItems: "center", fontSize: 56, fontWeight: 600 }}>
+        {message}
+      </div>
+    </OgFrame>
+  );
+}
+
+export function OgStat({ label, value, color }: { label: string; value: string; color?: string }) {
+  return (
+    <div style={{ display: "flex", flexDirection: "column", marginRight: 64 }}>
+      <div style={{ fontSize: 22, color: ogColors.muted, textTransform: "uppercase", letterSpacing: 1, marginBottom: 8 }}>
+        {label}
+      </div>
+      <div style={{ fontSize: 44, fontWeight: 700, color: color ?? ogColors.foreground }}>{value}</div>
+    </div>
+  );
+}
+
+/**
+ * Long questions are cut so the card's stats stay on screen
+ */
+export function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text;
+}
@@ -1,9 +1,47 @@
 "use client";
 
-import { AreaChart, Area, XAxis, YAxis, Tooltip, ResponsiveContainer } from "recharts";
+import { AreaChart, Area, XAxis, YAxis, Tooltip, ReferenceLine, ResponsiveContainer, type TooltipProps } from "recharts";
+import { format } from "date-fns";
+import type { ReputationPoint } from "@/hooks/useReputationHistory";
+
+// Tier boundaries (see getTierFromScore): Proven from 700, Elite above 850
+const PROVEN_SCORE = 700;
+const ELITE_SCORE = 850;
 
 interface ReputationChartProps {
-  data: { date: string; score: number }[];
+  data: ReputationPoint[];
+}
+
+function ReputationTooltip({ active, payload }: TooltipProps<number, string>) {
+  if (!active || !payload?.length) return null;
+  const point = payload[0].payload as ReputationPoint;
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-3 text-xs shadow-lg max-w-64 space-y-1">
+      <p className="text-muted-foreground">{format(point.timestampMs, "MMM d, yyyy HH:mm")}</p>
+      <p className="font-semibold">
+        {point.score}
+        {point.change !== 0 && (
+          <span className={point.change > 0 ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"}>
+            {" "}({point.change > 0 ? "+" : ""}{point.change})
+          </span>
+        )}
+      </p>
+      {point.marketId ? (
+        <>
+          <p className="text-foreground line-clamp-2">{point.question ?? "Unknown market"}</p>
+          <p className="text-muted-foreground">
+            {point.confidence}% confidence ·{" "}
+            <span className={point.correct ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"}>
+              {point.correct ? "Correct" : "Incorrect"}
+            </span>
+          </p>
+        </>
+      ) : (
+        <p className="text-muted-foreground">Starting reputation</p>
+      )}
+    </div>
+  );
 }
 
 export function ReputationChart({ data }: ReputationChartProps) {
@@ -26,7 +64,11 @@ export function ReputationChart({ data }: ReputationChartProps) {
               </linearGradient>
             </defs>
             <XAxis
-              dataKey="date"
+              dataKey="timestampMs"
+              type="number"
+              scale="time"
+              domain={["dataMin", "dataMax"]}
+              tickFormatter={(ms: number) => format(ms, "MMM d")}
               axisLine={false}
               tickLine={false}
               tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }}
@@ -36,21 +78,30 @@ export function ReputationChart({ data }: ReputationChartProps) {
               axisLine={false}
               tickLine={false}
               tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }}
-              domain={['dataMin - 50', 'dataMax + 50']}
+              // Always keep both tier thresholds in view
+              domain={[
+                (min: number) => Math.min(min - 50, PROVEN_SCORE - 50),
+                (max: number) => Math.max(max + 50, ELITE_SCORE + 50),
+              ]}
             />
             <Tooltip
-              contentStyle={{
-                backgroundColor: 'hsl(var(--card))',
-                border: '1px solid hsl(var(--border))',
-                borderRadius: '8px',
-                fontSize: '12px',
-                boxShadow: '0 4px 12px rgba(0,0,0,0.1)'
-              }}
-              labelStyle={{ color: 'hsl(var(--muted-foreground))', marginBottom: '4px' }}
+              content={<ReputationTooltip />}
               cursor={{ stroke: 'hsl(var(--primary))', strokeWidth: 1, strokeDasharray: '4 4' }}
             />
+            <ReferenceLine
+              y={PROVEN_SCORE}
+              stroke="hsl(var(--muted-foreground))"
+              strokeDasharray="4 4"
+              label={{ value: "Proven", position: "insideBottomRight", fontSize: 11, fill: 'hsl(var(--muted-foreground))' }}
+            />
+            <ReferenceLine
+              y={ELITE_SCORE}
+              stroke="hsl(var(--primary))"
+              strokeDasharray="4 4"
+              label={{ value: "Elite", position: "insideBottomRight", fontSize: 11, fill: 'hsl(var(--primary))' }}
+            />
             <Area
-              type="monotone"
+              type="stepAfter"
               dataKey="score"
               stroke="hsl(var(--primary))"
               fill="url(#colorScore)"
@@ -0,0 +1,21 @@
+"use client";
+
+import { ReactNode } from "react";
+import { ThemeProvider } from "next-themes";
+import { SuiProvider } from "@/components/providers/SuiProvider";
+import type { EmbedTheme } from "@/lib/embed";
+
+interface EmbedProvidersProps {
+  theme: EmbedTheme;
+  children: ReactNode;
+}
+
+// Data providers without the wallet context, tour or toasts. The theme is
+// forced so a visitor's saved preference can't override the host page's.
+export function EmbedProviders({ theme, children }: EmbedProvidersProps) {
+  return (
+    <ThemeProvider attribute="class" forcedTheme={theme} enableSystem={false}>
+      <SuiProvider>{children}</SuiProvider>
+    </ThemeProvider>
+  );
+}
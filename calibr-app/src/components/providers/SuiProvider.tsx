@@ -2,14 +2,29 @@
 
 import { ReactNode, useState } from "react";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { SuiClientProvider, WalletProvider } from "@mysten/dapp-kit";
-import { networkConfig, DEFAULT_NETWORK } from "@/lib/sui-config";
+import { SuiClientProvider, WalletProvider, createNetworkConfig } from "@mysten/dapp-kit";
+import { DEFAULT_NETWORK, getRpcUrl } from "@/lib/sui-config";
+import { useLiveUpdates } from "@/hooks/useLiveUpdates";
 import "@mysten/dapp-kit/dist/index.css";
 
+// Kept out of sui-config so server code (metadata, OG images) can import it
+// without pulling in dapp-kit's React contexts
+const { networkConfig } = createNetworkConfig({
+  testnet: { url: getRpcUrl("testnet") },
+  mainnet: { url: getRpcUrl("mainnet") },
+  devnet: { url: getRpcUrl("devnet") },
+} as any);
+
 interface SuiProviderProps {
   children: ReactNode;
 }
 
+// Patches query caches from the chain event stream (replaces per-hook polling)
+function LiveUpdates() {
+  useLiveUpdates();
+  return null;
+}
+
 export function SuiProvider({ children }: SuiProviderProps) {
   // Create query client with proper configuration
   const [queryClient] = useState(
@@ -27,6 +42,7 @@ export function SuiProvider({ children }: SuiProviderProps) {
 
   return (
     <QueryClientProvider client={queryClient}>
+      <LiveUpdates />
       <SuiClientProvider networks={networkConfig} defaultNetwork={DEFAULT_NETWORK}>
         <WalletProvider autoConnect={true}>
           {children}
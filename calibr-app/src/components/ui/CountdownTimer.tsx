@@ -1,14 +1,24 @@
 import { useEffect, useState } from "react";
 import { formatDistanceToNowStrict, differenceInSeconds } from "date-fns";
-import { Clock } from "lucide-react";
+import { Clock, Hourglass, Lock } from "lucide-react";
+import type { MarketStatus } from "@/lib/calibr-types";
 
 interface CountdownTimerProps {
     targetDate: string | number;
     size?: "sm" | "md" | "lg";
     showIcon?: boolean;
+    /** When set, a passed deadline shows what the market is waiting for instead of "Ended" */
+    status?: MarketStatus;
 }
 
-export function CountdownTimer({ targetDate, size = "sm", showIcon = true }: CountdownTimerProps) {
+// What a market past its deadline is waiting for
+const pendingStates: Partial<Record<MarketStatus, { label: string; icon: typeof Clock }>> = {
+    active: { label: "Awaiting lock", icon: Hourglass },
+    expired: { label: "Awaiting lock", icon: Hourglass },
+    resolving: { label: "Awaiting resolution", icon: Lock },
+};
+
+export function CountdownTimer({ targetDate, size = "sm", showIcon = true, status }: CountdownTimerProps) {
     const [timeLeft, setTimeLeft] = useState("");
     const [isExpired, setIsExpired] = useState(false);
 
@@ -50,6 +60,18 @@ export function CountdownTimer({ targetDate, size = "sm", showIcon = true }: Cou
         lg: "text-base font-medium",
     }[size];
 
+    // A locked market is closed whatever the clock says
+    const pending = status && (isExpired || status === "resolving") ? pendingStates[status] : undefined;
+    if (pending) {
+        const Icon = pending.icon;
+        return (
+            <div className={`flex items-center gap-1.5 ${textSize} text-amber-600 dark:text-amber-500`}>
+                {showIcon && <Icon className="w-4 h-4" />}
+                <span>{pending.label}</span>
+            </div>
+        );
+    }
+
     return (
         <div className={`flex items-center gap-1.5 ${textSize} ${isExpired ? "text-red-500" : "text-primary"} font-mono-numbers`}>
             {showIcon && <Clock className="w-4 h-4" />}
@@ -4,17 +4,13 @@ import { useState } from "react";
 import { ConfidenceSliderEnhanced } from "@/components/markets/ConfidenceSliderEnhanced";
 import { TrendingUp, TrendingDown, RefreshCw, AlertTriangle } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { riskFromConfidence } from "@/lib/payout-preview";
 
 export function PredictionSimulator() {
     const [confidence, setConfidence] = useState(70);
     const [outcome, setOutcome] = useState<"correct" | "incorrect">("correct");
 
-    // Calibr formula reference
-    // Risk = 5 + (confidence - 50) * 2.5 (approx scaled to 100)
-    // Actual formula from PredictionPanel: Math.max(5, Math.round(100 * (confidence - 50) / 40))
-    const calculateRisk = (conf: number) => Math.max(5, Math.round(100 * (conf - 50) / 40));
-
-    const risk = calculateRisk(confidence);
+    const risk = riskFromConfidence(confidence);
     const stake = 100;
     const protectedAmount = stake - risk;
 
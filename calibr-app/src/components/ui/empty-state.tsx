@@ -1,7 +1,7 @@
 "use client";
 
 import { cn } from "@/lib/utils";
-import { LucideIcon, Search, TrendingUp, Target, FileQuestion, Inbox } from "lucide-react";
+import { LucideIcon, Search, TrendingUp, Target, FileQuestion, Inbox, Star } from "lucide-react";
 import { Button } from "./button";
 import Link from "next/link";
 
@@ -52,7 +52,7 @@ export function EmptyState({
 }
 
 // Preset empty states for common scenarios
-export function NoMarketsFound() {
+export function NoMarketsFound({ onClear }: { onClear?: () => void } = {}) {
   return (
     <EmptyState
       icon={Search}
@@ -60,7 +60,7 @@ export function NoMarketsFound() {
       description="Try adjusting your filters or search query to find what you're looking for."
       action={{
         label: "Clear filters",
-        onClick: () => window.location.reload(),
+        onClick: onClear ?? (() => window.location.reload()),
       }}
     />
   );
@@ -94,6 +94,20 @@ export function NoActivePredictions() {
   );
 }
 
+export function NoWatchedMarkets() {
+  return (
+    <EmptyState
+      icon={Star}
+      title="No watched markets"
+      description="Star a market to follow how its probability moves without predicting on it."
+      action={{
+        label: "Browse markets",
+        href: "/explore",
+      }}
+    />
+  );
+}
+
 export function PageNotFound() {
   return (
     <EmptyState
@@ -1,15 +1,21 @@
 "use client";
 
-import { createContext, useContext, ReactNode, useState, useEffect, useCallback } from "react";
+import { createContext, useContext, ReactNode, useState, useEffect, useCallback, useMemo } from "react";
 import {
   useCurrentAccount,
   useCurrentWallet,
   useSignAndExecuteTransaction,
-  useDisconnectWallet,
-  useSuiClient
+  useSignPersonalMessage,
+  useDisconnectWallet
 } from "@mysten/dapp-kit";
 import { Transaction } from "@mysten/sui/transactions";
-import { getPackageId, DEFAULT_NETWORK } from "@/lib/sui-config";
+import { SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { getPackageId, getRpcUrl, DATA_SOURCE, DEFAULT_NETWORK, LOCAL_SIGNER_KEY } from "@/lib/sui-config";
+import { getSuiRpcClient } from "@/lib/sui-rpc";
+import { loadRpcFixtures } from "@/lib/rpc-fixtures";
+import { formatMist, mist } from "@/lib/amounts";
+import { previewTransaction, type TransactionPreview } from "@/lib/transaction-preview";
 import { toast } from "sonner";
 
 // Define UserProfile locally to avoid import issues
@@ -44,6 +50,9 @@ interface WalletContextValue {
   refreshBalance: () => Promise<void>;
   createProfile: () => Promise<{ success: boolean; error?: string }>;
   signAndExecuteTransaction: (tx: Transaction) => Promise<{ digest: string } | null>;
+  // Dry run as the connected account; null when there is nothing to simulate with
+  previewTransaction: (tx: Transaction) => Promise<TransactionPreview | null>;
+  signPersonalMessage: (message: Uint8Array) => Promise<{ bytes: string; signature: string } | null>;
   // Helpers
   shortenAddress: (address: string) => string;
   getAddressExplorerUrl: () => string;
@@ -69,6 +78,8 @@ const defaultValue: WalletContextValue = {
   refreshBalance: async () => { },
   createProfile: async () => ({ success: false, error: "Not connected" }),
   signAndExecuteTransaction: async () => null,
+  previewTransaction: async () => null,
+  signPersonalMessage: async () => null,
   shortenAddress: (address: string) => address ? `${address.slice(0, 6)}...${address.slice(-4)}` : "",
   getAddressExplorerUrl: () => "",
 };
@@ -86,6 +97,26 @@ function getMaxConfidence(reputation: number): number {
   return 90;
 }
 
+async function executeWithLocalSigner(tx: Transaction, signer: Ed25519Keypair): Promise<{ digest: string } | null> {
+  try {
+    const client = new SuiJsonRpcClient({ url: getRpcUrl(), network: DEFAULT_NETWORK });
+    const result = await client.signAndExecuteTransaction({
+      signer,
+      transaction: tx,
+      options: { showEffects: true },
+    });
+    if (result.effects?.status.status === "failure") {
+      toast.error("Transaction failed: " + result.effects.status.error);
+      return null;
+    }
+    return result;
+  } catch (error) {
+    console.error("Transaction failed:", error);
+    toast.error("Transaction failed: " + (error instanceof Error ? error.message : "Unknown error"));
+    return null;
+  }
+}
+
 interface WalletProviderProps {
   children: ReactNode;
 }
@@ -94,8 +125,9 @@ export function WalletContextProvider({ children }: WalletProviderProps) {
   const currentAccount = useCurrentAccount();
   const currentWallet = useCurrentWallet();
   const { mutate: signAndExecuteTransactionMutation } = useSignAndExecuteTransaction();
+  const { mutateAsync: signPersonalMessageMutation } = useSignPersonalMessage();
   const { mutate: disconnectWallet } = useDisconnectWallet();
-  const client = useSuiClient();
+  const client = getSuiRpcClient();
 
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [isLoadingProfile, setIsLoadingProfile] = useState(false);
@@ -106,7 +138,22 @@ export function WalletContextProvider({ children }: WalletProviderProps) {
     setIsClient(true);
   }, []);
 
-  const isConnected = !!currentAccount;
+  // In fixture mode the recorded wallet stands in for a connected one (read-only)
+  const [demoAddress, setDemoAddress] = useState<string | null>(null);
+  useEffect(() => {
+    if (DATA_SOURCE !== "fixture") return;
+    loadRpcFixtures().then(fixtures => setDemoAddress(fixtures.demoAddress));
+  }, []);
+
+  // Against a local chain (scripts/chain-emulator.ts) a throwaway key can sign
+  // without a browser wallet; a connected wallet still takes precedence
+  const localSigner = useMemo(
+    () => (LOCAL_SIGNER_KEY ? Ed25519Keypair.fromSecretKey(LOCAL_SIGNER_KEY) : null),
+    []
+  );
+
+  const accountAddress = currentAccount?.address || localSigner?.toSuiAddress() || demoAddress;
+  const isConnected = !!accountAddress;
   const isConnecting = false; // dapp-kit manages this
 
   const shortenAddress = useCallback((address: string) => {
@@ -115,23 +162,19 @@ export function WalletContextProvider({ children }: WalletProviderProps) {
   }, []);
 
   const fetchBalance = useCallback(async () => {
-    if (!currentAccount?.address) return;
+    if (!accountAddress) return;
     try {
-      const balanceResult = await client.getBalance({
-        owner: currentAccount.address,
-      });
+      const balanceResult = await client.getBalance(accountAddress);
 
-      const totalBalance = balanceResult?.totalBalance || "0";
-      const suiBalance = Number(totalBalance) / 1_000_000_000;
-      setBalance(suiBalance.toFixed(4));
+      setBalance(formatMist(mist(balanceResult?.totalBalance || "0")));
     } catch (error) {
       console.error("Error fetching balance:", error);
       setBalance("0");
     }
-  }, [currentAccount?.address, client]);
+  }, [accountAddress, client]);
 
   const fetchUserProfile = useCallback(async () => {
-    if (!currentAccount?.address) {
+    if (!accountAddress) {
       setUserProfile(null);
       return;
     }
@@ -142,8 +185,7 @@ export function WalletContextProvider({ children }: WalletProviderProps) {
       const packageId = getPackageId(DEFAULT_NETWORK);
       const structType = `${packageId}::calibr::UserProfile`;
 
-      const result = await client.getOwnedObjects({
-        owner: currentAccount.address,
+      const result = await client.getOwnedObjects(accountAddress, {
         filter: { StructType: structType },
         options: { showContent: true }
       });
@@ -178,7 +220,7 @@ export function WalletContextProvider({ children }: WalletProviderProps) {
     } finally {
       setIsLoadingProfile(false);
     }
-  }, [currentAccount?.address, client]);
+  }, [accountAddress, client]);
 
   // Effects
   useEffect(() => {
@@ -193,7 +235,37 @@ export function WalletContextProvider({ children }: WalletProviderProps) {
     setBalance("0");
   }, [disconnectWallet]);
 
+  const signerAddress = currentAccount?.address ?? localSigner?.toSuiAddress() ?? null;
+
+  const handlePreviewTransaction = useCallback(async (tx: Transaction): Promise<TransactionPreview | null> => {
+    if (DATA_SOURCE === "fixture" || !signerAddress) return null;
+    return previewTransaction(tx, signerAddress);
+  }, [signerAddress]);
+
   const handleSignAndExecute = useCallback(async (tx: Transaction): Promise<{ digest: string } | null> => {
+    if (DATA_SOURCE === "fixture") {
+      toast.error("Transactions are disabled while replaying fixtures");
+      return null;
+    }
+
+    // Dry run first, so a transaction that would abort never reaches the wallet prompt
+    const preview = await handlePreviewTransaction(tx);
+    if (preview && !preview.success) {
+      toast.error("Transaction would fail", { description: preview.failure?.message });
+      return null;
+    }
+
+    if (!currentAccount && localSigner) {
+      return executeWithLocalSigner(tx, localSigner).then(result => {
+        if (result) {
+          setTimeout(() => {
+            fetchBalance();
+            fetchUserProfile();
+          }, 1000);
+        }
+        return result;
+      });
+    }
     if (!currentAccount) {
       toast.error("Wallet not connected");
       return null;
@@ -222,10 +294,32 @@ export function WalletContextProvider({ children }: WalletProviderProps) {
         }
       );
     });
-  }, [currentAccount, signAndExecuteTransactionMutation, fetchBalance, fetchUserProfile]);
+  }, [currentAccount, localSigner, handlePreviewTransaction, signAndExecuteTransactionMutation, fetchBalance, fetchUserProfile]);
+
+  // Off-chain writes (e.g. market metadata) are authorized by a signed message
+  const handleSignPersonalMessage = useCallback(async (message: Uint8Array) => {
+    if (DATA_SOURCE === "fixture") {
+      toast.error("Signing is disabled while replaying fixtures");
+      return null;
+    }
+    try {
+      if (!currentAccount && localSigner) {
+        return await localSigner.signPersonalMessage(message);
+      }
+      if (!currentAccount) {
+        toast.error("Wallet not connected");
+        return null;
+      }
+      return await signPersonalMessageMutation({ message });
+    } catch (error) {
+      console.error("Signing failed:", error);
+      toast.error("Signing failed: " + (error instanceof Error ? error.message : "Unknown error"));
+      return null;
+    }
+  }, [currentAccount, localSigner, signPersonalMessageMutation]);
 
   const createProfile = async () => {
-    if (!currentAccount) {
+    if (!currentAccount && !localSigner) {
       return { success: false, error: "Wallet not connected" };
     }
 
@@ -264,9 +358,9 @@ export function WalletContextProvider({ children }: WalletProviderProps) {
     isConnected,
     isConnecting,
     isLoading: !isClient,
-    address: currentAccount?.address || null,
-    shortAddress: currentAccount?.address ? shortenAddress(currentAccount.address) : null,
-    walletName: currentWallet?.currentWallet?.name || null,
+    address: accountAddress || null,
+    shortAddress: accountAddress ? shortenAddress(accountAddress) : null,
+    walletName: currentWallet?.currentWallet?.name || (localSigner ? "Local Signer" : demoAddress ? "Fixture" : null),
     walletIcon: currentWallet?.currentWallet?.icon || null,
     balance,
     userProfile,
@@ -280,6 +374,8 @@ export function WalletContextProvider({ children }: WalletProviderProps) {
     refreshBalance: fetchBalance,
     createProfile,
     signAndExecuteTransaction: handleSignAndExecute,
+    previewTransaction: handlePreviewTransaction,
+    signPersonalMessage: handleSignPersonalMessage,
     shortenAddress,
     getAddressExplorerUrl: () => "",
   };
@@ -0,0 +1,89 @@
+"use client";
+
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { DEFAULT_NETWORK } from "@/lib/sui-config";
+import { getSuiRpcClient } from "@/lib/sui-rpc";
+import { decodeEvents, getCalibrEventType } from "@/lib/calibr-events";
+import { fetchIndexedMarketPredictions, fetchIndexedMarkets, isIndexerEnabled } from "@/lib/indexer-client";
+import { poolForecasts, poolForecastsByMarket, type ForecasterSkill, type StatedForecast } from "@/lib/consensus";
+import { useLeaderboard } from "@/hooks/useLeaderboard";
+import { useMarketHistory } from "@/hooks/useMarketHistory";
+import type { Market } from "@/lib/calibr-types";
+
+type MarketForecast = StatedForecast & { marketId: string };
+
+/**
+ * Track record by address, from the all-time leaderboard
+ */
+export function useForecasterSkills(): Map<string, ForecasterSkill> {
+    const { data: leaderboard } = useLeaderboard(null, "All Time");
+
+    return useMemo(() => new Map((leaderboard ?? []).map(u => [
+        u.address,
+        { reputation: u.reputation, settled: u.predictions },
+    ])), [leaderboard]);
+}
+
+/**
+ * Consensus forecast for every market that has predictions, keyed by market ID
+ */
+export function useConsensusForecasts() {
+    const skills = useForecasterSkills();
+    const query = useQuery({
+        queryKey: ["consensus-forecasts", DEFAULT_NETWORK],
+        queryFn: (): Promise<MarketForecast[]> =>
+            isIndexerEnabled() ? fetchForecastsFromIndexer() : fetchForecastsFromChain(),
+    });
+
+    const data = useMemo(
+        () => query.data ? poolForecastsByMarket(query.data, skills) : undefined,
+        [query.data, skills]
+    );
+
+    return { data, isLoading: query.isLoading };
+}
+
+/**
+ * Consensus forecast for one market, from the same entries as its history
+ */
+export function useMarketConsensus(market?: Market | null) {
+    const skills = useForecasterSkills();
+    const { data: history, isLoading } = useMarketHistory(market);
+
+    const data = useMemo(
+        () => history ? poolForecasts(history.entries, skills) : undefined,
+        [history, skills]
+    );
+
+    return { data, isLoading };
+}
+
+async function fetchForecastsFromIndexer(): Promise<MarketForecast[]> {
+    const markets = await fetchIndexedMarkets();
+    const predicted = markets.filter(m => m.yesCount + m.noCount > 0);
+    const predictions = await Promise.all(predicted.map(m => fetchIndexedMarketPredictions(m.id)));
+
+    return predictions.flat().map(p => ({
+        marketId: p.marketId,
+        user: p.user,
+        side: p.side,
+        confidence: p.confidence,
+    }));
+}
+
+// Latest placements only, like the leaderboard's chain fallback
+async function fetchForecastsFromChain(): Promise<MarketForecast[]> {
+    const MAX_PAGES = 10;
+    const events = await getSuiRpcClient().queryAllEvents(
+        { MoveEventType: getCalibrEventType("PredictionPlaced") },
+        { descending: true, maxPages: MAX_PAGES }
+    );
+
+    return decodeEvents(events, "PredictionPlaced").map(({ data }) => ({
+        marketId: data.marketId,
+        user: data.user,
+        side: data.side,
+        confidence: data.confidence,
+    }));
+}
@@ -0,0 +1,156 @@
+"use client";
+
+import { useEffect } from "react";
+import { useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { DEFAULT_NETWORK } from "@/lib/sui-config";
+import { getEventStream } from "@/lib/event-stream";
+import type { CalibrEvent } from "@/lib/calibr-events";
+import { toMarket, type Market } from "@/lib/calibr-types";
+import { add, points } from "@/lib/amounts";
+import type { UserPrediction } from "@/hooks/useUserPredictions";
+import type { PointsBalance } from "@/hooks/usePointsBalance";
+
+/**
+ * Keep market, prediction and balance queries fresh from the shared event
+ * stream instead of polling. Mount once, inside the QueryClientProvider.
+ */
+export function useLiveUpdates() {
+    const queryClient = useQueryClient();
+
+    useEffect(() => {
+        return getEventStream(DEFAULT_NETWORK).subscribe(event => applyEvent(queryClient, event));
+    }, [queryClient]);
+}
+
+interface PoolState {
+    yesRiskTotal: number;
+    noRiskTotal: number;
+    yesCount: number;
+    noCount: number;
+}
+
+function applyEvent(queryClient: QueryClient, event: CalibrEvent) {
+    switch (event.type) {
+        case "MarketCreated":
+            // A new market needs its full object; refetch the lists once
+            queryClient.invalidateQueries({ queryKey: ["markets", DEFAULT_NETWORK] });
+            break;
+
+        case "PredictionPlaced": {
+            const { predictionId, marketId, user, side, confidence, risk, stake } = event.data;
+            // The event carries no pool totals, and a cache fetched after the
+            // transaction already counts it, so adding it on could count it twice
+            queryClient.invalidateQueries({ queryKey: ["market", DEFAULT_NETWORK, marketId] });
+            queryClient.invalidateQueries({ queryKey: ["markets", DEFAULT_NETWORK] });
+            queryClient.invalidateQueries({ queryKey: ["market-history", DEFAULT_NETWORK, marketId] });
+
+            queryClient.setQueriesData<UserPrediction[]>(
+                { queryKey: ["user-predictions", user] },
+                (predictions) => {
+                    if (!predictions || predictions.some(p => p.predictionId === predictionId)) return predictions;
+                    return [
+                        {
+                            predictionId,
+                            marketId,
+                            side,
+                            confidence,
+                            risk: Number(risk),
+                            stake: Number(stake),
+                            status: "active",
+                        },
+                        ...predictions,
+                    ];
+                }
+            );
+            // The stake may have come from the points balance
+            queryClient.invalidateQueries({ queryKey: ["points-balance", user] });
+            break;
+        }
+
+        case "MarketLocked": {
+            const { marketId, yesRiskTotal, noRiskTotal, yesCount, noCount } = event.data;
+            updateMarket(queryClient, marketId, {
+                pools: () => ({
+                    yesRiskTotal: Number(yesRiskTotal),
+                    noRiskTotal: Number(noRiskTotal),
+                    yesCount,
+                    noCount,
+                }),
+                locked: true,
+            });
+            break;
+        }
+
+        case "MarketResolved":
+            updateMarket(queryClient, event.data.marketId, {
+                locked: true,
+                resolved: true,
+                outcome: event.data.outcome,
+            });
+            break;
+
+        // Settlement outcomes are linked across several events, so refetch
+        case "PredictionSettled":
+        case "ReputationUpdated":
+        case "ConfidenceCapChanged":
+            queryClient.invalidateQueries({ queryKey: ["user-predictions", event.data.user] });
+            if (event.type === "ReputationUpdated") {
+                queryClient.invalidateQueries({ queryKey: ["reputation-history", event.data.user] });
+            }
+            if (event.type === "PredictionSettled") {
+                queryClient.invalidateQueries({ queryKey: ["points-balance", event.data.user] });
+            }
+            break;
+
+        case "PointsPurchased":
+        case "PointsRedeemed": {
+            const delta = event.type === "PointsPurchased" ? event.data.pointsAmount : -event.data.pointsAmount;
+            queryClient.setQueriesData<PointsBalance | null>(
+                { queryKey: ["points-balance", event.data.user] },
+                (balance) => balance ? { ...balance, balance: add(balance.balance, points(delta)) } : balance
+            );
+            // First purchase creates the PointsBalance object
+            if (event.type === "PointsPurchased") {
+                const cached = queryClient.getQueriesData<PointsBalance | null>({ queryKey: ["points-balance", event.data.user] });
+                if (cached.some(([, balance]) => !balance)) {
+                    queryClient.invalidateQueries({ queryKey: ["points-balance", event.data.user] });
+                }
+            }
+            break;
+        }
+
+        case "ProfileCreated":
+            break;
+    }
+}
+
+interface MarketChange {
+    pools?: (current: PoolState) => PoolState;
+    locked?: boolean;
+    resolved?: boolean;
+    outcome?: boolean;
+}
+
+/**
+ * Patch a market in both its detail cache and the list caches, re-deriving
+ * status and probability through toMarket() so they match a fresh fetch.
+ */
+function updateMarket(queryClient: QueryClient, marketId: string, change: MarketChange) {
+    // Every market event adds a point or marker to the history chart
+    queryClient.invalidateQueries({ queryKey: ["market-history", DEFAULT_NETWORK, marketId] });
+
+    const patch = (market: Market): Market => toMarket({
+        ...market,
+        ...(change.pools ? change.pools(market) : {}),
+        locked: change.locked ?? market.locked,
+        resolved: change.resolved ?? market.resolved,
+        outcome: change.outcome ?? market.outcome,
+    }, market);
+
+    queryClient.setQueryData<Market | null>(["market", DEFAULT_NETWORK, marketId], (market) =>
+        market ? patch(market) : market
+    );
+    queryClient.setQueriesData<Market[]>({ queryKey: ["markets", DEFAULT_NETWORK] }, (markets) =>
+        markets?.map((market) => market.id === marketId ? patch(market) : market)
+    );
+}
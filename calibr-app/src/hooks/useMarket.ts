@@ -0,0 +1,13 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { DEFAULT_NETWORK } from "@/lib/sui-config";
+import { loadMarket } from "@/lib/market-data";
+
+export function useMarket(marketId?: string) {
+    return useQuery({
+        queryKey: ["market", DEFAULT_NETWORK, marketId],
+        enabled: !!marketId,
+        queryFn: () => loadMarket(marketId!),
+    });
+}
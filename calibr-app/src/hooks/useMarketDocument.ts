@@ -0,0 +1,17 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { loadMarketDocument } from "@/lib/market-documents";
+
+/**
+ * A market's metadata document, verified against the hash in its question.
+ * Documents are content-addressed, so a loaded one never goes stale.
+ */
+export function useMarketDocument(documentHash: string | null | undefined) {
+    return useQuery({
+        queryKey: ["market-document", documentHash],
+        enabled: !!documentHash,
+        queryFn: () => loadMarketDocument(documentHash!),
+        staleTime: Infinity,
+    });
+}
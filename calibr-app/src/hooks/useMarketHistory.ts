@@ -0,0 +1,15 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { DEFAULT_NETWORK } from "@/lib/sui-config";
+import { loadMarketHistory } from "@/lib/market-data";
+import type { MarketHistory } from "@/lib/market-history";
+import type { Market } from "@/lib/calibr-types";
+
+export function useMarketHistory(market?: Market | null) {
+    return useQuery({
+        queryKey: ["market-history", DEFAULT_NETWORK, market?.id],
+        enabled: !!market,
+        queryFn: (): Promise<MarketHistory> => loadMarketHistory(market!),
+    });
+}
@@ -0,0 +1,28 @@
+"use client";
+
+import { useMemo } from "react";
+import { useMarketHistory } from "@/hooks/useMarketHistory";
+import { useLeaderboard } from "@/hooks/useLeaderboard";
+import { summarizeParticipants } from "@/lib/market-participants";
+import type { Market } from "@/lib/calibr-types";
+
+/**
+ * Participant breakdown for a market. Entries come from the same query as
+ * the probability history; reputations from the all-time leaderboard.
+ */
+export function useMarketParticipants(market?: Market | null) {
+    const { data: history, isLoading } = useMarketHistory(market);
+    const { data: leaderboard } = useLeaderboard(null, "All Time");
+
+    const summary = useMemo(() => {
+        if (!history) return undefined;
+        const reputations = new Map((leaderboard ?? []).map(u => [u.address, u.reputation]));
+        return summarizeParticipants(history.entries, reputations);
+    }, [history, leaderboard]);
+
+    return {
+        summary,
+        entries: history?.entries ?? [],
+        isLoading,
+    };
+}
@@ -0,0 +1,14 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { loadMarketRegistry } from "@/lib/market-metadata";
+
+/**
+ * Categories and per-market labels from the metadata registry
+ */
+export function useMarketRegistry() {
+    return useQuery({
+        queryKey: ["market-registry"],
+        queryFn: loadMarketRegistry,
+    });
+}
@@ -0,0 +1,27 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { getMarketStatus, type Market, type MarketStatus } from "@/lib/calibr-types";
+
+// setTimeout fires immediately for delays past a signed 32-bit int
+const MAX_TIMEOUT_MS = 2_147_483_647;
+
+/**
+ * A market's status, re-derived when its deadline passes. Market queries only
+ * derive it when they load, so an open page would keep offering predictions
+ * on a market that has since expired.
+ */
+export function useMarketStatus(market?: Pick<Market, "locked" | "resolved" | "deadline"> | null): MarketStatus | undefined {
+    const [, setTick] = useState(0);
+    const deadline = market?.deadline ?? 0;
+
+    useEffect(() => {
+        const delay = deadline - Date.now();
+        if (deadline <= 0 || delay <= 0 || delay > MAX_TIMEOUT_MS) return;
+
+        const timer = setTimeout(() => setTick(t => t + 1), delay);
+        return () => clearTimeout(timer);
+    }, [deadline]);
+
+    return market ? getMarketStatus(market) : undefined;
+}
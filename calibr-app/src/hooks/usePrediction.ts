@@ -0,0 +1,13 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { DEFAULT_NETWORK } from "@/lib/sui-config";
+import { loadPrediction } from "@/lib/user-predictions";
+
+export function usePrediction(predictionId?: string) {
+    return useQuery({
+        queryKey: ["prediction", predictionId, DEFAULT_NETWORK],
+        enabled: !!predictionId,
+        queryFn: () => loadPrediction(predictionId!),
+    });
+}
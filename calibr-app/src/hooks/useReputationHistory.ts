@@ -0,0 +1,101 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { DEFAULT_NETWORK } from "@/lib/sui-config";
+import { getSuiRpcClient } from "@/lib/sui-rpc";
+import { decodeEvent, linkSettlements, type CalibrEvent } from "@/lib/calibr-events";
+import { decodeQuestion, splitDocumentCommitment } from "@/lib/calibr-types";
+import { fetchIndexedMarkets, fetchIndexedUser, fetchIndexedUserPredictions, isIndexerEnabled } from "@/lib/indexer-client";
+
+export interface ReputationPoint {
+    timestampMs: number;
+    score: number;
+    change: number;
+    // The settled prediction behind this change (absent on the starting point)
+    marketId?: string;
+    question?: string;
+    confidence?: number;
+    correct?: boolean;
+}
+
+export function useReputationHistory(address?: string | null) {
+    return useQuery({
+        queryKey: ["reputation-history", address, DEFAULT_NETWORK],
+        enabled: !!address,
+        queryFn: (): Promise<ReputationPoint[]> =>
+            isIndexerEnabled() ? fetchHistoryFromIndexer(address!) : fetchHistoryFromChain(address!),
+    });
+}
+
+async function fetchHistoryFromIndexer(address: string): Promise<ReputationPoint[]> {
+    const [user, predictions, markets] = await Promise.all([
+        fetchIndexedUser(address),
+        fetchIndexedUserPredictions(address),
+        fetchIndexedMarkets(),
+    ]);
+    const questions = new Map(markets.map(m => [m.id, splitDocumentCommitment(m.question).question]));
+
+    const changes = predictions
+        .filter(p => p.settled && p.newScore !== null)
+        .sort((a, b) => (a.settledAtMs ?? 0) - (b.settledAtMs ?? 0))
+        .map((p): ReputationPoint => ({
+            timestampMs: p.settledAtMs ?? 0,
+            score: p.newScore!,
+            change: p.newScore! - (p.oldScore ?? p.newScore!),
+            marketId: p.marketId,
+            question: questions.get(p.marketId),
+            confidence: p.confidence,
+            correct: !!p.won,
+        }));
+
+    const start: ReputationPoint = {
+        timestampMs: user.createdAtMs ?? changes[0]?.timestampMs ?? Date.now(),
+        score: changes[0] ? changes[0].score - changes[0].change : user.reputation,
+        change: 0,
+    };
+    return [start, ...changes];
+}
+
+// Profiles are created and predictions settled by the user's own transactions,
+// so filtering by sender finds every reputation change without a global scan
+async function fetchHistoryFromChain(address: string): Promise<ReputationPoint[]> {
+    const client = getSuiRpcClient();
+    const events = (await client.queryAllEvents({ Sender: address }))
+        .map(decodeEvent)
+        .filter((e): e is CalibrEvent => e !== null && "user" in e.data && e.data.user === address);
+
+    const settlements = Array.from(linkSettlements(events).values())
+        .filter(s => s.reputation !== null)
+        .sort((a, b) => (a.settled.timestampMs ?? 0) - (b.settled.timestampMs ?? 0));
+
+    // Market questions for the tooltips
+    const marketIds = Array.from(new Set(settlements.map(s => s.settled.data.marketId)));
+    const markets = await client.multiGetObjects(marketIds, { showContent: true });
+    const questions = new Map<string, string>();
+    markets.forEach((obj, i) => {
+        const content = obj.data?.content;
+        if (content?.dataType === "moveObject") {
+            questions.set(marketIds[i], splitDocumentCommitment(decodeQuestion((content.fields as any).question ?? [])).question);
+        }
+    });
+
+    const changes = settlements.map(({ settled, reputation }): ReputationPoint => ({
+        timestampMs: settled.timestampMs ?? 0,
+        score: reputation!.data.newScore,
+        change: reputation!.data.newScore - reputation!.data.oldScore,
+        marketId: settled.data.marketId,
+        question: questions.get(settled.data.marketId),
+        confidence: settled.data.confidence,
+        correct: settled.data.won,
+    }));
+
+    const profile = events.find(e => e.type === "ProfileCreated");
+    const start: ReputationPoint = {
+        timestampMs: profile?.timestampMs ?? changes[0]?.timestampMs ?? Date.now(),
+        score: profile?.type === "ProfileCreated"
+            ? profile.data.initialReputation
+            : changes[0] ? changes[0].score - changes[0].change : 700,
+        change: 0,
+    };
+    return [start, ...changes];
+}
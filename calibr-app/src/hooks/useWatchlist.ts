@@ -0,0 +1,72 @@
+"use client";
+
+import { useCallback } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { useWallet } from "@/hooks/useWallet";
+import type { Market } from "@/lib/calibr-types";
+import {
+    EMPTY_WATCHLIST,
+    isWatchlistSyncEnabled,
+    isWatching,
+    loadWatchlist,
+    pushWatchlist,
+    readLocalWatchlist,
+    toggleWatch,
+    writeLocalWatchlist,
+    type Watchlist,
+} from "@/lib/watchlist";
+
+// Quick successive toggles are synced with one signature
+const SYNC_DEBOUNCE_MS = 1500;
+
+// Shared by every mounted star, so a page of cards schedules a single sync
+const pendingSyncs = new Map<string, ReturnType<typeof setTimeout>>();
+
+/**
+ * The connected wallet's watchlist, shared through the query cache so every
+ * star on the page updates together
+ */
+export function useWatchlist() {
+    const { address, signPersonalMessage } = useWallet();
+    const queryClient = useQueryClient();
+    const query = useQuery({
+        queryKey: ["watchlist", address],
+        enabled: !!address,
+        queryFn: () => loadWatchlist(address!),
+        staleTime: Infinity,
+    });
+    const watchlist = query.data ?? EMPTY_WATCHLIST;
+
+    const scheduleSync = useCallback((owner: string) => {
+        clearTimeout(pendingSyncs.get(owner));
+        pendingSyncs.set(owner, setTimeout(async () => {
+            pendingSyncs.delete(owner);
+            try {
+                await pushWatchlist(owner, readLocalWatchlist(owner), signPersonalMessage);
+            } catch (error) {
+                console.error("Watchlist sync failed:", error);
+                toast.error("Watchlist saved on this device only: " + (error instanceof Error ? error.message : "sync failed"));
+            }
+        }, SYNC_DEBOUNCE_MS));
+    }, [signPersonalMessage]);
+
+    const toggle = useCallback((market: Pick<Market, "id" | "yesPercentage">) => {
+        if (!address) {
+            toast.error("Connect a wallet to watch markets");
+            return;
+        }
+        const current = queryClient.getQueryData<Watchlist>(["watchlist", address]) ?? readLocalWatchlist(address);
+        const next = toggleWatch(current, market);
+        writeLocalWatchlist(address, next);
+        queryClient.setQueryData(["watchlist", address], next);
+        if (isWatchlistSyncEnabled()) scheduleSync(address);
+    }, [address, queryClient, scheduleSync]);
+
+    return {
+        watchlist,
+        isLoading: query.isLoading,
+        isWatching: (marketId: string) => isWatching(watchlist, marketId),
+        toggle,
+    };
+}
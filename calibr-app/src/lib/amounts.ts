@@ -0,0 +1,192 @@
+/**
+ * Calibr Protocol - Amounts
+ *
+ * Every on-chain quantity is a u64, so amounts are carried as bigint and
+ * branded with their unit. A Points value can't be added to a Mist value,
+ * passed where SUI is expected, or silently rounded through a float; the
+ * compiler rejects it. Convert at the edges: parse chain/indexer values with
+ * the constructors below, and format to strings for display.
+ *
+ *   Points - Calibr points (points_token::PointsBalance, stakes, payouts, PnL)
+ *   Mist   - 10^-9 SUI, the unit coins and gas are denominated in
+ *   Sui    - whole SUI; fractional SUI is always carried as Mist
+ */
+
+declare const unit: unique symbol;
+
+type Amount<U extends string> = bigint & { readonly [unit]: U };
+
+export type Points = Amount<"points">;
+export type Mist = Amount<"mist">;
+export type Sui = Amount<"sui">;
+
+export type AnyAmount = Points | Mist | Sui;
+
+/** Anything an RPC, indexer or form hands us for a u64 */
+export type AmountInput = bigint | number | string;
+
+function toBigInt(value: AmountInput, label: string): bigint {
+    if (typeof value === "bigint") return value;
+    if (typeof value === "number") {
+        if (!Number.isSafeInteger(value)) {
+            throw new Error(`${label} must be a safe integer, got ${value}`);
+        }
+        return BigInt(value);
+    }
+    const text = value.trim();
+    if (!/^-?\d+$/.test(text)) {
+        throw new Error(`${label} must be an integer, got "${value}"`);
+    }
+    return BigInt(text);
+}
+
+// ============================================================
+// CONSTRUCTORS
+// ============================================================
+
+export function points(value: AmountInput): Points {
+    return toBigInt(value, "Points") as Points;
+}
+
+export function mist(value: AmountInput): Mist {
+    return toBigInt(value, "MIST") as Mist;
+}
+
+export function sui(value: AmountInput): Sui {
+    return toBigInt(value, "SUI") as Sui;
+}
+
+export const ZERO_POINTS = points(0);
+export const ZERO_MIST = mist(0);
+
+// ============================================================
+// ARITHMETIC (same unit only)
+// ============================================================
+
+// NoInfer-style parameters: the unit is taken from the first argument, so
+// add(points, mist) fails to compile instead of widening to a union
+type Same<T> = [T][T extends unknown ? 0 : never];
+
+export function add<T extends AnyAmount>(a: T, b: Same<T>): T {
+    return ((a as bigint) + (b as bigint)) as T;
+}
+
+export function sub<T extends AnyAmount>(a: T, b: Same<T>): T {
+    return ((a as bigint) - (b as bigint)) as T;
+}
+
+export function sum<T extends AnyAmount>(values: T[], zero: Same<T>): T {
+    return values.reduce<bigint>((total, value) => total + value, zero) as T;
+}
+
+export function negate<T extends AnyAmount>(a: T): T {
+    return -(a as bigint) as T;
+}
+
+export function compare<T extends AnyAmount>(a: T, b: Same<T>): number {
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+export function sign(a: AnyAmount): -1 | 0 | 1 {
+    return a < BigInt(0) ? -1 : a > BigInt(0) ? 1 : 0;
+}
+
+/** a * numerator / denominator, rounded down like the contract's math::mul_div */
+export function mulDiv<T extends AnyAmount>(a: T, numerator: bigint | number, denominator: bigint | number): T {
+    const den = BigInt(denominator);
+    if (den === BigInt(0)) throw new Error("Division by zero");
+    return ((a * BigInt(numerator)) / den) as T;
+}
+
+/** Percentage of an amount, rounded down (fees are computed this way on-chain) */
+export function percentOf<T extends AnyAmount>(a: T, pct: number): T {
+    return mulDiv(a, pct, 100);
+}
+
+// ============================================================
+// CONVERSIONS
+// ============================================================
+
+const SUI_DECIMALS = 9;
+
+// 1 SUI = 1,000,000,000 MIST
+export const MIST_PER_SUI = mist(1_000_000_000);
+
+export function suiToMist(amount: Sui): Mist {
+    return (amount * MIST_PER_SUI) as Mist;
+}
+
+/**
+ * Parse a decimal SUI string ("1.5", "0.000000001") into exact MIST.
+ * Rejects more than 9 decimal places rather than rounding.
+ */
+export function parseSui(text: string): Mist {
+    const match = /^(-)?(\d*)(?:\.(\d*))?$/.exec(text.trim());
+    if (!match || (!match[2] && !match[3])) {
+        throw new Error(`Invalid SUI amount "${text}"`);
+    }
+    const [, minus, whole, fraction = ""] = match;
+    if (fraction.length > SUI_DECIMALS) {
+        throw new Error(`SUI has at most ${SUI_DECIMALS} decimal places`);
+    }
+    const value = BigInt(whole || "0") * MIST_PER_SUI + BigInt(fraction.padEnd(SUI_DECIMALS, "0") || "0");
+    return mist(minus ? -value : value);
+}
+
+/**
+ * Lossy conversion for charts and percentages. Never feed the result back
+ * into a transaction.
+ */
+export function toNumber(amount: AnyAmount): number {
+    return Number(amount);
+}
+
+// ============================================================
+// FORMATTING
+// ============================================================
+
+function groupThousands(digits: string): string {
+    return digits.replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+}
+
+/** value / scale as a decimal string, truncated (not rounded) to `decimals` places */
+function formatScaled(value: bigint, scale: bigint, decimals: number): string {
+    const negative = value < BigInt(0);
+    const abs = negative ? -value : value;
+    const whole = groupThousands((abs / scale).toString());
+    const fraction = ((abs % scale) * BigInt("1" + "0".repeat(decimals))) / scale;
+    const text = decimals > 0 ? `${whole}.${fraction.toString().padStart(decimals, "0")}` : whole;
+    return negative && /[1-9]/.test(text) ? `-${text}` : text;
+}
+
+/**
+ * MIST as a SUI decimal string, truncated to `decimals` places.
+ * formatMist(mist(1_234_500_000)) === "1.2345"
+ */
+export function formatMist(amount: Mist, decimals = 4): string {
+    return formatScaled(amount, MIST_PER_SUI, decimals);
+}
+
+export interface FormatPointsOptions {
+    /** Prefix positive values with "+" (PnL) */
+    signed?: boolean;
+    /** 1.2K / 3.4M from 1,000 up */
+    compact?: boolean;
+}
+
+export function formatPoints(amount: Points, { signed = false, compact = false }: FormatPointsOptions = {}): string {
+    const abs = amount < BigInt(0) ? -amount : amount;
+
+    let text: string;
+    if (compact && abs >= BigInt(1_000_000)) {
+        text = `${formatScaled(abs, BigInt(1_000_000), 1)}M`;
+    } else if (compact && abs >= BigInt(1_000)) {
+        text = `${formatScaled(abs, BigInt(1_000), 1)}K`;
+    } else {
+        text = groupThousands(abs.toString());
+    }
+    text = text.replace(/\.0(?=[KM]$)/, "");
+
+    if (amount < BigInt(0)) return `-${text}`;
+    return signed && amount > BigInt(0) ? `+${text}` : text;
+}
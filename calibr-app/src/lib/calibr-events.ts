@@ -0,0 +1,384 @@
+/**
+ * Calibr Protocol - Event Schemas and Decoder
+ *
+ * Zod schemas for every event struct in contracts/sources/events.move,
+ * and a decodeEvent() dispatcher that turns raw SuiEvents into a typed
+ * discriminated union.
+ *
+ * u64 token amounts (stake, risk, payouts, points, MIST) decode to bigint.
+ * Bounded u64s (confidence, scores, counts, timestamps) decode to number.
+ * vector<u8> description fields decode to strings.
+ */
+
+import { z } from "zod";
+import type { SuiEvent } from "@mysten/sui/jsonRpc";
+import { decodeQuestion, getCalibrStructType, splitDocumentCommitment } from "./calibr-types";
+
+// ============================================================
+// FIELD SCHEMAS
+// ============================================================
+
+// u64s arrive as decimal strings in parsedJson (numbers from some fixtures)
+const u64String = z.union([
+    z.string().regex(/^\d+$/, "Expected an unsigned integer"),
+    z.number().int().nonnegative(),
+]);
+
+/** Token amounts: kept exact as bigint */
+const amount = u64String.transform(value => BigInt(value));
+
+/** Values known to stay well below 2^53 */
+const smallU64 = u64String
+    .transform(value => Number(value))
+    .refine(value => Number.isSafeInteger(value), "Value exceeds Number.MAX_SAFE_INTEGER");
+
+const objectId = z.string();
+const address = z.string();
+
+const bytes = z.union([z.array(z.number().int().min(0).max(255)), z.string()]);
+
+/** UTF-8 vector<u8> such as b"YES" or b"Proven" */
+const text = bytes.transform(value =>
+    typeof value === "string" ? value : new TextDecoder().decode(new Uint8Array(value))
+);
+
+/** Market questions, which may be hex-encoded before being stored as bytes and may carry a document commitment */
+const question = bytes.transform(value => splitDocumentCommitment(decodeQuestion(value)).question);
+
+// ============================================================
+// EVENT SCHEMAS
+// ============================================================
+
+export const MarketCreatedSchema = z.object({
+    market_id: objectId,
+    question,
+    deadline: smallU64,
+    authority: address,
+}).transform(e => ({
+    marketId: e.market_id,
+    question: e.question,
+    deadline: e.deadline,
+    authority: e.authority,
+}));
+
+export const MarketLockedSchema = z.object({
+    market_id: objectId,
+    yes_count: smallU64,
+    no_count: smallU64,
+    yes_risk_total: amount,
+    no_risk_total: amount,
+}).transform(e => ({
+    marketId: e.market_id,
+    yesCount: e.yes_count,
+    noCount: e.no_count,
+    yesRiskTotal: e.yes_risk_total,
+    noRiskTotal: e.no_risk_total,
+}));
+
+export const MarketResolvedSchema = z.object({
+    market_id: objectId,
+    outcome: z.boolean(),
+    outcome_description: text,
+    winner_count: smallU64,
+    loser_count: smallU64,
+    total_winner_risk: amount,
+    loser_pool: amount,
+    resolved_by: address,
+}).transform(e => ({
+    marketId: e.market_id,
+    outcome: e.outcome,
+    outcomeDescription: e.outcome_description,
+    winnerCount: e.winner_count,
+    loserCount: e.loser_count,
+    totalWinnerRisk: e.total_winner_risk,
+    loserPool: e.loser_pool,
+    resolvedBy: e.resolved_by,
+}));
+
+export const PredictionPlacedSchema = z.object({
+    prediction_id: objectId,
+    market_id: objectId,
+    user: address,
+    side: z.boolean(),
+    side_description: text,
+    confidence: smallU64,
+    risk: amount,
+    protected: amount,
+    stake: amount,
+    user_max_confidence: smallU64,
+}).transform(e => ({
+    predictionId: e.prediction_id,
+    marketId: e.market_id,
+    user: e.user,
+    side: e.side,
+    sideDescription: e.side_description,
+    confidence: e.confidence,
+    risk: e.risk,
+    protected: e.protected,
+    stake: e.stake,
+    userMaxConfidence: e.user_max_confidence,
+}));
+
+export const PredictionSettledSchema = z.object({
+    prediction_id: objectId,
+    market_id: objectId,
+    user: address,
+    won: z.boolean(),
+    result_description: text,
+    confidence: smallU64,
+    risk: amount,
+    payout: amount,
+    profit: amount,
+    loss: amount,
+    skill_score: smallU64,
+}).transform(e => ({
+    predictionId: e.prediction_id,
+    marketId: e.market_id,
+    user: e.user,
+    won: e.won,
+    resultDescription: e.result_description,
+    confidence: e.confidence,
+    risk: e.risk,
+    payout: e.payout,
+    profit: e.profit,
+    loss: e.loss,
+    skillScore: e.skill_score,
+}));
+
+export const ProfileCreatedSchema = z.object({
+    user: address,
+    profile_id: objectId,
+    initial_reputation: smallU64,
+    initial_max_confidence: smallU64,
+    tier: text,
+}).transform(e => ({
+    user: e.user,
+    profileId: e.profile_id,
+    initialReputation: e.initial_reputation,
+    initialMaxConfidence: e.initial_max_confidence,
+    tier: e.tier,
+}));
+
+export const ReputationUpdatedSchema = z.object({
+    user: address,
+    old_score: smallU64,
+    new_score: smallU64,
+    change_direction: text,
+    change_amount: smallU64,
+    skill_score: smallU64,
+    prediction_count_before: smallU64,
+    prediction_count_after: smallU64,
+    prediction_confidence: smallU64,
+    prediction_was_correct: z.boolean(),
+}).transform(e => ({
+    user: e.user,
+    oldScore: e.old_score,
+    newScore: e.new_score,
+    changeDirection: e.change_direction,
+    changeAmount: e.change_amount,
+    skillScore: e.skill_score,
+    predictionCountBefore: e.prediction_count_before,
+    predictionCountAfter: e.prediction_count_after,
+    predictionConfidence: e.prediction_confidence,
+    predictionWasCorrect: e.prediction_was_correct,
+}));
+
+export const ConfidenceCapChangedSchema = z.object({
+    user: address,
+    old_cap: smallU64,
+    new_cap: smallU64,
+    old_tier: text,
+    new_tier: text,
+    reputation_score: smallU64,
+    direction: text,
+}).transform(e => ({
+    user: e.user,
+    oldCap: e.old_cap,
+    newCap: e.new_cap,
+    oldTier: e.old_tier,
+    newTier: e.new_tier,
+    reputationScore: e.reputation_score,
+    direction: e.direction,
+}));
+
+export const PointsPurchasedSchema = z.object({
+    user: address,
+    points_amount: amount,
+    sui_paid: amount,
+    price_per_100: amount,
+}).transform(e => ({
+    user: e.user,
+    pointsAmount: e.points_amount,
+    suiPaid: e.sui_paid,
+    pricePer100: e.price_per_100,
+}));
+
+export const PointsRedeemedSchema = z.object({
+    user: address,
+    points_amount: amount,
+    sui_received: amount,
+    fee: amount,
+    fee_burned: amount,
+    fee_treasury: amount,
+}).transform(e => ({
+    user: e.user,
+    pointsAmount: e.points_amount,
+    suiReceived: e.sui_received,
+    fee: e.fee,
+    feeBurned: e.fee_burned,
+    feeTreasury: e.fee_treasury,
+}));
+
+/**
+ * Decoder registry, keyed by the struct name in the events module.
+ */
+export const CALIBR_EVENT_SCHEMAS = {
+    MarketCreated: MarketCreatedSchema,
+    MarketLocked: MarketLockedSchema,
+    MarketResolved: MarketResolvedSchema,
+    PredictionPlaced: PredictionPlacedSchema,
+    PredictionSettled: PredictionSettledSchema,
+    ProfileCreated: ProfileCreatedSchema,
+    ReputationUpdated: ReputationUpdatedSchema,
+    ConfidenceCapChanged: ConfidenceCapChangedSchema,
+    PointsPurchased: PointsPurchasedSchema,
+    PointsRedeemed: PointsRedeemedSchema,
+} as const;
+
+// ============================================================
+// DECODED TYPES
+// ============================================================
+
+export type CalibrEventName = keyof typeof CALIBR_EVENT_SCHEMAS;
+
+export type CalibrEventData<N extends CalibrEventName> = z.output<(typeof CALIBR_EVENT_SCHEMAS)[N]>;
+
+export type MarketCreatedEvent = CalibrEventData<"MarketCreated">;
+export type MarketLockedEvent = CalibrEventData<"MarketLocked">;
+export type MarketResolvedEvent = CalibrEventData<"MarketResolved">;
+export type PredictionPlacedEvent = CalibrEventData<"PredictionPlaced">;
+export type PredictionSettledEvent = CalibrEventData<"PredictionSettled">;
+export type ProfileCreatedEvent = CalibrEventData<"ProfileCreated">;
+export type ReputationUpdatedEvent = CalibrEventData<"ReputationUpdated">;
+export type ConfidenceCapChangedEvent = CalibrEventData<"ConfidenceCapChanged">;
+export type PointsPurchasedEvent = CalibrEventData<"PointsPurchased">;
+export type PointsRedeemedEvent = CalibrEventData<"PointsRedeemed">;
+
+/**
+ * A decoded event with its chain position. Narrow on `type` to get
+ * the matching `data` shape.
+ */
+export type CalibrEvent = {
+    [N in CalibrEventName]: {
+        type: N;
+        data: CalibrEventData<N>;
+        txDigest: string;
+        eventSeq: number;
+        timestampMs: number | null;
+        sender: string;
+    };
+}[CalibrEventName];
+
+export type CalibrEventOf<N extends CalibrEventName> = Extract<CalibrEvent, { type: N }>;
+
+// ============================================================
+// DECODER
+// ============================================================
+
+/**
+ * Full MoveEventType for a Calibr event on the current package.
+ * Example: getCalibrEventType("MarketCreated") => "0x...::events::MarketCreated"
+ */
+export function getCalibrEventType(name: CalibrEventName): string {
+    return getCalibrStructType(name, "events");
+}
+
+function getEventName(type: string): CalibrEventName | null {
+    const [, module, name] = type.split("::");
+    if (module !== "events" || !(name in CALIBR_EVENT_SCHEMAS)) return null;
+    return name as CalibrEventName;
+}
+
+/**
+ * Decode a raw SuiEvent. Returns null for events that are not Calibr
+ * events or whose payload does not match the schema.
+ */
+export function decodeEvent(event: SuiEvent): CalibrEvent | null {
+    const name = getEventName(event.type);
+    if (!name) return null;
+
+    const result = CALIBR_EVENT_SCHEMAS[name].safeParse(event.parsedJson);
+    if (!result.success) {
+        console.error(`Failed to decode ${name} event:`, result.error.issues);
+        return null;
+    }
+
+    return {
+        type: name,
+        data: result.data,
+        txDigest: event.id.txDigest,
+        eventSeq: Number(event.id.eventSeq),
+        timestampMs: event.timestampMs ? Number(event.timestampMs) : null,
+        sender: event.sender,
+    } as CalibrEvent;
+}
+
+/**
+ * Decode a page of events, keeping only those of the given type.
+ */
+export function decodeEvents<N extends CalibrEventName>(events: SuiEvent[], name: N): CalibrEventOf<N>[] {
+    return events
+        .map(decodeEvent)
+        .filter((e): e is CalibrEventOf<N> => e !== null && e.type === name);
+}
+
+// ============================================================
+// SETTLEMENT LINKING
+// ============================================================
+
+/**
+ * Everything a single settlement changed. settle_prediction emits
+ * PredictionSettled, then ReputationUpdated, then ConfidenceCapChanged
+ * (only when a tier boundary is crossed), all in the same transaction.
+ */
+export interface SettlementOutcome {
+    settled: CalibrEventOf<"PredictionSettled">;
+    reputation: CalibrEventOf<"ReputationUpdated"> | null;
+    capChange: CalibrEventOf<"ConfidenceCapChanged"> | null;
+}
+
+/**
+ * Group settlement, reputation and cap-change events by transaction and
+ * pair each ReputationUpdated / ConfidenceCapChanged with the closest
+ * preceding PredictionSettled for the same user in that transaction.
+ * Returns outcomes keyed by prediction ID.
+ */
+export function linkSettlements(events: CalibrEvent[]): Map<string, SettlementOutcome> {
+    const byTx = new Map<string, CalibrEvent[]>();
+    for (const event of events) {
+        const group = byTx.get(event.txDigest) ?? [];
+        group.push(event);
+        byTx.set(event.txDigest, group);
+    }
+
+    const outcomes = new Map<string, SettlementOutcome>();
+    byTx.forEach(group => {
+        const latestByUser = new Map<string, SettlementOutcome>();
+
+        for (const event of [...group].sort((a, b) => a.eventSeq - b.eventSeq)) {
+            if (event.type === "PredictionSettled") {
+                const outcome: SettlementOutcome = { settled: event, reputation: null, capChange: null };
+                outcomes.set(event.data.predictionId, outcome);
+                latestByUser.set(event.data.user, outcome);
+            } else if (event.type === "ReputationUpdated") {
+                const outcome = latestByUser.get(event.data.user);
+                if (outcome && !outcome.reputation) outcome.reputation = event;
+            } else if (event.type === "ConfidenceCapChanged") {
+                const outcome = latestByUser.get(event.data.user);
+                if (outcome && !outcome.capChange) outcome.capChange = event;
+            }
+        }
+    });
+
+    return outcomes;
+}
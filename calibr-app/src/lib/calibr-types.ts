@@ -51,22 +51,34 @@ export interface ChainUserProfile {
 }
 
 /**
- * Market as returned from chain (getObject with showContent)
+ * Market as returned from chain (getObject with showContent).
+ * u64 fields arrive as strings.
  */
 export interface ChainMarket {
-    id: string;
-    question: number[]; // UTF-8 bytes, need to decode
-    deadline: number;   // Resolution deadline (milliseconds since epoch)
-    yes_risk_total: number;
-    no_risk_total: number;
-    yes_count: number;
-    no_count: number;
+    question: number[] | string; // UTF-8 bytes, need to decode
+    deadline: string | number;   // Resolution deadline (milliseconds since epoch)
+    yes_risk_total: string | number;
+    no_risk_total: string | number;
+    yes_count: string | number;
+    no_count: string | number;
     locked: boolean;
     resolved: boolean;
-    outcome: { Some: boolean } | { None: null } | null;
+    outcome: ChainOption<boolean>;
     authority: string;
 }
 
+/**
+ * Move Option<T> in its various JSON renderings: the plain value or null
+ * (current fullnodes), `{ Some }`, or the raw `{ fields: { vec } }` struct.
+ */
+export type ChainOption<T> =
+    | T
+    | null
+    | { Some: T }
+    | { None: null }
+    | { vec: T[] }
+    | { fields: { vec: T[] } };
+
 /**
  * Prediction as returned from chain (getOwnedObjects with showContent)
  */
@@ -95,21 +107,59 @@ export interface ParsedUserProfile {
     tier: UserTier;
 }
 
-export interface ParsedMarket {
+/**
+ * Lifecycle of a market. The contract only stops accepting predictions once
+ * the oracle locks it, so a market whose deadline has passed is "expired"
+ * until then, and "resolving" while locked but awaiting its outcome.
+ */
+export type MarketStatus = "active" | "expired" | "resolving" | "resolved";
+
+// Categories are defined by the metadata registry (lib/market-metadata.ts), not in code
+export type MarketCategory = string;
+
+/**
+ * Off-chain labels for a market, from the metadata registry or, for markets
+ * nobody labeled, inferred from the question
+ */
+export interface MarketLabels {
+    category: MarketCategory;
+    tags: string[];
+    categoryInferred: boolean;
+}
+
+/**
+ * Market state as stored on chain (or reconstructed by the indexer),
+ * before anything is derived from it.
+ */
+export interface MarketState {
     id: string;
     question: string;
-    deadline?: number;  // Optional as older markets might not have it
+    deadline: number;   // Milliseconds since epoch; 0 when the market has none
+    authority: string;
     yesRiskTotal: number;
     noRiskTotal: number;
     yesCount: number;
     noCount: number;
     locked: boolean;
     resolved: boolean;
-    outcome: boolean | null;
-    authority: string;
-    // Calculated fields
+    outcome: boolean | null;    // true = YES, false = NO, null = unresolved
+    createdAtMs: number | null; // From MarketCreated; null when not looked up
+}
+
+/**
+ * The app's market model. Every data path (fullnode, indexer, live events)
+ * produces it through toMarket(), so derived fields always agree.
+ */
+export interface Market extends MarketState {
+    status: MarketStatus;
+    category: MarketCategory;
+    tags: string[];
+    categoryInferred: boolean;
+    documentHash: string | null;    // Committed in the question bytes; null for markets created without a document
     totalPredictions: number;
-    yesPercentage: number;
+    yesPercentage: number;  // Implied probability from the risk pools
+    volume: number;         // Points staked (fixed 100 per prediction)
+    isTrending: boolean;
 }
 
 export interface ParsedPrediction {
@@ -135,6 +185,16 @@ export function getTierFromScore(score: number): UserTier {
     return "New";
 }
 
+/**
+ * Tier from a confidence cap (New 70%, Proven 80%, Elite 90%), for events
+ * that record a predictor's cap rather than their score
+ */
+export function getTierFromMaxConfidence(maxConfidence: number): UserTier {
+    if (maxConfidence > 80) return "Elite";
+    if (maxConfidence > 70) return "Proven";
+    return "New";
+}
+
 /**
  * Decode market question from on-chain format.
  * The question is stored as array of ASCII codes representing a hex string,
@@ -168,6 +228,30 @@ export function decodeQuestion(bytes: number[] | string): string {
     }
 }
 
+// ============================================================
+// DOCUMENT COMMITMENT
+// ============================================================
+
+// Appended to the question bytes at creation: "<question>\n\n[calibr-doc sha256:<hex>]"
+const DOCUMENT_COMMITMENT_PATTERN = /\s*\[calibr-doc sha256:([0-9a-f]{64})\]\s*$/;
+
+/**
+ * Bind a metadata document (lib/market-documents.ts) to a market by putting
+ * its hash in the question, which can never change once the market exists
+ */
+export function withDocumentCommitment(question: string, documentHash: string): string {
+    return `${question.trim()}\n\n[calibr-doc sha256:${documentHash}]`;
+}
+
+/**
+ * Separate a decoded question from its document commitment, if it has one
+ */
+export function splitDocumentCommitment(raw: string): { question: string; documentHash: string | null } {
+    const match = DOCUMENT_COMMITMENT_PATTERN.exec(raw);
+    if (!match) return { question: raw, documentHash: null };
+    return { question: raw.slice(0, match.index), documentHash: match[1] };
+}
+
 /**
  * Parse chain UserProfile to frontend-friendly format
  */
@@ -184,46 +268,93 @@ export function parseUserProfile(fields: ChainUserProfile): ParsedUserProfile {
 }
 
 /**
- * Parse chain Market to frontend-friendly format
+ * Unwrap a Move Option from any of its JSON renderings
  */
-export function parseMarket(id: string, fields: ChainMarket): ParsedMarket {
-    const yesCount = Number(fields.yes_count);
-    const noCount = Number(fields.no_count);
-    const totalPredictions = yesCount + noCount;
-
-    // Calculate yes percentage based on risk totals
-    const yesRisk = Number(fields.yes_risk_total);
-    const noRisk = Number(fields.no_risk_total);
-    const totalRisk = yesRisk + noRisk;
-    const yesPercentage = totalRisk > 0 ? Math.round((yesRisk / totalRisk) * 100) : 50;
-
-    // Parse outcome
-    let outcome: boolean | null = null;
-    if (fields.outcome !== undefined && fields.outcome !== null) {
-        if (typeof fields.outcome === 'boolean') {
-            outcome = fields.outcome;
-        } else if (typeof fields.outcome === 'object' && 'Some' in fields.outcome) {
-            outcome = fields.outcome.Some;
-        }
-    }
+export function parseOption<T>(value: ChainOption<T> | undefined): T | null {
+    if (value === undefined || value === null) return null;
+    if (typeof value !== "object") return value;
+    if ("Some" in value) return value.Some;
+    if ("None" in value) return null;
+    const vec = "fields" in value ? value.fields?.vec : "vec" in value ? value.vec : undefined;
+    if (Array.isArray(vec)) return vec.length > 0 ? vec[0] : null;
+    return value as T;
+}
+
+export function getMarketStatus(
+    market: Pick<MarketState, "locked" | "resolved" | "deadline">,
+    nowMs: number = Date.now()
+): MarketStatus {
+    if (market.resolved) return "resolved";
+    if (market.locked) return "resolving";
+    if (market.deadline > 0 && market.deadline <= nowMs) return "expired";
+    return "active";
+}
+
+/**
+ * Build the app model from raw market state and its labels. Accepts a full
+ * Market for both, so patched state can be re-derived after a live update;
+ * its question has already had the document commitment split off.
+ */
+export function toMarket(state: MarketState & Partial<Pick<Market, "documentHash">>, labels: MarketLabels): Market {
+    const { question, documentHash } = splitDocumentCommitment(state.question);
+    const market: MarketState = {
+        id: state.id,
+        question,
+        deadline: state.deadline,
+        authority: state.authority,
+        yesRiskTotal: state.yesRiskTotal,
+        noRiskTotal: state.noRiskTotal,
+        yesCount: state.yesCount,
+        noCount: state.noCount,
+        locked: state.locked,
+        resolved: state.resolved,
+        outcome: state.outcome,
+        createdAtMs: state.createdAtMs,
+    };
+
+    const totalPredictions = market.yesCount + market.noCount;
+    const totalRisk = market.yesRiskTotal + market.noRiskTotal;
+    const volume = totalPredictions * 100;
 
     return {
-        id,
-        question: decodeQuestion(fields.question),
-        deadline: fields.deadline ? Number(fields.deadline) : undefined,
-        yesRiskTotal: yesRisk,
-        noRiskTotal: noRisk,
-        yesCount,
-        noCount,
-        locked: fields.locked,
-        resolved: fields.resolved,
-        outcome,
-        authority: fields.authority,
+        ...market,
+        status: getMarketStatus(market),
+        category: labels.category,
+        tags: labels.tags,
+        categoryInferred: labels.categoryInferred,
+        documentHash: documentHash ?? state.documentHash ?? null,
         totalPredictions,
-        yesPercentage,
+        yesPercentage: totalRisk > 0 ? Math.round((market.yesRiskTotal / totalRisk) * 100) : 50,
+        volume,
+        isTrending: volume > 5000,
     };
 }
 
+/**
+ * Parse a chain Market object's fields into the app model
+ */
+export function parseMarket(
+    id: string,
+    fields: ChainMarket,
+    labels: MarketLabels,
+    createdAtMs: number | null = null
+): Market {
+    return toMarket({
+        id,
+        question: decodeQuestion(fields.question ?? []),
+        deadline: Number(fields.deadline || 0),
+        authority: fields.authority || "",
+        yesRiskTotal: Number(fields.yes_risk_total || 0),
+        noRiskTotal: Number(fields.no_risk_total || 0),
+        yesCount: Number(fields.yes_count || 0),
+        noCount: Number(fields.no_count || 0),
+        locked: !!fields.locked,
+        resolved: !!fields.resolved,
+        outcome: parseOption(fields.outcome),
+        createdAtMs,
+    }, labels);
+}
+
 /**
  * Parse chain Prediction to frontend-friendly format
  */
@@ -257,6 +388,14 @@ export const CONTRACT_ERRORS: Record<number, string> = {
     6: "Market is locked",
     7: "Market is already resolved",
     8: "Confidence exceeds your maximum allowed",
+    9: "You have already placed a prediction on this market",
+
+    // math.move errors (100+)
+    100: "Confidence too low (minimum 50%)",
+    101: "Confidence too high (maximum 90%)",
+
+    // reputation.move errors (200+)
+    200: "You don't own this profile",
 
     // market.move errors (300+)
     300: "Admin capability required",
@@ -276,6 +415,38 @@ export const CONTRACT_ERRORS: Record<number, string> = {
     407: "Prediction does not belong to this market",
     408: "No winner risk total",
     409: "You have already placed a prediction on this market",
+    420: "You don't own this points balance",
+
+    // points_token.move errors (500+)
+    500: "Insufficient points balance",
+    501: "You already have a points balance",
+    502: "No points balance found",
+    503: "Balance would fall below the minimum",
+    504: "You don't own this points balance",
+    505: "Amount must be greater than zero",
+
+    // points_market.move errors (510+)
+    510: "Payment is too low for this many points",
+    511: "Points must be bought in multiples of 100",
+    512: "Amount must be greater than zero",
+    513: "You already have a points balance",
+    514: "No points balance found",
+
+    // redemption.move errors (520+)
+    520: "Reputation too low to redeem",
+    521: "Not enough settled predictions to redeem",
+    522: "Redemption time lock has not passed",
+    523: "Weekly redemption limit exceeded",
+    524: "Insufficient points balance",
+    525: "Redemption amount must be greater than zero",
+    526: "Treasury can't cover this redemption",
+    527: "You don't own this points balance",
+    528: "Below the minimum redemption amount",
+
+    // treasury.move errors (600+)
+    600: "Unauthorized treasury action",
+    601: "Treasury balance too low",
+    602: "No fees to withdraw",
 };
 
 export function getErrorMessage(code: number): string {
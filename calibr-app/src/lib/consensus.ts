@@ -0,0 +1,126 @@
+/**
+ * Calibr Protocol - Consensus Forecast
+ *
+ * The market's yesPercentage is a share of risk, so a brand-new wallet moves
+ * it as much as an Elite forecaster staking the same. The consensus forecast
+ * instead pools every predictor's stated probability in log-odds space,
+ * weighted by how well calibrated they've been:
+ *
+ *   L = a × Σ wᵢ·logit(pᵢ) / Σ wᵢ        consensus = sigmoid(L)
+ *
+ * pᵢ is the YES probability a prediction implies (confidence on YES, or
+ * 1 - confidence on NO). wᵢ is the inverse of the predictor's mean Brier
+ * score, which reputation already tracks (reputation = 1000 × (1 - Brier)),
+ * shrunk towards a coin-flipper's for wallets with few settled predictions.
+ * With a = 1 this is the plain pool; the extremized variant uses a > 1 to
+ * offset forecasters sharing much of the same information.
+ */
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface StatedForecast {
+    user: string;
+    side: boolean;          // true = YES
+    confidence: number;     // 50-90
+}
+
+export interface ForecasterSkill {
+    reputation: number;     // 0-1000
+    settled: number;        // Settled predictions behind the score
+}
+
+export interface ConsensusForecast {
+    /** Pooled YES probability, 0-100 with one decimal */
+    yesProbability: number;
+    /** The same pool extremized by EXTREMIZATION_FACTOR */
+    extremizedProbability: number;
+    forecasters: number;
+    /** (Σw)² / Σw²: how many equally weighted forecasters the pool is worth */
+    effectiveForecasters: number;
+}
+
+// A coin-flipper's Brier score; predictors with no track record are assumed to be one
+const PRIOR_BRIER = 0.25;
+// Settled predictions that count as much as the prior
+const PRIOR_WEIGHT = 5;
+// Keeps one near-perfect record from dominating the pool
+const MIN_BRIER = 0.05;
+
+/** Extremizing factor applied to extremizedProbability */
+export const EXTREMIZATION_FACTOR = 1.5;
+
+// ============================================================
+// POOLING
+// ============================================================
+
+const logit = (p: number) => Math.log(p / (1 - p));
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+const round1 = (x: number) => Math.round(x * 10) / 10;
+
+/**
+ * Weight for one predictor: inverse of their mean Brier score, shrunk
+ * towards PRIOR_BRIER by how few predictions it's based on
+ */
+export function forecasterWeight(skill?: ForecasterSkill): number {
+    if (!skill) return 1 / PRIOR_BRIER;
+    const brier = 1 - skill.reputation / 1000;
+    const shrunk = (skill.settled * brier + PRIOR_WEIGHT * PRIOR_BRIER) / (skill.settled + PRIOR_WEIGHT);
+    return 1 / Math.max(shrunk, MIN_BRIER);
+}
+
+/**
+ * Pool stated forecasts into a consensus. Returns null with no forecasts.
+ *
+ * @param skills - Track record by address; unknown addresses get the prior
+ */
+export function poolForecasts(
+    forecasts: StatedForecast[],
+    skills: Map<string, ForecasterSkill> = new Map()
+): ConsensusForecast | null {
+    if (forecasts.length === 0) return null;
+
+    let weightSum = 0;
+    let weightSquares = 0;
+    let weightedLogOdds = 0;
+
+    for (const forecast of forecasts) {
+        const confidence = forecast.confidence / 100;
+        const p = forecast.side ? confidence : 1 - confidence;
+        const weight = forecasterWeight(skills.get(forecast.user));
+        weightSum += weight;
+        weightSquares += weight * weight;
+        weightedLogOdds += weight * logit(p);
+    }
+
+    const pooled = weightedLogOdds / weightSum;
+    return {
+        yesProbability: round1(sigmoid(pooled) * 100),
+        extremizedProbability: round1(sigmoid(pooled * EXTREMIZATION_FACTOR) * 100),
+        forecasters: forecasts.length,
+        effectiveForecasters: round1((weightSum * weightSum) / weightSquares),
+    };
+}
+
+/**
+ * Group forecasts by market and pool each
+ */
+export function poolForecastsByMarket(
+    forecasts: (StatedForecast & { marketId: string })[],
+    skills: Map<string, ForecasterSkill> = new Map()
+): Map<string, ConsensusForecast> {
+    const byMarket = new Map<string, StatedForecast[]>();
+    for (const forecast of forecasts) {
+        const list = byMarket.get(forecast.marketId) ?? [];
+        list.push(forecast);
+        byMarket.set(forecast.marketId, list);
+    }
+
+    const result = new Map<string, ConsensusForecast>();
+    byMarket.forEach((list, marketId) => {
+        const consensus = poolForecasts(list, skills);
+        if (consensus) result.set(marketId, consensus);
+    });
+    return result;
+}
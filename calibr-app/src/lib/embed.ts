@@ -0,0 +1,34 @@
+/**
+ * Calibr Protocol - Market Embeds
+ *
+ * Partner sites embed a live market through an iframe pointing at
+ * /embed/market/[id]. The widget has no site chrome; its theme is picked
+ * with ?theme=light|dark so it can match the host page.
+ */
+
+export type EmbedTheme = "light" | "dark";
+
+export const EMBED_THEMES: EmbedTheme[] = ["light", "dark"];
+
+// Fits the widget without scrolling at the default width
+export const EMBED_WIDTH = 400;
+export const EMBED_HEIGHT = 240;
+
+/**
+ * Read the theme query param, falling back to light for anything unknown
+ */
+export function parseEmbedTheme(value?: string | string[] | null): EmbedTheme {
+    const theme = Array.isArray(value) ? value[0] : value;
+    return EMBED_THEMES.includes(theme as EmbedTheme) ? (theme as EmbedTheme) : "light";
+}
+
+export function buildEmbedUrl(origin: string, marketId: string, theme: EmbedTheme): string {
+    return `${origin}/embed/market/${marketId}?theme=${theme}`;
+}
+
+/**
+ * The iframe snippet partners paste into their page
+ */
+export function buildEmbedSnippet(origin: string, marketId: string, theme: EmbedTheme): string {
+    return `<iframe src="${buildEmbedUrl(origin, marketId, theme)}" width="${EMBED_WIDTH}" height="${EMBED_HEIGHT}" style="border:0;border-radius:12px;max-width:100%" title="Calibr market" loading="lazy"></iframe>`;
+}
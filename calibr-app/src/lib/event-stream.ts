@@ -0,0 +1,227 @@
+/**
+ * Calibr Protocol - Live Event Stream
+ *
+ * One shared feed of decoded Calibr events for the whole app. Subscribes
+ * over the fullnode websocket (suix_subscribeEvent) where available and
+ * falls back to cursor-diff polling of suix_queryEvents. Polling pauses
+ * while the tab is hidden, so idle tabs make no requests.
+ */
+
+import type { EventId, SuiEvent, SuiEventFilter } from "@mysten/sui/jsonRpc";
+import { DATA_SOURCE, DEFAULT_NETWORK, getPackageId, getRpcUrl, type NetworkType } from "./sui-config";
+import { getSuiRpcClient } from "./sui-rpc";
+import { decodeEvent, type CalibrEvent } from "./calibr-events";
+
+export type CalibrEventListener = (event: CalibrEvent) => void;
+
+const POLL_INTERVAL_MS = 1000;
+const WS_SUBSCRIBE_TIMEOUT_MS = 5000;
+const ANCHOR_RETRY_BASE_MS = 1000;
+const ANCHOR_RETRY_MAX_MS = 30000;
+// Events delivered by both the websocket and a catch-up poll are only emitted once
+const RECENT_EVENT_LIMIT = 500;
+
+export class CalibrEventStream {
+    readonly network: NetworkType;
+    private readonly filter: SuiEventFilter;
+    private listeners = new Set<CalibrEventListener>();
+
+    private running = false;
+    // Bumped on every start and stop, so a stale anchor retry loop gives up
+    private session = 0;
+    private cursor: EventId | null = null;
+    private recent = new Set<string>();
+    private socket: WebSocket | null = null;
+    private pollTimer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(network: NetworkType = DEFAULT_NETWORK) {
+        this.network = network;
+        this.filter = { MoveEventModule: { package: getPackageId(network), module: "events" } };
+    }
+
+    /**
+     * Register a listener. The stream starts with the first listener and
+     * stops when the last one unsubscribes.
+     */
+    subscribe(listener: CalibrEventListener): () => void {
+        this.listeners.add(listener);
+        if (this.listeners.size === 1) void this.start();
+
+        return () => {
+            this.listeners.delete(listener);
+            if (this.listeners.size === 0) this.stop();
+        };
+    }
+
+    private async start() {
+        // Recorded fixtures are a fixed snapshot, so there is nothing to follow
+        if (DATA_SOURCE === "fixture") return;
+        this.running = true;
+        const session = ++this.session;
+        document.addEventListener("visibilitychange", this.handleVisibility);
+
+        // Nothing is delivered until anchored: polling from a null cursor
+        // would replay all of history into listeners that patch caches additively
+        if (!(await this.anchor(session))) return;
+
+        if (typeof WebSocket !== "undefined") {
+            this.connect();
+        } else {
+            this.schedulePoll(0);
+        }
+    }
+
+    /**
+     * Set the cursor to the newest event so only events from now on are
+     * delivered, retrying with backoff. False if the stream stopped first.
+     */
+    private async anchor(session: number): Promise<boolean> {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                const latest = await getSuiRpcClient(this.network).queryEvents(this.filter, { limit: 1, descending: true });
+                this.cursor = latest.data[0]?.id ?? null;
+                return this.running && session === this.session;
+            } catch (error) {
+                console.error("Event stream: failed to read latest event", error);
+            }
+            if (!this.running || session !== this.session) return false;
+            const delay = Math.min(ANCHOR_RETRY_MAX_MS, ANCHOR_RETRY_BASE_MS * 2 ** attempt);
+            await new Promise(resolve => setTimeout(resolve, delay));
+            if (!this.running || session !== this.session) return false;
+        }
+    }
+
+    private stop() {
+        this.running = false;
+        this.session++;
+        document.removeEventListener("visibilitychange", this.handleVisibility);
+        if (this.pollTimer) clearTimeout(this.pollTimer);
+        this.pollTimer = null;
+        this.socket?.close();
+        this.socket = null;
+    }
+
+    // ============================================================
+    // WEBSOCKET
+    // ============================================================
+
+    private connect() {
+        const socket = new WebSocket(getRpcUrl(this.network).replace(/^http/, "ws"));
+        let subscribed = false;
+
+        // Public fullnodes may refuse subscriptions; don't wait forever to find out
+        const timeout = setTimeout(() => {
+            if (!subscribed) socket.close();
+        }, WS_SUBSCRIBE_TIMEOUT_MS);
+
+        socket.onopen = () => {
+            socket.send(JSON.stringify({ jsonrpc: "2.0", id: 1, method: "suix_subscribeEvent", params: [this.filter] }));
+        };
+
+        socket.onmessage = (message) => {
+            let data: any;
+            try {
+                data = JSON.parse(message.data);
+            } catch {
+                return;
+            }
+
+            if (data.id === 1) {
+                if (data.error) {
+                    socket.close();
+                    return;
+                }
+                subscribed = true;
+                clearTimeout(timeout);
+                // Pick up anything emitted between anchoring and subscribing
+                void this.poll();
+            } else if (data.method === "suix_subscribeEvent" && data.params?.result) {
+                this.deliver([data.params.result]);
+            }
+        };
+
+        socket.onerror = () => socket.close();
+
+        socket.onclose = () => {
+            clearTimeout(timeout);
+            if (this.socket !== socket) return;
+            this.socket = null;
+            if (this.running) this.schedulePoll(0);
+        };
+
+        this.socket = socket;
+    }
+
+    // ============================================================
+    // POLLING FALLBACK
+    // ============================================================
+
+    private handleVisibility = () => {
+        if (!this.running || this.socket || document.hidden) return;
+        // Catch up as soon as the tab is visible again
+        this.schedulePoll(0);
+    };
+
+    private schedulePoll(delayMs: number = POLL_INTERVAL_MS) {
+        if (this.pollTimer) clearTimeout(this.pollTimer);
+        this.pollTimer = setTimeout(async () => {
+            this.pollTimer = null;
+            if (!this.running || document.hidden) return;
+
+            const hasMore = await this.poll();
+            if (this.running && !this.socket) this.schedulePoll(hasMore ? 0 : POLL_INTERVAL_MS);
+        }, delayMs);
+    }
+
+    /**
+     * Fetch events after the cursor. Returns true when more pages are waiting.
+     */
+    private async poll(): Promise<boolean> {
+        try {
+            const page = await getSuiRpcClient(this.network).queryEvents(this.filter, { cursor: this.cursor });
+            this.deliver(page.data);
+            return page.hasNextPage;
+        } catch (error) {
+            console.error("Event stream: poll failed", error);
+            return false;
+        }
+    }
+
+    private deliver(events: SuiEvent[]) {
+        for (const event of events) {
+            const key = `${event.id.txDigest}:${event.id.eventSeq}`;
+            if (this.recent.has(key)) continue;
+
+            this.recent.add(key);
+            if (this.recent.size > RECENT_EVENT_LIMIT) {
+                this.recent.delete(this.recent.values().next().value!);
+            }
+            this.cursor = event.id;
+
+            const decoded = decodeEvent(event);
+            if (!decoded) continue;
+            this.listeners.forEach(listener => {
+                try {
+                    listener(decoded);
+                } catch (error) {
+                    console.error("Event stream listener failed", error);
+                }
+            });
+        }
+    }
+}
+
+// ============================================================
+// SHARED INSTANCES
+// ============================================================
+
+const streams = new Map<NetworkType, CalibrEventStream>();
+
+export function getEventStream(network: NetworkType = DEFAULT_NETWORK): CalibrEventStream {
+    let stream = streams.get(network);
+    if (!stream) {
+        stream = new CalibrEventStream(network);
+        streams.set(network, stream);
+    }
+    return stream;
+}
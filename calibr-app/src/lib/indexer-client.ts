@@ -0,0 +1,136 @@
+/**
+ * Calibr Indexer - REST Client
+ *
+ * Typed access to the local event indexer (scripts/indexer.ts).
+ * Only used when NEXT_PUBLIC_INDEXER_URL is configured (and ignored in fixture mode).
+ */
+
+import { DATA_SOURCE, INDEXER_URL } from "./sui-config";
+
+// ============================================================
+// RESPONSE TYPES
+// ============================================================
+
+/**
+ * Market state reconstructed from MarketCreated, PredictionPlaced,
+ * MarketLocked and MarketResolved events.
+ */
+export interface IndexedMarket {
+    id: string;
+    question: string;
+    deadline: number;
+    authority: string;
+    yesRiskTotal: number;
+    noRiskTotal: number;
+    yesCount: number;
+    noCount: number;
+    locked: boolean;
+    resolved: boolean;
+    outcome: boolean | null;
+    createdAtMs: number;
+    lockedAtMs: number | null;
+    resolvedAtMs: number | null;
+}
+
+/**
+ * A PredictionPlaced event joined with its PredictionSettled,
+ * ReputationUpdated and ConfidenceCapChanged events (when settled).
+ */
+export interface IndexedPrediction {
+    predictionId: string;
+    marketId: string;
+    user: string;
+    side: boolean;
+    confidence: number;
+    risk: number;
+    protected: number;
+    stake: number;
+    userMaxConfidence: number;
+    placedAtMs: number;
+    settled: boolean;
+    won: boolean | null;
+    payout: number | null;
+    profit: number | null;
+    loss: number | null;
+    skillScore: number | null;
+    settledAtMs: number | null;
+    oldScore: number | null;
+    newScore: number | null;
+    oldCap: number | null;    // Only set when the settlement changed the confidence cap
+    newCap: number | null;
+    oldTier: string | null;
+    newTier: string | null;
+}
+
+export interface IndexedUser {
+    address: string;
+    profileId: string | null;
+    reputation: number;
+    maxConfidence: number;
+    predictionCount: number;
+    pointsPurchased: number;
+    pointsRedeemed: number;
+    createdAtMs: number | null;
+    updatedAtMs: number | null;
+}
+
+export interface IndexedLeaderboardEntry {
+    address: string;
+    reputation: number;
+    predictions: number;  // Settled within the requested window
+    wins: number;         // Won within the requested window
+    pnl: number;          // Net points (profit - loss) within the requested window
+    streak: number;       // Current winning streak (all time)
+    form: boolean[];      // Last 5 results, oldest first (all time)
+}
+
+// ============================================================
+// CLIENT
+// ============================================================
+
+// Fixtures only cover fullnode responses, so fixture mode always reads "chain"
+export function isIndexerEnabled(): boolean {
+    return INDEXER_URL !== "" && DATA_SOURCE !== "fixture";
+}
+
+async function indexerGet<T>(path: string): Promise<T> {
+    const res = await fetch(`${INDEXER_URL}${path}`);
+    if (!res.ok) {
+        throw new Error(`Indexer request failed (${res.status}): ${path}`);
+    }
+    return res.json();
+}
+
+export function fetchIndexedMarkets(): Promise<IndexedMarket[]> {
+    return indexerGet("/markets");
+}
+
+// null when the indexer has never seen the market
+export async function fetchIndexedMarket(marketId: string): Promise<IndexedMarket | null> {
+    const res = await fetch(`${INDEXER_URL}/markets/${marketId}`);
+    if (res.status === 404) return null;
+    if (!res.ok) {
+        throw new Error(`Indexer request failed (${res.status}): /markets/${marketId}`);
+    }
+    return res.json();
+}
+
+export function fetchIndexedMarketPredictions(marketId: string): Promise<IndexedPrediction[]> {
+    return indexerGet(`/markets/${marketId}/predictions`);
+}
+
+export function fetchIndexedUser(address: string): Promise<IndexedUser> {
+    return indexerGet(`/users/${address}`);
+}
+
+export function fetchIndexedUserPredictions(address: string): Promise<IndexedPrediction[]> {
+    return indexerGet(`/users/${address}/predictions`);
+}
+
+/**
+ * @param sinceMs - Only settlements at or after this time count towards
+ *                  predictions, wins and PnL (0 = all time)
+ */
+export function fetchIndexedLeaderboard(sinceMs: number = 0): Promise<IndexedLeaderboardEntry[]> {
+    return indexerGet(`/leaderboard?since=${sinceMs}`);
+}
@@ -0,0 +1,220 @@
+/**
+ * Calibr Protocol - Leaderboard
+ *
+ * Ranks every forecaster by reputation (all time) or settled profit (this
+ * week / month), from the indexer's aggregates or by replaying profile,
+ * reputation and settlement events. Shared by the useLeaderboard hook and
+ * the public API.
+ */
+
+import { getSuiRpcClient } from "./sui-rpc";
+import { decodeEvents, getCalibrEventType, type CalibrEventName } from "./calibr-events";
+import { fetchIndexedLeaderboard, isIndexerEnabled } from "./indexer-client";
+import { Points, ZERO_POINTS, add, compare, points, sub } from "./amounts";
+import { startOfWeek, startOfMonth } from "date-fns";
+
+export const TIME_FRAMES = ["All Time", "This Month", "This Week"] as const;
+
+export type TimeFrame = typeof TIME_FRAMES[number];
+
+export interface LeaderboardUser {
+    rank: number;
+    address: string;
+    reputation: number;
+    predictions: number;
+    winRate: number;
+    tier: "new" | "proven" | "elite";
+    isYou: boolean;
+    pnl: Points;          // Net settled profit minus loss
+    streak: number;       // Current winning streak
+    form: boolean[];      // Last 5 results (true=win)
+}
+
+interface UserStats {
+    address: string;
+    reputation: number;
+    predictions: number;
+    wins: number;
+    lastEventTime: number;
+    pnl: Points;
+    streak: number;
+    form: boolean[];
+    // For calculating streak/form correctly we need to store results in order
+    history: { result: boolean; time: number }[];
+}
+
+/**
+ * The ranked leaderboard. `currentUserAddress` only sets each entry's isYou flag.
+ */
+export async function loadLeaderboard(
+    timeFrame: TimeFrame = "All Time",
+    currentUserAddress?: string | null
+): Promise<LeaderboardUser[]> {
+    const startTime = getTimeFrameStart(timeFrame);
+
+    // The indexer aggregates the full settlement history server-side
+    if (isIndexerEnabled()) {
+        const entries = await fetchIndexedLeaderboard(startTime);
+        return rankUsers(
+            entries.map(e => ({ ...e, pnl: points(e.pnl) })),
+            timeFrame,
+            currentUserAddress
+        );
+    }
+
+    const userMap = new Map<string, UserStats>();
+
+    // Helper to get all events of a type
+    const MAX_PAGES = 10;
+    const getAllEvents = <N extends CalibrEventName>(name: N) => getSuiRpcClient()
+        .queryAllEvents({ MoveEventType: getCalibrEventType(name) }, { maxPages: MAX_PAGES })
+        .then(events => decodeEvents(events, name));
+
+    const [profileEvents, repEvents, settledEvents] = await Promise.all([
+        getAllEvents("ProfileCreated"),
+        getAllEvents("ReputationUpdated"),
+        getAllEvents("PredictionSettled")
+    ]);
+
+    // 1. Initialize Users from Profiles
+    profileEvents.forEach(({ data }) => {
+        const addr = data.user;
+        if (!userMap.has(addr)) {
+            userMap.set(addr, {
+                address: addr,
+                reputation: data.initialReputation,
+                predictions: 0,
+                wins: 0,
+                lastEventTime: 0,
+                pnl: ZERO_POINTS,
+                streak: 0,
+                form: [],
+                history: []
+            });
+        }
+    });
+
+    // 2. Process Reputation Updates (to get latest Reputation Score)
+    // Note: Reputation is always "Current" regardless of timeframe
+    repEvents.forEach((e) => {
+        const data = e.data;
+        const addr = data.user;
+        if (!userMap.has(addr)) return; // Should exist if profile created
+
+        const stats = userMap.get(addr)!;
+        const eventTime = e.timestampMs ?? 0;
+
+        // Update reputation to latest known
+        if (eventTime >= stats.lastEventTime) {
+            stats.reputation = data.newScore;
+            stats.lastEventTime = eventTime;
+        }
+    });
+
+    // 3. Process Settled Predictions (PnL, Wins, Form, Streak)
+    // This is where we apply the TimeFrame filter
+
+    settledEvents.forEach((e) => {
+        const data = e.data;
+        const addr = data.user;
+        // If profile missing (index lag), skip or init? Init for safety
+        if (!userMap.has(addr)) {
+            userMap.set(addr, {
+                address: addr,
+                reputation: 700,
+                predictions: 0,
+                wins: 0,
+                lastEventTime: 0,
+                pnl: ZERO_POINTS,
+                streak: 0,
+                form: [],
+                history: []
+            });
+        }
+
+        const stats = userMap.get(addr)!;
+        const eventTime = e.timestampMs ?? 0;
+
+        // Add to history (for form/streak - always track ALL history for correct form)
+        // Wait, streak/form is "current" form, so we use all history sorted by time.
+        // But PnL and WinRate are filtered.
+        stats.history.push({ result: data.won, time: eventTime });
+
+        // Filter for PnL / WinRate stats
+        if (eventTime >= startTime) {
+            stats.predictions += 1;
+            if (data.won) stats.wins += 1;
+
+            // Settlement profit/loss are points, not MIST
+            stats.pnl = add(stats.pnl, sub(points(data.profit), points(data.loss)));
+        }
+    });
+
+    // 4. Calculate Derived Stats (Streak, Form) from full history
+    userMap.forEach((stats) => {
+        // Sort history by time ascending
+        stats.history.sort((a, b) => a.time - b.time);
+
+        // Calculate Streak (from end)
+        let currentStreak = 0;
+        for (let i = stats.history.length - 1; i >= 0; i--) {
+            if (stats.history[i].result) currentStreak++;
+            else break;
+        }
+        stats.streak = currentStreak;
+
+        // Calculate Form (last 5)
+        stats.form = stats.history.slice(-5).map(h => h.result);
+    });
+
+    return rankUsers(Array.from(userMap.values()), timeFrame, currentUserAddress);
+}
+
+function getTimeFrameStart(timeFrame: TimeFrame): number {
+    const now = new Date();
+    if (timeFrame === "This Week") return startOfWeek(now).getTime();
+    if (timeFrame === "This Month") return startOfMonth(now).getTime();
+    return 0;
+}
+
+type RankableStats = Pick<UserStats, "address" | "reputation" | "predictions" | "wins" | "pnl" | "streak" | "form">;
+
+function rankUsers(
+    users: RankableStats[],
+    timeFrame: TimeFrame,
+    currentUserAddress?: string | null
+): LeaderboardUser[] {
+    // Sort & Format
+    // If TimeFrame == All Time, sort by Reputation
+    // Else, sort by PnL (or Win Rate? PnL is more definitive for comps)
+    return users
+        .sort((a, b) => {
+            if (timeFrame === "All Time") {
+                return b.reputation - a.reputation;
+            } else {
+                return compare(b.pnl, a.pnl); // Highest earnings first
+            }
+        })
+        .map((stats, index) => {
+            const winRate = stats.predictions > 0
+                ? Math.round((stats.wins / stats.predictions) * 100)
+                : 0;
+
+            let tier: "new" | "proven" | "elite" = "new";
+            if (stats.reputation > 850) tier = "elite";
+            else if (stats.reputation >= 700) tier = "proven";
+
+            return {
+                rank: index + 1,
+                address: stats.address,
+                reputation: stats.reputation,
+                predictions: stats.predictions,
+                winRate,
+                tier,
+                isYou: currentUserAddress ? stats.address === currentUserAddress : false,
+                pnl: stats.pnl,
+                streak: stats.streak,
+                form: stats.form
+            };
+        });
+}
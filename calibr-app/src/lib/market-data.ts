@@ -0,0 +1,222 @@
+/**
+ * Calibr Protocol - Market Loading
+ *
+ * Reads markets and their prediction history into the app model, from the
+ * indexer when configured or straight from the fullnode. Shared by the
+ * market hooks and server code (page metadata, OpenGraph images, the public
+ * API), so it must not touch browser APIs.
+ */
+
+import type { EventId } from "@mysten/sui/jsonRpc";
+import { getSuiRpcClient } from "./sui-rpc";
+import { decodeEvents, getCalibrEventType, type CalibrEvent, type CalibrEventName, type CalibrEventOf } from "./calibr-events";
+import { fetchIndexedMarket, fetchIndexedMarketPredictions, fetchIndexedMarkets, isIndexerEnabled } from "./indexer-client";
+import { Market, decodeQuestion, parseMarket, toMarket } from "./calibr-types";
+import { loadMarketRegistry, resolveMarketLabels, type MarketRegistry } from "./market-metadata";
+import { buildProbabilityHistory, sortEntries, type MarketEntry, type MarketHistory } from "./market-history";
+
+// ============================================================
+// MARKET LISTS
+// ============================================================
+
+/**
+ * Every market the data source knows about: the indexer's full history, or
+ * the latest 50 from the fullnode
+ */
+export async function loadMarkets(): Promise<Market[]> {
+    const registry = await loadMarketRegistry();
+    return isIndexerEnabled()
+        ? fetchMarketsFromIndexer(registry)
+        : fetchMarketsFromChain(registry);
+}
+
+// Full market history, with state reconstructed by the indexer
+async function fetchMarketsFromIndexer(registry: MarketRegistry): Promise<Market[]> {
+    const indexed = await fetchIndexedMarkets();
+    return indexed.map(m => toMarket(m, resolveMarketLabels(registry, m.id, m.question)));
+}
+
+// Latest 50 markets, read directly from the fullnode
+async function fetchMarketsFromChain(registry: MarketRegistry): Promise<Market[]> {
+    // 1. Fetch MarketCreated events
+    const client = getSuiRpcClient();
+    const eventsResult = await client.queryEvents(
+        { MoveEventType: getCalibrEventType("MarketCreated") },
+        { limit: 50, descending: true }
+    );
+    const events = decodeEvents(eventsResult.data, "MarketCreated");
+
+    if (events.length === 0) {
+        return [];
+    }
+
+    // 2. Extract market IDs and creation times
+    const marketIds = events.map(e => e.data.marketId);
+    const createdAt = new Map(events.map(e => [e.data.marketId, e.timestampMs]));
+
+    // 3. Fetch Market Object details
+    const objectsResult = await client.multiGetObjects(marketIds, { showContent: true });
+
+    // 4. Parse into the app model
+    return objectsResult.flatMap((obj) => {
+        const content = obj.data?.content;
+        if (content?.dataType !== "moveObject") return [];
+
+        const id = obj.data!.objectId;
+        const fields = content.fields as any;
+        const labels = resolveMarketLabels(registry, id, decodeQuestion(fields.question ?? []));
+        return [parseMarket(id, fields, labels, createdAt.get(id) ?? null)];
+    });
+}
+
+// ============================================================
+// SINGLE MARKET
+// ============================================================
+
+export interface LoadMarketOptions {
+    /** Rethrow fullnode and indexer failures instead of logging them and returning null */
+    throwOnError?: boolean;
+}
+
+/**
+ * Load a market by object ID. Returns null when it doesn't exist or isn't a
+ * Market, and by default when it couldn't be read either. The public API
+ * passes throwOnError so an outage is a 502, not a missing market.
+ */
+export async function loadMarket(marketId: string, { throwOnError = false }: LoadMarketOptions = {}): Promise<Market | null> {
+    try {
+        return await (isIndexerEnabled() ? fetchMarketFromIndexer(marketId) : fetchMarketFromChain(marketId));
+    } catch (error) {
+        if (throwOnError) throw error;
+        console.error("Error fetching market:", error);
+        return null;
+    }
+}
+
+async function fetchMarketFromIndexer(marketId: string): Promise<Market | null> {
+    const [indexed, registry] = await Promise.all([fetchIndexedMarket(marketId), loadMarketRegistry()]);
+    if (!indexed) return null;
+    return toMarket(indexed, resolveMarketLabels(registry, marketId, indexed.question));
+}
+
+// Fetch market data from chain
+async function fetchMarketFromChain(marketId: string): Promise<Market | null> {
+    const result = await getSuiRpcClient().getObject(marketId, { showContent: true, showType: true });
+
+    // A missing or deleted object comes back as result.error rather than a thrown SuiRpcError
+    const content = result.data?.content;
+    if (!content) {
+        console.error("Failed to fetch market:", result.error);
+        return null;
+    }
+    if (content.dataType !== "moveObject") {
+        return null;
+    }
+
+    // Check if it's a Market object
+    if (!content.type?.includes("::calibr::Market")) {
+        console.error("Object is not a Market:", content.type);
+        return null;
+    }
+
+    const fields = content.fields as any;
+    const registry = await loadMarketRegistry();
+    const labels = resolveMarketLabels(registry, marketId, decodeQuestion(fields.question ?? []));
+    return parseMarket(marketId, fields, labels);
+}
+
+// ============================================================
+// PREDICTION HISTORY
+// ============================================================
+
+/**
+ * Every prediction placed on a market, with the probability history they imply
+ */
+export function loadMarketHistory(market: Market): Promise<MarketHistory> {
+    return isIndexerEnabled() ? fetchHistoryFromIndexer(market.id) : fetchHistoryFromChain(market);
+}
+
+async function fetchHistoryFromIndexer(marketId: string): Promise<MarketHistory> {
+    const [market, predictions] = await Promise.all([
+        fetchIndexedMarket(marketId),
+        fetchIndexedMarketPredictions(marketId),
+    ]);
+
+    const entries: MarketEntry[] = predictions.map(p => ({
+        predictionId: p.predictionId,
+        user: p.user,
+        side: p.side,
+        confidence: p.confidence,
+        risk: p.risk,
+        stake: p.stake,
+        userMaxConfidence: p.userMaxConfidence,
+        timestampMs: p.placedAtMs,
+    }));
+
+    return {
+        points: buildProbabilityHistory(entries),
+        entries: sortEntries(entries),
+        lockedAtMs: market?.lockedAtMs ?? null,
+        resolvedAtMs: market?.resolvedAtMs ?? null,
+    };
+}
+
+async function fetchHistoryFromChain(market: Market): Promise<MarketHistory> {
+    const [placed, locked, resolved] = await Promise.all([
+        // The market object's counts tell us when every placement has been found
+        findMarketEvents("PredictionPlaced", market.id, market.yesCount + market.noCount),
+        findMarketEvents("MarketLocked", market.id, market.locked ? 1 : 0),
+        findMarketEvents("MarketResolved", market.id, market.resolved ? 1 : 0),
+    ]);
+
+    const entries: MarketEntry[] = placed.map(e => ({
+        predictionId: e.data.predictionId,
+        user: e.data.user,
+        side: e.data.side,
+        confidence: e.data.confidence,
+        risk: Number(e.data.risk),
+        stake: Number(e.data.stake),
+        userMaxConfidence: e.data.userMaxConfidence,
+        timestampMs: e.timestampMs ?? 0,
+    }));
+
+    return {
+        points: buildProbabilityHistory(entries),
+        entries: sortEntries(entries),
+        lockedAtMs: locked[0]?.timestampMs ?? null,
+        resolvedAtMs: resolved[0]?.timestampMs ?? null,
+    };
+}
+
+/**
+ * Page backwards through events of one type until `expected` events for
+ * this market have been collected (or history runs out).
+ */
+async function findMarketEvents<N extends CalibrEventName>(
+    name: N,
+    marketId: string,
+    expected: number
+): Promise<CalibrEventOf<N>[]> {
+    const found: CalibrEventOf<N>[] = [];
+    if (expected === 0) return found;
+
+    const client = getSuiRpcClient();
+    let cursor: EventId | null = null;
+
+    while (found.length < expected) {
+        const page = await client.queryEvents(
+            { MoveEventType: getCalibrEventType(name) },
+            { cursor, descending: true }
+        );
+        const events: CalibrEvent[] = decodeEvents(page.data, name);
+        for (const event of events) {
+            if ("marketId" in event.data && event.data.marketId === marketId) {
+                found.push(event as CalibrEventOf<N>);
+            }
+        }
+        if (!page.hasNextPage || !page.nextCursor) break;
+        cursor = page.nextCursor;
+    }
+
+    return found;
+}
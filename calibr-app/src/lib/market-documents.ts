@@ -0,0 +1,234 @@
+/**
+ * Calibr Protocol - Market Documents
+ *
+ * Only the question is stored on chain, so the details a predictor needs
+ * (description, resolution criteria, sources, edge cases, an image) live in
+ * an off-chain document. The document's SHA-256 is appended to the question
+ * bytes when the market is created (withDocumentCommitment in
+ * calibr-types.ts), so it can't be swapped out after predictions are placed:
+ * a document that doesn't hash to the committed value is never displayed.
+ *
+ * Documents are content-addressed. The metadata service stores them by hash;
+ * without a service, the ones embedded in src/data/market-metadata.json are used.
+ */
+
+import { METADATA_URL } from "./sui-config";
+import { isMetadataServiceEnabled } from "./market-metadata";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface DocumentSource {
+    label: string;
+    url: string;
+}
+
+export interface MarketDocument {
+    version: 1;
+    description: string;
+    resolutionCriteria: string;
+    sources: DocumentSource[];
+    edgeCases: string[];
+    imageUrl: string | null;
+}
+
+/**
+ * verified: the document hashes to the committed value
+ * mismatch: a document was found but it doesn't, so it isn't shown
+ * unavailable: no document is stored under the hash
+ */
+export type DocumentStatus = "verified" | "mismatch" | "unavailable";
+
+export interface LoadedDocument {
+    hash: string;
+    status: DocumentStatus;
+    document: MarketDocument | null;    // Only set when verified
+}
+
+/** Signed by the admin wallet; the service re-hashes the document itself */
+export interface DocumentUpload {
+    action: "calibr:put-document";
+    document: MarketDocument;
+    issuedAtMs: number;
+}
+
+// Shown for markets created without a document
+export const DEFAULT_RESOLUTION_CRITERIA = "Resolves based on real-world outcome verified by admin.";
+
+export const MAX_SOURCES = 10;
+export const MAX_EDGE_CASES = 20;
+
+// ============================================================
+// BUILDING
+// ============================================================
+
+function isHttpUrl(value: string): boolean {
+    try {
+        const url = new URL(value);
+        return url.protocol === "https:" || url.protocol === "http:";
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Parse one source per line, either "Label | https://..." or a bare URL
+ * (labeled by its host). Lines without a valid URL are dropped.
+ */
+export function parseSources(input: string): DocumentSource[] {
+    return input
+        .split("\n")
+        .map(line => {
+            const [first, second] = line.split("|").map(part => part.trim());
+            const url = second ?? first;
+            if (!url || !isHttpUrl(url)) return null;
+            return { label: second ? first : new URL(url).hostname, url };
+        })
+        .filter((source): source is DocumentSource => source !== null)
+        .slice(0, MAX_SOURCES);
+}
+
+/**
+ * Parse one edge case per line
+ */
+export function parseEdgeCases(input: string): string[] {
+    return input
+        .split("\n")
+        .map(line => line.trim().replace(/^[-*•]\s*/, ""))
+        .filter(Boolean)
+        .slice(0, MAX_EDGE_CASES);
+}
+
+export function buildMarketDocument(fields: {
+    description: string;
+    resolutionCriteria: string;
+    sources: DocumentSource[];
+    edgeCases: string[];
+    imageUrl: string;
+}): MarketDocument {
+    const imageUrl = fields.imageUrl.trim();
+    return {
+        version: 1,
+        description: fields.description.trim(),
+        resolutionCriteria: fields.resolutionCriteria.trim(),
+        sources: fields.sources,
+        edgeCases: fields.edgeCases,
+        imageUrl: imageUrl && isHttpUrl(imageUrl) ? imageUrl : null,
+    };
+}
+
+export function isDocumentEmpty(document: MarketDocument): boolean {
+    return !document.description
+        && !document.resolutionCriteria
+        && document.sources.length === 0
+        && document.edgeCases.length === 0
+        && !document.imageUrl;
+}
+
+// ============================================================
+// HASHING
+// ============================================================
+
+/**
+ * The exact text that is hashed: fixed key order, no whitespace. Stored JSON
+ * can be reformatted freely without breaking verification.
+ */
+export function canonicalizeDocument(document: MarketDocument): string {
+    return JSON.stringify({
+        version: document.version,
+        description: document.description,
+        resolutionCriteria: document.resolutionCriteria,
+        sources: document.sources.map(s => ({ label: s.label, url: s.url })),
+        edgeCases: document.edgeCases,
+        imageUrl: document.imageUrl,
+    });
+}
+
+/**
+ * Hex SHA-256 of the canonical document
+ */
+export async function hashDocument(document: MarketDocument): Promise<string> {
+    const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(canonicalizeDocument(document)));
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, "0")).join("");
+}
+
+// ============================================================
+// LOADING
+// ============================================================
+
+async function findEmbeddedDocument(hash: string): Promise<MarketDocument | null> {
+    const mod = await import("@/data/market-metadata.json");
+    const documents = ((mod.default ?? mod) as { documents?: Record<string, MarketDocument> }).documents;
+    return documents?.[hash] ?? null;
+}
+
+async function findStoredDocument(hash: string): Promise<MarketDocument | null> {
+    if (isMetadataServiceEnabled()) {
+        try {
+            const res = await fetch(`${METADATA_URL}/documents/${hash}`);
+            if (res.ok) return await res.json();
+            if (res.status !== 404) {
+                throw new Error(`Metadata request failed (${res.status}): /documents/${hash}`);
+            }
+        } catch (error) {
+            console.error("Error loading market document:", error);
+        }
+    }
+    return findEmbeddedDocument(hash);
+}
+
+/**
+ * Load the document committed by a market and check it against the hash.
+ * Whoever serves it, a document that doesn't match is reported, not returned.
+ */
+export async function loadMarketDocument(hash: string): Promise<LoadedDocument> {
+    const document = await findStoredDocument(hash);
+    if (!document) {
+        return { hash, status: "unavailable", document: null };
+    }
+    if (await hashDocument(document) !== hash) {
+        return { hash, status: "mismatch", document: null };
+    }
+    return { hash, status: "verified", document };
+}
+
+// ============================================================
+// SAVING
+// ============================================================
+
+/**
+ * Sign a document with the admin wallet and store it on the metadata
+ * service. Done before the market is created, since the hash goes into the
+ * question.
+ *
+ * @param signPersonalMessage - WalletContext's signer; resolves null if the user declined
+ * @returns The document hash to commit
+ */
+export async function saveMarketDocument(
+    document: MarketDocument,
+    signPersonalMessage: (message: Uint8Array) => Promise<{ signature: string } | null>
+): Promise<string> {
+    if (!isMetadataServiceEnabled()) {
+        throw new Error("No metadata service configured (NEXT_PUBLIC_METADATA_URL)");
+    }
+
+    const hash = await hashDocument(document);
+    const upload: DocumentUpload = { action: "calibr:put-document", document, issuedAtMs: Date.now() };
+    const message = JSON.stringify(upload);
+    const signed = await signPersonalMessage(new TextEncoder().encode(message));
+    if (!signed) {
+        throw new Error("Market document was not signed");
+    }
+
+    const res = await fetch(`${METADATA_URL}/documents/${hash}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ message, signature: signed.signature }),
+    });
+    const body = await res.json().catch(() => ({}));
+    if (!res.ok) {
+        throw new Error(body.error || `Metadata request failed (${res.status})`);
+    }
+    return hash;
+}
@@ -0,0 +1,290 @@
+/**
+ * Calibr Protocol - Market Feeds
+ *
+ * RSS 2.0, Atom and JSON Feed renderings of market activity, built from the
+ * latest MarketCreated and MarketResolved events. Served from
+ * /feeds/markets.{xml,atom,json}; ?category= narrows a feed to one category,
+ * matching the explore page's filter.
+ */
+
+import { getSuiRpcClient } from "./sui-rpc";
+import type { EventId } from "@mysten/sui/jsonRpc";
+import { decodeEvents, getCalibrEventType, type CalibrEventOf } from "./calibr-events";
+import { decodeQuestion, splitDocumentCommitment } from "./calibr-types";
+import { loadMarketRegistry, resolveMarketLabels } from "./market-metadata";
+import { SITE_URL } from "./sui-config";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type FeedFormat = "rss" | "atom" | "json";
+
+export interface FeedEntry {
+    kind: "created" | "resolved";
+    marketId: string;
+    question: string;
+    category: string;
+    tags: string[];
+    timestampMs: number;
+    deadline: number | null;        // Created entries
+    outcome: boolean | null;        // Resolved entries
+    outcomeDescription: string | null;
+}
+
+export interface FeedOptions {
+    category: string | null;
+    selfUrl: string;                // Absolute URL this feed was requested at
+}
+
+type FeedEventName = "MarketCreated" | "MarketResolved";
+
+// Entries per feed, newest first
+export const FEED_LIMIT = 50;
+
+// Event pages scanned per kind before a sparse category feed gives up
+const MAX_FEED_PAGES = 10;
+
+const CONTENT_TYPES: Record<FeedFormat, string> = {
+    rss: "application/rss+xml; charset=utf-8",
+    atom: "application/atom+xml; charset=utf-8",
+    json: "application/feed+json; charset=utf-8",
+};
+
+// ============================================================
+// ENTRIES
+// ============================================================
+
+/**
+ * Latest market creations and resolutions, newest first. A category feed
+ * pages further back until it has FEED_LIMIT entries of each kind in that
+ * category, or MAX_FEED_PAGES pages have been scanned.
+ */
+export async function loadFeedEntries(category: string | null = null): Promise<FeedEntry[]> {
+    const client = getSuiRpcClient();
+    const registry = await loadMarketRegistry();
+    const questions = new Map<string, string>();
+
+    const labelled = (marketId: string) => {
+        const question = questions.get(marketId) ?? "Untitled market";
+        const { category, tags } = resolveMarketLabels(registry, marketId, question);
+        return { marketId, question, category, tags };
+    };
+
+    // Resolved markets created before the scanned pages still need their question
+    const loadQuestions = async (marketIds: string[]) => {
+        const missing = Array.from(new Set(marketIds.filter(id => !questions.has(id))));
+        if (missing.length === 0) return;
+        const objects = await client.multiGetObjects(missing, { showContent: true });
+        objects.forEach((obj, i) => {
+            const content = obj.data?.content;
+            if (content?.dataType !== "moveObject") return;
+            const raw = decodeQuestion((content.fields as any).question ?? []);
+            questions.set(missing[i], splitDocumentCommitment(raw).question);
+        });
+    };
+
+    // Newest events of one kind in the category
+    const latest = async <N extends FeedEventName>(name: N): Promise<CalibrEventOf<N>[]> => {
+        const matching: CalibrEventOf<FeedEventName>[] = [];
+        let cursor: EventId | null = null;
+
+        for (let page = 0; page < MAX_FEED_PAGES && matching.length < FEED_LIMIT; page++) {
+            const result = await client.queryEvents(
+                { MoveEventType: getCalibrEventType(name) },
+                { cursor, limit: FEED_LIMIT, descending: true }
+            );
+            const events: CalibrEventOf<FeedEventName>[] = decodeEvents(result.data, name);
+            events.forEach(e => {
+                if ("question" in e.data) questions.set(e.data.marketId, e.data.question);
+            });
+            await loadQuestions(events.map(e => e.data.marketId));
+            matching.push(...events.filter(e => !category || labelled(e.data.marketId).category === category));
+            if (!result.hasNextPage || !result.nextCursor) break;
+            cursor = result.nextCursor;
+        }
+
+        return matching.slice(0, FEED_LIMIT) as CalibrEventOf<N>[];
+    };
+
+    // Creations first: their events carry the question, sparing most lookups for resolutions
+    const created = await latest("MarketCreated");
+    const resolved = await latest("MarketResolved");
+
+    const entries: FeedEntry[] = [
+        ...created.map(e => ({
+            kind: "created" as const,
+            ...labelled(e.data.marketId),
+            timestampMs: e.timestampMs ?? 0,
+            deadline: e.data.deadline > 0 ? e.data.deadline : null,
+            outcome: null,
+            outcomeDescription: null,
+        })),
+        ...resolved.map(e => ({
+            kind: "resolved" as const,
+            ...labelled(e.data.marketId),
+            timestampMs: e.timestampMs ?? 0,
+            deadline: null,
+            outcome: e.data.outcome,
+            outcomeDescription: e.data.outcomeDescription || null,
+        })),
+    ];
+
+    return entries
+        .sort((a, b) => b.timestampMs - a.timestampMs)
+        .slice(0, FEED_LIMIT);
+}
+
+function entryId(entry: FeedEntry): string {
+    return `${SITE_URL}/market/${entry.marketId}#${entry.kind}`;
+}
+
+function entryUrl(entry: FeedEntry): string {
+    return `${SITE_URL}/market/${entry.marketId}`;
+}
+
+function entryTitle(entry: FeedEntry): string {
+    return entry.kind === "created"
+        ? `New market: ${entry.question}`
+        : `Resolved ${entry.outcome ? "YES" : "NO"}: ${entry.question}`;
+}
+
+function entrySummary(entry: FeedEntry): string {
+    if (entry.kind === "created") {
+        return entry.deadline
+            ? `Predictions close ${new Date(entry.deadline).toUTCString()}.`
+            : "Open for predictions.";
+    }
+    const outcome = `Outcome: ${entry.outcome ? "YES" : "NO"}.`;
+    return entry.outcomeDescription ? `${outcome} ${entry.outcomeDescription}` : outcome;
+}
+
+function feedTitle(category: string | null): string {
+    return category ? `Calibr markets: ${category}` : "Calibr markets";
+}
+
+function homePageUrl(category: string | null): string {
+    return category ? `${SITE_URL}/explore?category=${encodeURIComponent(category)}` : `${SITE_URL}/explore`;
+}
+
+// ============================================================
+// RENDERING
+// ============================================================
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&apos;");
+}
+
+export function renderRss(entries: FeedEntry[], { category, selfUrl }: FeedOptions): string {
+    const items = entries.map(entry => `
+    <item>
+      <title>${escapeXml(entryTitle(entry))}</title>
+      <link>${escapeXml(entryUrl(entry))}</link>
+      <guid isPermaLink="false">${escapeXml(entryId(entry))}</guid>
+      <pubDate>${new Date(entry.timestampMs).toUTCString()}</pubDate>
+      <category>${escapeXml(entry.category)}</category>
+      <description>${escapeXml(entrySummary(entry))}</description>
+    </item>`).join("");
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeXml(feedTitle(category))}</title>
+    <link>${escapeXml(homePageUrl(category))}</link>
+    <description>New and resolved prediction markets on Calibr</description>
+    <atom:link href="${escapeXml(selfUrl)}" rel="self" type="application/rss+xml" />
+    <lastBuildDate>${new Date(entries[0]?.timestampMs ?? Date.now()).toUTCString()}</lastBuildDate>${items}
+  </channel>
+</rss>
+`;
+}
+
+export function renderAtom(entries: FeedEntry[], { category, selfUrl }: FeedOptions): string {
+    const items = entries.map(entry => {
+        const date = new Date(entry.timestampMs).toISOString();
+        return `
+  <entry>
+    <id>${escapeXml(entryId(entry))}</id>
+    <title>${escapeXml(entryTitle(entry))}</title>
+    <link href="${escapeXml(entryUrl(entry))}" />
+    <published>${date}</published>
+    <updated>${date}</updated>
+    <category term="${escapeXml(entry.category)}" />
+    <summary>${escapeXml(entrySummary(entry))}</summary>
+  </entry>`;
+    }).join("");
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${escapeXml(selfUrl)}</id>
+  <title>${escapeXml(feedTitle(category))}</title>
+  <subtitle>New and resolved prediction markets on Calibr</subtitle>
+  <link href="${escapeXml(selfUrl)}" rel="self" type="application/atom+xml" />
+  <link href="${escapeXml(homePageUrl(category))}" rel="alternate" type="text/html" />
+  <updated>${new Date(entries[0]?.timestampMs ?? Date.now()).toISOString()}</updated>
+  <author><name>Calibr</name></author>${items}
+</feed>
+`;
+}
+
+/**
+ * JSON Feed 1.1 (https://jsonfeed.org/version/1.1). Entries carry the raw
+ * event details under the _calibr extension for bots.
+ */
+export function renderJsonFeed(entries: FeedEntry[], { category, selfUrl }: FeedOptions): string {
+    return JSON.stringify({
+        version: "https://jsonfeed.org/version/1.1",
+        title: feedTitle(category),
+        home_page_url: homePageUrl(category),
+        feed_url: selfUrl,
+        description: "New and resolved prediction markets on Calibr",
+        items: entries.map(entry => ({
+            id: entryId(entry),
+            url: entryUrl(entry),
+            title: entryTitle(entry),
+            content_text: entrySummary(entry),
+            date_published: new Date(entry.timestampMs).toISOString(),
+            tags: [entry.category, ...entry.tags],
+            _calibr: {
+                event: entry.kind,
+                market_id: entry.marketId,
+                question: entry.question,
+                deadline: entry.deadline !== null ? new Date(entry.deadline).toISOString() : null,
+                outcome: entry.outcome,
+            },
+        })),
+    }, null, 2);
+}
+
+const RENDERERS: Record<FeedFormat, (entries: FeedEntry[], options: FeedOptions) => string> = {
+    rss: renderRss,
+    atom: renderAtom,
+    json: renderJsonFeed,
+};
+
+/**
+ * Route handler body shared by the three feed routes
+ */
+export async function buildFeedResponse(request: Request, feedFormat: FeedFormat): Promise<Response> {
+    const url = new URL(request.url);
+    const category = url.searchParams.get("category")?.trim() || null;
+    const selfUrl = `${SITE_URL}${url.pathname}${category ? `?category=${encodeURIComponent(category)}` : ""}`;
+
+    try {
+        const entries = await loadFeedEntries(category);
+        return new Response(RENDERERS[feedFormat](entries, { category, selfUrl }), {
+            headers: {
+                "Content-Type": CONTENT_TYPES[feedFormat],
+                "Cache-Control": "public, max-age=300",
+            },
+        });
+    } catch (error) {
+        console.error("Error building market feed:", error);
+        return new Response("Feed unavailable", { status: 502 });
+    }
+}
@@ -0,0 +1,216 @@
+/**
+ * Calibr Protocol - Explore Filters
+ *
+ * Search, facet and sort state for the explore page, round-tripped through
+ * the URL query string so any filtered view can be bookmarked or shared.
+ * Defaults are left out of the query, keeping plain /explore links clean.
+ *
+ *   ?q=bitcoin&status=active,resolving&category=Crypto&from=2026-01-01
+ *    &to=2026-12-31&prob=20-80&unpredicted=1&sort=volume&dir=desc&tab=watching
+ */
+
+import type { Market, MarketCategory, MarketStatus } from "./calibr-types";
+
+export const MARKET_STATUSES: MarketStatus[] = ["active", "expired", "resolving", "resolved"];
+
+export type MarketSortKey = "deadline" | "volume" | "predictions" | "probability" | "created";
+export type SortDirection = "asc" | "desc";
+export type ExploreTab = "all" | "watching";
+
+export const MARKET_SORTS: { key: MarketSortKey; label: string; defaultDirection: SortDirection }[] = [
+    { key: "deadline", label: "Deadline", defaultDirection: "asc" },
+    { key: "volume", label: "Volume", defaultDirection: "desc" },
+    { key: "predictions", label: "Predictions", defaultDirection: "desc" },
+    { key: "probability", label: "Probability (YES)", defaultDirection: "desc" },
+    { key: "created", label: "Newest", defaultDirection: "desc" },
+];
+
+export interface ExploreQuery {
+    search: string;
+    category: MarketCategory | null;
+    statuses: MarketStatus[];       // Empty = any status
+    deadlineFrom: string | null;    // yyyy-MM-dd, inclusive
+    deadlineTo: string | null;      // yyyy-MM-dd, inclusive
+    probability: [number, number];  // YES percentage band, inclusive
+    unpredictedOnly: boolean;
+    sort: MarketSortKey;
+    direction: SortDirection;
+    tab: ExploreTab;
+}
+
+export const DEFAULT_EXPLORE_QUERY: ExploreQuery = {
+    search: "",
+    category: null,
+    statuses: [],
+    deadlineFrom: null,
+    deadlineTo: null,
+    probability: [0, 100],
+    unpredictedOnly: false,
+    sort: "deadline",
+    direction: "asc",
+    tab: "all",
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function defaultDirection(sort: MarketSortKey): SortDirection {
+    return MARKET_SORTS.find(s => s.key === sort)?.defaultDirection ?? "desc";
+}
+
+// ============================================================
+// URL ENCODING
+// ============================================================
+
+/**
+ * Read a query from the URL. Anything malformed falls back to its default
+ * rather than failing, since hand-edited links are expected.
+ */
+export function parseExploreQuery(params: URLSearchParams): ExploreQuery {
+    const query: ExploreQuery = { ...DEFAULT_EXPLORE_QUERY };
+
+    query.search = params.get("q")?.trim() ?? "";
+
+    // Categories come from the metadata registry, so any name is accepted
+    query.category = params.get("category")?.trim() || null;
+
+    query.statuses = (params.get("status") ?? "")
+        .split(",")
+        .filter((s): s is MarketStatus => MARKET_STATUSES.includes(s as MarketStatus));
+
+    const from = params.get("from");
+    const to = params.get("to");
+    if (from && DATE_PATTERN.test(from)) query.deadlineFrom = from;
+    if (to && DATE_PATTERN.test(to)) query.deadlineTo = to;
+
+    const band = /^(\d{1,3})-(\d{1,3})$/.exec(params.get("prob") ?? "");
+    if (band) {
+        const low = Math.min(100, Number(band[1]));
+        const high = Math.min(100, Number(band[2]));
+        if (low <= high) query.probability = [low, high];
+    }
+
+    query.unpredictedOnly = params.get("unpredicted") === "1";
+
+    const sort = params.get("sort");
+    if (MARKET_SORTS.some(s => s.key === sort)) query.sort = sort as MarketSortKey;
+    const direction = params.get("dir");
+    query.direction = direction === "asc" || direction === "desc" ? direction : defaultDirection(query.sort);
+
+    if (params.get("tab") === "watching") query.tab = "watching";
+
+    return query;
+}
+
+/**
+ * Write a query back to a query string, omitting every default
+ */
+export function serializeExploreQuery(query: ExploreQuery): string {
+    const params = new URLSearchParams();
+
+    if (query.search.trim()) params.set("q", query.search.trim());
+    if (query.category) params.set("category", query.category);
+    if (query.statuses.length > 0) {
+        // Canonical order so the same view always has the same URL
+        params.set("status", MARKET_STATUSES.filter(s => query.statuses.includes(s)).join(","));
+    }
+    if (query.deadlineFrom) params.set("from", query.deadlineFrom);
+    if (query.deadlineTo) params.set("to", query.deadlineTo);
+    const [low, high] = query.probability;
+    if (low > 0 || high < 100) params.set("prob", `${low}-${high}`);
+    if (query.unpredictedOnly) params.set("unpredicted", "1");
+    if (query.sort !== DEFAULT_EXPLORE_QUERY.sort) params.set("sort", query.sort);
+    if (query.direction !== defaultDirection(query.sort)) params.set("dir", query.direction);
+    if (query.tab !== DEFAULT_EXPLORE_QUERY.tab) params.set("tab", query.tab);
+
+    return params.toString();
+}
+
+/**
+ * Number of narrowing filters in effect (search, sort and tab don't count)
+ */
+export function countActiveFilters(query: ExploreQuery): number {
+    return [
+        query.category !== null,
+        query.statuses.length > 0,
+        query.deadlineFrom !== null || query.deadlineTo !== null,
+        query.probability[0] > 0 || query.probability[1] < 100,
+        query.unpredictedOnly,
+    ].filter(Boolean).length;
+}
+
+// ============================================================
+// FILTERING & SORTING
+// ============================================================
+
+/**
+ * Every whitespace-separated term must appear in the question or tags, in any order
+ */
+export function matchesSearch(market: Pick<Market, "question" | "tags">, search: string): boolean {
+    const terms = search.toLowerCase().split(/\s+/).filter(Boolean);
+    const text = [market.question, ...market.tags].join(" ").toLowerCase();
+    return terms.every(term => text.includes(term));
+}
+
+// Local-time day boundaries, matching what the date inputs show
+function startOfDayMs(date: string): number {
+    return new Date(`${date}T00:00:00`).getTime();
+}
+
+function endOfDayMs(date: string): number {
+    return new Date(`${date}T23:59:59.999`).getTime();
+}
+
+// Markets without the sorted value (no deadline, unknown creation time) sort last either way
+function sortValue(market: Market, sort: MarketSortKey): number | null {
+    switch (sort) {
+        case "deadline": return market.deadline > 0 ? market.deadline : null;
+        case "volume": return market.volume;
+        case "predictions": return market.totalPredictions;
+        case "probability": return market.yesPercentage;
+        case "created": return market.createdAtMs;
+    }
+}
+
+/**
+ * Apply a query to a list of markets.
+ *
+ * @param wallet.predictedMarketIds - Markets the connected wallet has predicted on;
+ *   the "unpredicted" filter is ignored without it
+ * @param wallet.watchedMarketIds - The connected wallet's watchlist; the
+ *   watching tab is empty without it
+ */
+export function applyExploreQuery(
+    markets: Market[],
+    query: ExploreQuery,
+    wallet: { predictedMarketIds?: Set<string>; watchedMarketIds?: Set<string> } = {}
+): Market[] {
+    const { predictedMarketIds, watchedMarketIds } = wallet;
+    const from = query.deadlineFrom ? startOfDayMs(query.deadlineFrom) : null;
+    const to = query.deadlineTo ? endOfDayMs(query.deadlineTo) : null;
+    const [low, high] = query.probability;
+
+    const filtered = markets.filter(m => {
+        if (query.tab === "watching" && !watchedMarketIds?.has(m.id)) return false;
+        if (query.search && !matchesSearch(m, query.search)) return false;
+        if (query.category && m.category !== query.category) return false;
+        if (query.statuses.length > 0 && !query.statuses.includes(m.status)) return false;
+        if ((from !== null || to !== null) && m.deadline === 0) return false;
+        if (from !== null && m.deadline < from) return false;
+        if (to !== null && m.deadline > to) return false;
+        if (m.yesPercentage < low || m.yesPercentage > high) return false;
+        if (query.unpredictedOnly && predictedMarketIds?.has(m.id)) return false;
+        return true;
+    });
+
+    const factor = query.direction === "asc" ? 1 : -1;
+    return filtered.sort((a, b) => {
+        const av = sortValue(a, query.sort);
+        const bv = sortValue(b, query.sort);
+        if (av === null || bv === null) {
+            if (av !== bv) return av === null ? 1 : -1;
+        } else if (av !== bv) {
+            return (av - bv) * factor;
+        }
+        return a.question.localeCompare(b.question);
+    });
+}
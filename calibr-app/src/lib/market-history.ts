@@ -0,0 +1,97 @@
+/**
+ * Calibr Protocol - Market Probability History
+ *
+ * Replays a market's placements in order into running pool totals, giving
+ * the implied YES probability after every prediction.
+ */
+
+export interface Placement {
+    side: boolean; // true = YES, false = NO
+    risk: number;
+    timestampMs: number;
+}
+
+/**
+ * One PredictionPlaced event, as the participant panel needs it
+ */
+export interface MarketEntry extends Placement {
+    predictionId: string;
+    user: string;
+    confidence: number;
+    stake: number;
+    userMaxConfidence: number;  // The predictor's cap when they entered
+}
+
+export interface ProbabilityPoint {
+    timestampMs: number;
+    yesRiskTotal: number;
+    noRiskTotal: number;
+    yesCount: number;
+    noCount: number;
+    /** YES share of total risk, 0-100 (what the market displays) */
+    riskWeighted: number;
+    /** YES share of predictors, 0-100 */
+    headcount: number;
+}
+
+export interface MarketHistory {
+    points: ProbabilityPoint[];
+    entries: MarketEntry[];     // Oldest first
+    lockedAtMs: number | null;
+    resolvedAtMs: number | null;
+}
+
+const share = (yes: number, no: number) => (yes + no > 0 ? Math.round((yes / (yes + no)) * 100) : 50);
+
+/**
+ * Build the probability series. Placements may arrive in any order.
+ * The series starts from an even 50/50 market at the first placement.
+ */
+export function buildProbabilityHistory(placements: Placement[]): ProbabilityPoint[] {
+    const sorted = [...placements].sort((a, b) => a.timestampMs - b.timestampMs);
+    if (sorted.length === 0) return [];
+
+    const points: ProbabilityPoint[] = [{
+        timestampMs: sorted[0].timestampMs,
+        yesRiskTotal: 0,
+        noRiskTotal: 0,
+        yesCount: 0,
+        noCount: 0,
+        riskWeighted: 50,
+        headcount: 50,
+    }];
+
+    let yesRiskTotal = 0;
+    let noRiskTotal = 0;
+    let yesCount = 0;
+    let noCount = 0;
+
+    for (const p of sorted) {
+        if (p.side) {
+            yesRiskTotal += p.risk;
+            yesCount += 1;
+        } else {
+            noRiskTotal += p.risk;
+            noCount += 1;
+        }
+
+        points.push({
+            timestampMs: p.timestampMs,
+            yesRiskTotal,
+            noRiskTotal,
+            yesCount,
+            noCount,
+            riskWeighted: share(yesRiskTotal, noRiskTotal),
+            headcount: share(yesCount, noCount),
+        });
+    }
+
+    return points;
+}
+
+/**
+ * Sort placements oldest first, for the timeline
+ */
+export function sortEntries(entries: MarketEntry[]): MarketEntry[] {
+    return [...entries].sort((a, b) => a.timestampMs - b.timestampMs);
+}
@@ -0,0 +1,183 @@
+/**
+ * Calibr Protocol - Market Metadata Registry
+ *
+ * Categories and tags aren't stored on chain, so they live in a registry
+ * keyed by market ID. The admin assigns them when creating a market, and they
+ * are saved to the metadata service (scripts/metadata-service.ts) with a
+ * signed message. Without a service, the registry embedded at
+ * src/data/market-metadata.json is used read-only.
+ *
+ * Categories are registry data, so adding one needs no code change. Each can
+ * list keywords, which are used to infer a category for legacy markets that
+ * were never labeled.
+ */
+
+import { DATA_SOURCE, METADATA_URL } from "./sui-config";
+import type { MarketCategory, MarketLabels } from "./calibr-types";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface CategoryDefinition {
+    name: MarketCategory;
+    /** Whole words that file an unlabeled market under this category */
+    keywords: string[];
+}
+
+export interface MarketMetadataEntry {
+    category: MarketCategory;
+    tags: string[];
+    updatedAtMs: number;
+    /** Address that signed the update */
+    updatedBy: string;
+}
+
+export interface MarketRegistry {
+    categories: CategoryDefinition[];
+    markets: Record<string, MarketMetadataEntry>;
+}
+
+/** Signed by the admin wallet; the service re-checks every field */
+export interface MetadataUpdate {
+    action: "calibr:set-market-labels";
+    marketId: string;
+    category: MarketCategory;
+    tags: string[];
+    issuedAtMs: number;
+}
+
+// Unlabeled markets that match no category's keywords
+export const FALLBACK_CATEGORY = "Other";
+
+export const MAX_TAGS = 8;
+export const MAX_TAG_LENGTH = 32;
+
+// ============================================================
+// REGISTRY ACCESS
+// ============================================================
+
+// Fixture mode replays the embedded registry so it stays offline
+export function isMetadataServiceEnabled(): boolean {
+    return METADATA_URL !== "" && DATA_SOURCE !== "fixture";
+}
+
+async function loadEmbeddedRegistry(): Promise<MarketRegistry> {
+    const mod = await import("@/data/market-metadata.json");
+    return (mod.default ?? mod) as unknown as MarketRegistry;
+}
+
+/**
+ * Labels are never worth failing a page over, so an unreachable service
+ * falls back to the embedded registry
+ */
+export async function loadMarketRegistry(): Promise<MarketRegistry> {
+    if (!isMetadataServiceEnabled()) return loadEmbeddedRegistry();
+
+    try {
+        const res = await fetch(`${METADATA_URL}/registry`);
+        if (!res.ok) {
+            throw new Error(`Metadata request failed (${res.status}): /registry`);
+        }
+        return await res.json();
+    } catch (error) {
+        console.error("Error loading market metadata:", error);
+        return loadEmbeddedRegistry();
+    }
+}
+
+// ============================================================
+// LABELS
+// ============================================================
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Category for a market nobody labeled: the first category with a keyword
+ * appearing as a whole word in the question (so "sol" doesn't match "solve").
+ */
+export function inferCategory(question: string, categories: CategoryDefinition[]): MarketCategory {
+    const match = categories.find(c =>
+        c.keywords.some(keyword => new RegExp(`\\b${escapeRegExp(keyword)}\\b`, "i").test(question))
+    );
+    return match?.name ?? FALLBACK_CATEGORY;
+}
+
+export function resolveMarketLabels(registry: MarketRegistry, marketId: string, question: string): MarketLabels {
+    const entry = registry.markets[marketId];
+    if (entry) {
+        return { category: entry.category, tags: entry.tags, categoryInferred: false };
+    }
+    return { category: inferCategory(question, registry.categories), tags: [], categoryInferred: true };
+}
+
+/**
+ * Every category a list of markets can be filtered by: the registry's own,
+ * then any assigned or inferred category it doesn't list yet
+ */
+export function listCategories(registry: MarketRegistry, markets: { category: MarketCategory }[] = []): MarketCategory[] {
+    const names = registry.categories.map(c => c.name);
+    for (const market of markets) {
+        if (!names.includes(market.category)) names.push(market.category);
+    }
+    return names;
+}
+
+/**
+ * Parse a comma-separated tag list: lowercase, hyphenated, deduplicated
+ */
+export function parseTags(input: string): string[] {
+    const tags = input
+        .split(",")
+        .map(tag => tag.trim().toLowerCase().replace(/\s+/g, "-").slice(0, MAX_TAG_LENGTH))
+        .filter(Boolean);
+    return Array.from(new Set(tags)).slice(0, MAX_TAGS);
+}
+
+// ============================================================
+// SAVING
+// ============================================================
+
+export function buildMetadataUpdate(marketId: string, category: MarketCategory, tags: string[]): MetadataUpdate {
+    return {
+        action: "calibr:set-market-labels",
+        marketId,
+        category: category.trim(),
+        tags,
+        issuedAtMs: Date.now(),
+    };
+}
+
+/**
+ * Sign an update with the admin wallet and save it to the metadata service.
+ * The service only accepts signatures from the AdminCap owner.
+ *
+ * @param signPersonalMessage - WalletContext's signer; resolves null if the user declined
+ */
+export async function saveMarketLabels(
+    update: MetadataUpdate,
+    signPersonalMessage: (message: Uint8Array) => Promise<{ signature: string } | null>
+): Promise<MarketMetadataEntry> {
+    if (!isMetadataServiceEnabled()) {
+        throw new Error("No metadata service configured (NEXT_PUBLIC_METADATA_URL)");
+    }
+
+    const message = JSON.stringify(update);
+    const signed = await signPersonalMessage(new TextEncoder().encode(message));
+    if (!signed) {
+        throw new Error("Metadata update was not signed");
+    }
+
+    const res = await fetch(`${METADATA_URL}/markets/${update.marketId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ message, signature: signed.signature }),
+    });
+    const body = await res.json().catch(() => ({}));
+    if (!res.ok) {
+        throw new Error(body.error || `Metadata request failed (${res.status})`);
+    }
+    return body;
+}
@@ -0,0 +1,121 @@
+/**
+ * Calibr Protocol - Market Participants
+ *
+ * Who is behind a market's consensus, built from its PredictionPlaced
+ * events: how confident each side is, which tiers are predicting, who the
+ * most reputable predictors are, and how concentrated the risk is. A wallet
+ * can only predict once per market, so every entry is a distinct participant.
+ */
+
+import { getTierFromMaxConfidence, type UserTier } from "./calibr-types";
+import type { MarketEntry } from "./market-history";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface ConfidenceBucket {
+    from: number;   // Inclusive
+    to: number;     // Inclusive
+    yes: number;
+    no: number;
+}
+
+export interface TierShare {
+    tier: UserTier;
+    yes: number;
+    no: number;
+    risk: number;
+}
+
+export interface RankedPredictor {
+    address: string;
+    reputation: number | null;  // Null when the wallet's score isn't known yet
+    tier: UserTier;             // From the cap they entered with
+    side: boolean;
+    confidence: number;
+    risk: number;
+}
+
+export interface ParticipantSummary {
+    participants: number;
+    histogram: ConfidenceBucket[];
+    tiers: TierShare[];
+    topPredictors: RankedPredictor[];
+    /** Share of all risk, 0-100, placed by the TOP_RISK_COUNT largest entries */
+    topRiskShare: number;
+}
+
+// Declared confidence runs 50-90; the last bucket takes 85-90
+const BUCKET_STARTS = [50, 55, 60, 65, 70, 75, 80, 85];
+
+const TIERS: UserTier[] = ["New", "Proven", "Elite"];
+
+export const TOP_PREDICTOR_COUNT = 5;
+export const TOP_RISK_COUNT = 3;
+
+// ============================================================
+// SUMMARY
+// ============================================================
+
+function bucketIndex(confidence: number): number {
+    const index = Math.floor((confidence - BUCKET_STARTS[0]) / 5);
+    return Math.min(Math.max(index, 0), BUCKET_STARTS.length - 1);
+}
+
+/**
+ * @param reputations - Current score by address (e.g. from the leaderboard)
+ */
+export function summarizeParticipants(
+    entries: MarketEntry[],
+    reputations: Map<string, number> = new Map()
+): ParticipantSummary {
+    const histogram: ConfidenceBucket[] = BUCKET_STARTS.map((from, i) => ({
+        from,
+        to: i === BUCKET_STARTS.length - 1 ? 90 : from + 4,
+        yes: 0,
+        no: 0,
+    }));
+    const tiers: TierShare[] = TIERS.map(tier => ({ tier, yes: 0, no: 0, risk: 0 }));
+
+    for (const entry of entries) {
+        const bucket = histogram[bucketIndex(entry.confidence)];
+        const share = tiers.find(t => t.tier === getTierFromMaxConfidence(entry.userMaxConfidence))!;
+        if (entry.side) {
+            bucket.yes += 1;
+            share.yes += 1;
+        } else {
+            bucket.no += 1;
+            share.no += 1;
+        }
+        share.risk += entry.risk;
+    }
+
+    // Unknown scores rank after known ones, then by the cap they entered with
+    const topPredictors = entries
+        .map((entry): RankedPredictor => ({
+            address: entry.user,
+            reputation: reputations.get(entry.user) ?? null,
+            tier: getTierFromMaxConfidence(entry.userMaxConfidence),
+            side: entry.side,
+            confidence: entry.confidence,
+            risk: entry.risk,
+        }))
+        .sort((a, b) =>
+            (b.reputation ?? -1) - (a.reputation ?? -1)
+            || TIERS.indexOf(b.tier) - TIERS.indexOf(a.tier)
+        )
+        .slice(0, TOP_PREDICTOR_COUNT);
+
+    const risks = entries.map(e => e.risk).sort((a, b) => b - a);
+    const totalRisk = risks.reduce((sum, r) => sum + r, 0);
+    const topRisk = risks.slice(0, TOP_RISK_COUNT).reduce((sum, r) => sum + r, 0);
+
+    return {
+        participants: entries.length,
+        histogram,
+        tiers,
+        topPredictors,
+        topRiskShare: totalRisk > 0 ? Math.round((topRisk / totalRisk) * 100) : 0,
+    };
+}
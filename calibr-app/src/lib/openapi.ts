@@ -0,0 +1,270 @@
+/**
+ * Calibr Protocol - Public API Contract
+ *
+ * OpenAPI 3.1 description of /api/v1, served at /api/v1/openapi.json. The
+ * schemas mirror the app models the routes return (Market, MarketEntry,
+ * LeaderboardUser, ...); keep them in step when those change.
+ */
+
+import { MARKET_SORTS, MARKET_STATUSES } from "./market-filters";
+import { DEFAULT_PAGE_LIMIT, MAX_PAGE_LIMIT } from "./public-api";
+import { SITE_URL } from "./sui-config";
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+const nullable = (type: string) => ({ type: [type, "null"] });
+const amount = { type: "string", pattern: "^-?\\d+$", description: "Points, as a decimal integer string" };
+
+const paginationParameters = [
+    {
+        name: "limit",
+        in: "query",
+        schema: { type: "integer", minimum: 1, maximum: MAX_PAGE_LIMIT, default: DEFAULT_PAGE_LIMIT },
+    },
+    { name: "offset", in: "query", schema: { type: "integer", minimum: 0, default: 0 } },
+];
+
+const pageOf = (item: string) => ({
+    type: "object",
+    required: ["data", "pagination"],
+    properties: {
+        data: { type: "array", items: ref(item) },
+        pagination: ref("Pagination"),
+    },
+});
+
+const jsonResponse = (description: string, schema: object) => ({
+    description,
+    headers: { ETag: { schema: { type: "string" } } },
+    content: { "application/json": { schema } },
+});
+
+const errorResponse = (description: string) => ({
+    description,
+    content: { "application/json": { schema: ref("Error") } },
+});
+
+const commonResponses = {
+    "304": { description: "Not modified since the ETag sent in If-None-Match" },
+    "502": errorResponse("The chain or indexer could not be read"),
+};
+
+export const OPENAPI_DOCUMENT = {
+    openapi: "3.1.0",
+    info: {
+        title: "Calibr Public API",
+        version: "1.0.0",
+        description: "Read-only access to Calibr markets and forecasters. Every response carries an ETag; "
+            + "send it back in If-None-Match to get a 304 when nothing changed. Lists are paginated with limit and offset.",
+    },
+    servers: [{ url: `${SITE_URL}/api/v1` }],
+    paths: {
+        "/markets": {
+            get: {
+                summary: "List markets",
+                description: "Filters and sorting use the same query parameters as the explore page.",
+                parameters: [
+                    { name: "q", in: "query", description: "Search questions and tags", schema: { type: "string" } },
+                    { name: "category", in: "query", schema: { type: "string" } },
+                    {
+                        name: "status",
+                        in: "query",
+                        description: "Comma-separated statuses",
+                        schema: { type: "string" },
+                        example: MARKET_STATUSES.join(","),
+                    },
+                    { name: "from", in: "query", description: "Earliest deadline (yyyy-MM-dd)", schema: { type: "string", format: "date" } },
+                    { name: "to", in: "query", description: "Latest deadline (yyyy-MM-dd)", schema: { type: "string", format: "date" } },
+                    { name: "prob", in: "query", description: "YES percentage band, e.g. 20-80", schema: { type: "string" } },
+                    { name: "sort", in: "query", schema: { type: "string", enum: MARKET_SORTS.map(s => s.key) } },
+                    { name: "dir", in: "query", schema: { type: "string", enum: ["asc", "desc"] } },
+                    ...paginationParameters,
+                ],
+                responses: {
+                    "200": jsonResponse("One page of markets", pageOf("Market")),
+                    "400": errorResponse("Invalid pagination"),
+                    ...commonResponses,
+                },
+            },
+        },
+        "/markets/{id}": {
+            get: {
+                summary: "Get a market with its predictions and probability history",
+                parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+                responses: {
+                    "200": jsonResponse("The market", ref("MarketDetail")),
+                    "404": errorResponse("No market with this ID"),
+                    ...commonResponses,
+                },
+            },
+        },
+        "/users/{address}": {
+            get: {
+                summary: "Get a forecaster's profile, stats and calibration",
+                parameters: [{ name: "address", in: "path", required: true, schema: { type: "string" } }],
+                responses: {
+                    "200": jsonResponse("The forecaster", ref("User")),
+                    "400": errorResponse("Not a Sui address"),
+                    "404": errorResponse("The address has never used Calibr"),
+                    ...commonResponses,
+                },
+            },
+        },
+        "/leaderboard": {
+            get: {
+                summary: "Ranked forecasters",
+                description: "All time ranks by reputation; week and month rank by settled profit.",
+                parameters: [
+                    { name: "period", in: "query", schema: { type: "string", enum: ["all", "month", "week"], default: "all" } },
+                    ...paginationParameters,
+                ],
+                responses: {
+                    "200": jsonResponse("One page of the leaderboard", pageOf("LeaderboardEntry")),
+                    "400": errorResponse("Invalid period or pagination"),
+                    ...commonResponses,
+                },
+            },
+        },
+    },
+    components: {
+        schemas: {
+            Pagination: {
+                type: "object",
+                required: ["limit", "offset", "total", "nextOffset"],
+                properties: {
+                    limit: { type: "integer" },
+                    offset: { type: "integer" },
+                    total: { type: "integer" },
+                    nextOffset: { ...nullable("integer"), description: "null on the last page" },
+                },
+            },
+            Error: {
+                type: "object",
+                required: ["error"],
+                properties: {
+                    error: {
+                        type: "object",
+                        required: ["code", "message"],
+                        properties: {
+                            code: { type: "string", enum: ["bad_request", "not_found", "upstream_error"] },
+                            message: { type: "string" },
+                        },
+                    },
+                },
+            },
+            Market: {
+                type: "object",
+                properties: {
+                    id: { type: "string" },
+                    question: { type: "string" },
+                    deadline: { type: "integer", description: "Milliseconds since epoch; 0 when the market has none" },
+                    authority: { type: "string" },
+                    status: { type: "string", enum: MARKET_STATUSES },
+                    category: { type: "string" },
+                    tags: { type: "array", items: { type: "string" } },
+                    categoryInferred: { type: "boolean" },
+                    documentHash: nullable("string"),
+                    yesRiskTotal: { type: "number" },
+                    noRiskTotal: { type: "number" },
+                    yesCount: { type: "integer" },
+                    noCount: { type: "integer" },
+                    totalPredictions: { type: "integer" },
+                    yesPercentage: { type: "number", description: "Implied YES probability from the risk pools, 0-100" },
+                    volume: { type: "number" },
+                    isTrending: { type: "boolean" },
+                    locked: { type: "boolean" },
+                    resolved: { type: "boolean" },
+                    outcome: { ...nullable("boolean"), description: "true = YES; null until resolved" },
+                    createdAtMs: nullable("integer"),
+                },
+            },
+            MarketEntry: {
+                type: "object",
+                properties: {
+                    predictionId: { type: "string" },
+                    user: { type: "string" },
+                    side: { type: "boolean", description: "true = YES" },
+                    confidence: { type: "integer" },
+                    risk: { type: "number" },
+                    stake: { type: "number" },
+                    userMaxConfidence: { type: "integer" },
+                    timestampMs: { type: "integer" },
+                },
+            },
+            ProbabilityPoint: {
+                type: "object",
+                properties: {
+                    timestampMs: { type: "integer" },
+                    yesRiskTotal: { type: "number" },
+                    noRiskTotal: { type: "number" },
+                    yesCount: { type: "integer" },
+                    noCount: { type: "integer" },
+                    riskWeighted: { type: "number", description: "YES share of total risk, 0-100" },
+                    headcount: { type: "number", description: "YES share of predictors, 0-100" },
+                },
+            },
+            MarketDetail: {
+                type: "object",
+                properties: {
+                    market: ref("Market"),
+                    predictions: { type: "array", items: ref("MarketEntry"), description: "Oldest first" },
+                    history: { type: "array", items: ref("ProbabilityPoint") },
+                    lockedAtMs: nullable("integer"),
+                    resolvedAtMs: nullable("integer"),
+                },
+            },
+            User: {
+                type: "object",
+                properties: {
+                    address: { type: "string" },
+                    profile: {
+                        type: ["object", "null"],
+                        properties: {
+                            id: { type: "string" },
+                            owner: { type: "string" },
+                            reputationScore: { type: "integer" },
+                            reputationCount: { type: "integer" },
+                            maxConfidence: { type: "integer" },
+                            tier: { type: "string", enum: ["New", "Proven", "Elite"] },
+                        },
+                    },
+                    stats: {
+                        type: ["object", "null"],
+                        description: "All-time leaderboard standing; null before the first settlement is indexed",
+                        properties: {
+                            rank: { type: "integer" },
+                            predictions: { type: "integer" },
+                            winRate: { type: "integer" },
+                            pnl: amount,
+                            streak: { type: "integer" },
+                            form: { type: "array", items: { type: "boolean" }, description: "Last 5 results, oldest first" },
+                        },
+                    },
+                    calibration: {
+                        type: "object",
+                        properties: {
+                            settled: { type: "integer" },
+                            wins: { type: "integer" },
+                            winRate: { type: "integer" },
+                            meanConfidence: { type: "integer" },
+                            calibrationGap: { type: "integer", description: "meanConfidence - winRate; positive when overconfident" },
+                        },
+                    },
+                },
+            },
+            LeaderboardEntry: {
+                type: "object",
+                properties: {
+                    rank: { type: "integer" },
+                    address: { type: "string" },
+                    reputation: { type: "integer" },
+                    predictions: { type: "integer" },
+                    winRate: { type: "integer" },
+                    tier: { type: "string", enum: ["new", "proven", "elite"] },
+                    pnl: amount,
+                    streak: { type: "integer" },
+                    form: { type: "array", items: { type: "boolean" } },
+                },
+            },
+        },
+    },
+};
@@ -0,0 +1,70 @@
+/**
+ * Calibr Protocol - Payout Preview
+ *
+ * What a prediction would settle for if the market resolved with the pools
+ * as they stand now. Mirrors market::calculate_winner_payout and
+ * market::calculate_loser_payout, including mul_div's integer division:
+ *
+ *   Winner: stake + my_risk × loser_pool / total_winner_risk
+ *   Loser:  stake - my_risk
+ *
+ * The new prediction's own risk joins its side's pool, so it is counted in
+ * total_winner_risk. Every later entry shifts the result.
+ */
+
+// math::risk_from_confidence constants
+const MIN_CONFIDENCE = 50;
+const CONFIDENCE_RANGE = 40;
+const MAX_RISK = 100;
+const MIN_RISK = 5;
+
+/**
+ * Risk R for a confidence, as math::risk_from_confidence computes it:
+ * max(5, 100 × (c - 50) / 40) with u64 division, so it rounds down
+ */
+export function riskFromConfidence(confidence: number): number {
+    return Math.max(MIN_RISK, Math.floor((MAX_RISK * (confidence - MIN_CONFIDENCE)) / CONFIDENCE_RANGE));
+}
+
+export interface PoolTotals {
+    yesRiskTotal: number;
+    noRiskTotal: number;
+}
+
+export interface PayoutPreview {
+    payoutIfRight: number;      // Stake back plus share of the losing pool
+    winnings: number;           // payoutIfRight - stake
+    payoutIfWrong: number;      // The protected portion
+    lossIfWrong: number;
+    /** payoutIfRight / stake */
+    multiplier: number;
+    /** Nobody is on the other side yet, so being right would win nothing */
+    opposingPoolEmpty: boolean;
+}
+
+export function previewPayout(
+    side: "yes" | "no",
+    risk: number,
+    stake: number,
+    pools: PoolTotals
+): PayoutPreview {
+    const ownPool = side === "yes" ? pools.yesRiskTotal : pools.noRiskTotal;
+    const loserPool = side === "yes" ? pools.noRiskTotal : pools.yesRiskTotal;
+    const totalWinnerRisk = ownPool + risk;
+
+    // The contract returns the bare stake when either side is empty
+    const winnings = totalWinnerRisk === 0 || loserPool === 0
+        ? 0
+        : Math.floor((risk * loserPool) / totalWinnerRisk);
+    const payoutIfRight = stake + winnings;
+    const payoutIfWrong = risk >= stake ? 0 : stake - risk;
+
+    return {
+        payoutIfRight,
+        winnings,
+        payoutIfWrong,
+        lossIfWrong: stake - payoutIfWrong,
+        multiplier: stake > 0 ? payoutIfRight / stake : 0,
+        opposingPoolEmpty: loserPool === 0,
+    };
+}
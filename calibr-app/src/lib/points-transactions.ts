@@ -6,19 +6,17 @@
 
 import { Transaction } from "@mysten/sui/transactions";
 import { getPackageId, DEFAULT_NETWORK, CONTRACT_IDS } from "./sui-config";
+import { Mist, Points, mist, points, mulDiv, percentOf, sub } from "./amounts";
 
 // ============================================================
 // POINTS ECONOMY CONSTANTS
 // ============================================================
 
 // Default base price: 0.01 SUI per 100 points (in MIST)
-export const POINTS_BASE_PRICE_MIST = 10_000_000;
+export const POINTS_BASE_PRICE_MIST = mist(10_000_000);
 
 // Points must be purchased in multiples of this
-export const POINTS_UNIT = 100;
-
-// 1 SUI = 1,000,000,000 MIST
-export const MIST_PER_SUI = 1_000_000_000;
+export const POINTS_UNIT = points(100);
 
 // ============================================================
 // SHARED OBJECT IDS
@@ -54,29 +52,16 @@ export const POINTS_ECONOMY_OBJECTS = {
  * For simplicity, this returns base price. For accurate pricing,
  * call the on-chain calculate_price function via devInspect.
  */
-export function estimatePointsCost(pointsAmount: number): number {
-    // Validate amount is multiple of 100
-    if (pointsAmount % POINTS_UNIT !== 0) {
-        throw new Error(`Points must be in multiples of ${POINTS_UNIT}`);
-    }
-
-    const units = pointsAmount / POINTS_UNIT;
+export function estimatePointsCost(pointsAmount: Points): Mist {
+    assertPointsUnit(pointsAmount);
     // Base price estimate (actual price may vary due to bonding curve)
-    return units * POINTS_BASE_PRICE_MIST;
-}
-
-/**
- * Convert MIST to SUI for display
- */
-export function mistToSui(mist: number): number {
-    return mist / MIST_PER_SUI;
+    return mulDiv(POINTS_BASE_PRICE_MIST, pointsAmount, POINTS_UNIT);
 }
 
-/**
- * Convert SUI to MIST
- */
-export function suiToMist(sui: number): number {
-    return Math.floor(sui * MIST_PER_SUI);
+function assertPointsUnit(pointsAmount: Points) {
+    if (pointsAmount % POINTS_UNIT !== BigInt(0)) {
+        throw new Error(`Points must be in multiples of ${POINTS_UNIT}`);
+    }
 }
 
 // ============================================================
@@ -120,8 +105,8 @@ export function buildBuyPointsTx(
     treasuryId: string,
     marketConfigId: string,
     pointsBalanceId: string,
-    suiAmountMist: number,
-    desiredPoints: number
+    suiAmountMist: Mist,
+    desiredPoints: Points
 ): Transaction {
     const tx = new Transaction();
     const packageId = getPackageId(DEFAULT_NETWORK);
@@ -158,8 +143,8 @@ export function buildCreateBalanceAndBuyPointsTx(
     treasuryId: string,
     marketConfigId: string,
     balanceRegistryId: string,
-    suiAmountMist: number,
-    desiredPoints: number
+    suiAmountMist: Mist,
+    desiredPoints: Points
 ): Transaction {
     const tx = new Transaction();
     const packageId = getPackageId(DEFAULT_NETWORK);
@@ -247,29 +232,28 @@ export const REDEMPTION_REQUIREMENTS = {
     minPredictions: 1,       // Demo: 1, Production: 20
     minEpochsHeld: 0,        // Demo: 0, Production: 4 (~4 weeks)
     maxWeeklyPct: 50,        // 50% of balance per week
-    feePct: 5,               // 5% redemption fee
+    feePct: 2,               // 2% redemption fee (redemption::REDEMPTION_FEE_PCT)
     minRedemption: 100,      // Minimum redeemable
 };
 
 /**
- * Calculate estimated SUI payout after 5% fee.
+ * Calculate estimated SUI payout after the redemption fee.
+ * 
+ * Priced at the base rate; the contract uses the current bonding-curve price.
  * 
  * @param pointsAmount - Points to redeem (must be multiple of 100)
- * @returns Estimated net SUI payout in MIST
+ * @returns Estimated gross, fee and net SUI payout in MIST
  */
-export function estimateRedemptionPayout(pointsAmount: number): {
-    grossMist: number;
-    feeMist: number;
-    netMist: number;
+export function estimateRedemptionPayout(pointsAmount: Points): {
+    grossMist: Mist;
+    feeMist: Mist;
+    netMist: Mist;
 } {
-    if (pointsAmount % POINTS_UNIT !== 0) {
-        throw new Error(`Points must be in multiples of ${POINTS_UNIT}`);
-    }
+    assertPointsUnit(pointsAmount);
 
-    const units = pointsAmount / POINTS_UNIT;
-    const grossMist = units * POINTS_BASE_PRICE_MIST;
-    const feeMist = Math.floor((grossMist * REDEMPTION_REQUIREMENTS.feePct) / 100);
-    const netMist = grossMist - feeMist;
+    const grossMist = mulDiv(POINTS_BASE_PRICE_MIST, pointsAmount, POINTS_UNIT);
+    const feeMist = percentOf(grossMist, REDEMPTION_REQUIREMENTS.feePct);
+    const netMist = sub(grossMist, feeMist);
 
     return { grossMist, feeMist, netMist };
 }
@@ -295,7 +279,7 @@ export function buildRedeemPointsTx(
     pointsBalanceId: string,
     treasuryId: string,
     marketConfigId: string,
-    amount: number
+    amount: Points
 ): Transaction {
     const tx = new Transaction();
     const packageId = getPackageId(DEFAULT_NETWORK);
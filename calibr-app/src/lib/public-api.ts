@@ -0,0 +1,187 @@
+/**
+ * Calibr Protocol - Public API
+ *
+ * Shared plumbing for the read-only REST API under /api/v1: pagination,
+ * JSON serialization, ETag revalidation and error responses. The route
+ * handlers load data through the same lib loaders as the UI hooks, so the
+ * API and the site always agree. The contract is documented in
+ * lib/openapi.ts; change both together.
+ */
+
+import { isValidSuiAddress, normalizeSuiAddress } from "@mysten/sui/utils";
+
+// ============================================================
+// ERRORS
+// ============================================================
+
+export type ApiErrorCode = "bad_request" | "not_found" | "upstream_error";
+
+/**
+ * A failure the client should see, rendered as { error: { code, message } }
+ */
+export class ApiError extends Error {
+    readonly status: number;
+    readonly code: ApiErrorCode;
+
+    constructor(status: number, code: ApiErrorCode, message: string) {
+        super(message);
+        this.name = "ApiError";
+        this.status = status;
+        this.code = code;
+    }
+}
+
+// ============================================================
+// PARAMETERS
+// ============================================================
+
+export const DEFAULT_PAGE_LIMIT = 20;
+export const MAX_PAGE_LIMIT = 100;
+
+export interface Pagination {
+    limit: number;
+    offset: number;
+    total: number;
+    /** Offset of the next page; null on the last page */
+    nextOffset: number | null;
+}
+
+export interface Page<T> {
+    data: T[];
+    pagination: Pagination;
+}
+
+function integerParam(params: URLSearchParams, name: string, fallback: number, min: number, max: number): number {
+    const raw = params.get(name);
+    if (raw === null || raw === "") return fallback;
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < min || value > max) {
+        throw new ApiError(400, "bad_request", `${name} must be an integer from ${min} to ${max}`);
+    }
+    return value;
+}
+
+export interface PageRequest {
+    limit: number;
+    offset: number;
+}
+
+/**
+ * Read ?limit= and ?offset=. Parse before loading, so bad input fails fast.
+ */
+export function parsePageRequest(params: URLSearchParams): PageRequest {
+    return {
+        limit: integerParam(params, "limit", DEFAULT_PAGE_LIMIT, 1, MAX_PAGE_LIMIT),
+        offset: integerParam(params, "offset", 0, 0, Number.MAX_SAFE_INTEGER),
+    };
+}
+
+/**
+ * Slice one page out of a full result set
+ */
+export function paginate<T>(items: T[], { limit, offset }: PageRequest): Page<T> {
+    const end = offset + limit;
+
+    return {
+        data: items.slice(offset, end),
+        pagination: {
+            limit,
+            offset,
+            total: items.length,
+            nextOffset: end < items.length ? end : null,
+        },
+    };
+}
+
+/**
+ * One of a fixed set of values, or the fallback when the parameter is absent
+ */
+export function enumParam<T extends string>(params: URLSearchParams, name: string, values: readonly T[], fallback: T): T {
+    const raw = params.get(name);
+    if (raw === null || raw === "") return fallback;
+    if (!values.includes(raw as T)) {
+        throw new ApiError(400, "bad_request", `${name} must be one of: ${values.join(", ")}`);
+    }
+    return raw as T;
+}
+
+/**
+ * A Sui address in its canonical 0x + 64 hex form
+ */
+export function parseAddress(raw: string): string {
+    const address = normalizeSuiAddress(decodeURIComponent(raw).trim());
+    if (!isValidSuiAddress(address)) {
+        throw new ApiError(400, "bad_request", `"${raw}" is not a Sui address`);
+    }
+    return address;
+}
+
+// ============================================================
+// RESPONSES
+// ============================================================
+
+const CORS_HEADERS = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Expose-Headers": "ETag",
+};
+
+// Amounts are bigint; JSON carries them as decimal strings
+function serialize(body: unknown): string {
+    return JSON.stringify(body, (_key, value) => (typeof value === "bigint" ? value.toString() : value));
+}
+
+async function computeEtag(text: string): Promise<string> {
+    const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+    const hex = Array.from(new Uint8Array(digest).slice(0, 16), b => b.toString(16).padStart(2, "0")).join("");
+    return `"${hex}"`;
+}
+
+function matchesEtag(request: Request, etag: string): boolean {
+    const header = request.headers.get("If-None-Match");
+    if (!header) return false;
+    return header === "*" || header.split(",").some(tag => tag.trim().replace(/^W\//, "") === etag);
+}
+
+/**
+ * JSON response with an ETag, or 304 Not Modified when the client's copy is current
+ */
+export async function apiJson(request: Request, body: unknown, maxAgeSeconds: number = 30): Promise<Response> {
+    const text = serialize(body);
+    const etag = await computeEtag(text);
+    const headers = {
+        ...CORS_HEADERS,
+        "ETag": etag,
+        "Cache-Control": `public, max-age=${maxAgeSeconds}, stale-while-revalidate=${maxAgeSeconds * 2}`,
+    };
+
+    if (matchesEtag(request, etag)) {
+        return new Response(null, { status: 304, headers });
+    }
+    return new Response(text, { headers: { ...headers, "Content-Type": "application/json; charset=utf-8" } });
+}
+
+function apiErrorResponse(error: ApiError): Response {
+    return new Response(serialize({ error: { code: error.code, message: error.message } }), {
+        status: error.status,
+        headers: { ...CORS_HEADERS, "Content-Type": "application/json; charset=utf-8", "Cache-Control": "no-store" },
+    });
+}
+
+/**
+ * Run a route handler's loader and render its result. ApiErrors become
+ * their own status; anything else means the chain or indexer failed.
+ */
+export async function handleApiRequest(
+    request: Request,
+    load: (params: URLSearchParams) => Promise<unknown>,
+    maxAgeSeconds?: number
+): Promise<Response> {
+    try {
+        const body = await load(new URL(request.url).searchParams);
+        return await apiJson(request, body, maxAgeSeconds);
+    } catch (error) {
+        if (error instanceof ApiError) return apiErrorResponse(error);
+        console.error("Public API request failed:", error);
+        return apiErrorResponse(new ApiError(502, "upstream_error", "Market data is temporarily unavailable"));
+    }
+}
@@ -0,0 +1,43 @@
+/**
+ * Calibr Protocol - Recorded RPC Fixtures
+ *
+ * Fullnode responses captured by scripts/record-fixtures.ts, replayed by
+ * SuiRpcClient when DATA_SOURCE=fixture so the app runs without network
+ * access. Every call is looked up by its method and exact params, so a page
+ * renders the same data on every load.
+ */
+
+import type { NetworkType } from "./sui-config";
+
+export type RecordedResponse =
+    | { result: unknown }
+    | { error: { code: number; message: string; data?: unknown } };
+
+export interface RpcFixtureFile {
+    network: NetworkType;
+    /** ISO timestamp of the recording session */
+    recordedAt: string | null;
+    /** Wallet the recording was made with; treated as connected in fixture mode */
+    demoAddress: string | null;
+    responses: Record<string, RecordedResponse>;
+}
+
+/**
+ * Lookup key for one call. scripts/record-fixtures.ts mirrors this, keying
+ * on the params exactly as the client serialized them.
+ */
+export function fixtureKey(method: string, params: unknown[]): string {
+    return `${method} ${JSON.stringify(params)}`;
+}
+
+let fixtures: Promise<RpcFixtureFile> | null = null;
+
+/**
+ * Load the fixture file once. Imported lazily so chain mode never ships it.
+ */
+export function loadRpcFixtures(): Promise<RpcFixtureFile> {
+    if (!fixtures) {
+        fixtures = import("@/data/fixtures/rpc.json").then(mod => (mod.default ?? mod) as unknown as RpcFixtureFile);
+    }
+    return fixtures;
+}
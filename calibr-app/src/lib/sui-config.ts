@@ -38,12 +38,34 @@ export const CONTRACT_IDS = {
 // Default network for the app
 export const DEFAULT_NETWORK: NetworkType = "testnet";
 
-import { createNetworkConfig } from "@mysten/dapp-kit";
-export const { networkConfig, useNetworkVariable } = createNetworkConfig({
-  testnet: { url: "https://fullnode.testnet.sui.io:443" },
-  mainnet: { url: "https://fullnode.mainnet.sui.io:443" },
-  devnet: { url: "https://fullnode.devnet.sui.io:443" },
-} as any);
+// Optional fullnode override for DEFAULT_NETWORK, e.g. the fixture recorder
+// proxy (scripts/record-fixtures.ts) or the local chain emulator (scripts/chain-emulator.ts)
+export const RPC_URL_OVERRIDE = (process.env.NEXT_PUBLIC_SUI_RPC_URL || "").replace(/\/$/, "");
+
+export function getRpcUrl(network: NetworkType = DEFAULT_NETWORK): string {
+  return network === DEFAULT_NETWORK && RPC_URL_OVERRIDE ? RPC_URL_OVERRIDE : NETWORK_URLS[network];
+}
+
+// Secret key (suiprivkey...) that signs in place of a browser wallet. Only for
+// throwaway keys on a local chain; scripts/chain-emulator.ts prints one.
+export const LOCAL_SIGNER_KEY = process.env.NEXT_PUBLIC_LOCAL_SIGNER_KEY || "";
+
+// Where chain reads come from. "fixture" replays responses recorded into
+// src/data/fixtures/rpc.json instead of touching the network.
+export type DataSource = "chain" | "fixture";
+export const DATA_SOURCE: DataSource = process.env.DATA_SOURCE === "fixture" ? "fixture" : "chain";
+
+// Optional Calibr indexer (scripts/indexer.ts). When set, data hooks read full
+// history from it instead of paging events from the fullnode.
+export const INDEXER_URL = (process.env.NEXT_PUBLIC_INDEXER_URL || "").replace(/\/$/, "");
+
+// Optional market metadata service (scripts/metadata-service.ts). When set,
+// categories, tags and market documents are read from and saved to it;
+// otherwise the registry embedded at src/data/market-metadata.json is used read-only.
+export const METADATA_URL = (process.env.NEXT_PUBLIC_METADATA_URL || "").replace(/\/$/, "");
+
+// Public origin of the app, for share links and absolute OpenGraph URLs
+export const SITE_URL = (process.env.NEXT_PUBLIC_SITE_URL || "https://calibr.app").replace(/\/$/, "");
 
 // Helper to get explorer URL for transactions
 export function getExplorerUrl(type: "tx" | "object" | "address", id: string, network: NetworkType = DEFAULT_NETWORK) {
@@ -90,6 +112,4 @@ export function getMaxConfidence(reputation: number): number {
 }
 
 // Calculate risk based on confidence (Calibr formula)
-export function calculateRisk(confidence: number): number {
-  return Math.max(5, Math.round(100 * (confidence - 50) / 40));
-}
+export { riskFromConfidence as calculateRisk } from "./payout-preview";
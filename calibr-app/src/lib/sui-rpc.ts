@@ -0,0 +1,321 @@
+/**
+ * Calibr Protocol - Sui JSON-RPC Client
+ *
+ * The single fetch path for chain reads. Network-aware through NETWORK_URLS,
+ * with typed methods, retry with exponential backoff, and transparent
+ * batching of calls made in the same tick into one JSON-RPC batch request.
+ * With DATA_SOURCE=fixture every call is answered from recorded fixtures.
+ */
+
+import type {
+    CoinBalance,
+    DryRunTransactionBlockResponse,
+    EventId,
+    PaginatedEvents,
+    PaginatedObjectsResponse,
+    SuiEvent,
+    SuiEventFilter,
+    SuiObjectDataOptions,
+    SuiObjectResponse,
+    SuiObjectResponseQuery,
+} from "@mysten/sui/jsonRpc";
+import { DATA_SOURCE, DEFAULT_NETWORK, getRpcUrl, type NetworkType } from "./sui-config";
+import { fixtureKey, loadRpcFixtures } from "./rpc-fixtures";
+
+// ============================================================
+// ERRORS
+// ============================================================
+
+export type SuiRpcErrorKind =
+    | "network" // fetch itself failed (offline, DNS, CORS)
+    | "http"    // non-2xx response from the fullnode
+    | "rpc"     // JSON-RPC error object in the response
+    | "invalid" // response could not be parsed
+    | "fixture"; // no recorded response for this call (DATA_SOURCE=fixture)
+
+/**
+ * Every failure from the RPC client is a SuiRpcError, so callers can
+ * branch on `kind` instead of string-matching messages.
+ */
+export class SuiRpcError extends Error {
+    readonly kind: SuiRpcErrorKind;
+    readonly method: string;
+    /** HTTP status for "http" errors, JSON-RPC error code for "rpc" errors */
+    readonly code?: number;
+    readonly data?: unknown;
+
+    constructor(kind: SuiRpcErrorKind, method: string, message: string, code?: number, data?: unknown) {
+        super(`${method}: ${message}`);
+        this.name = "SuiRpcError";
+        this.kind = kind;
+        this.method = method;
+        this.code = code;
+        this.data = data;
+    }
+
+    /** Transient failures worth retrying: network errors, rate limits and 5xx responses */
+    get retryable(): boolean {
+        if (this.kind === "network") return true;
+        if (this.kind === "http") return this.code === 429 || (this.code ?? 0) >= 500;
+        return false;
+    }
+}
+
+// ============================================================
+// CLIENT
+// ============================================================
+
+export interface SuiRpcClientOptions {
+    /** Override the fullnode URL (defaults to getRpcUrl(network)) */
+    url?: string;
+    /** Retries after the first attempt for retryable failures */
+    maxRetries?: number;
+    /** Base delay for exponential backoff (doubles each retry) */
+    retryBaseDelayMs?: number;
+    /** How long to collect calls before flushing them as one batch */
+    batchWindowMs?: number;
+    /** Upper bound on calls per batch request */
+    maxBatchSize?: number;
+}
+
+interface PendingCall {
+    id: number;
+    method: string;
+    params: unknown[];
+    resolve: (value: any) => void;
+    reject: (error: SuiRpcError) => void;
+}
+
+// sui_multiGetObjects rejects more than 50 IDs per call
+const MULTI_GET_LIMIT = 50;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class SuiRpcClient {
+    readonly network: NetworkType;
+    readonly url: string;
+    private readonly maxRetries: number;
+    private readonly retryBaseDelayMs: number;
+    private readonly batchWindowMs: number;
+    private readonly maxBatchSize: number;
+
+    private nextId = 1;
+    private queue: PendingCall[] = [];
+    private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(network: NetworkType = DEFAULT_NETWORK, options: SuiRpcClientOptions = {}) {
+        this.network = network;
+        this.url = options.url ?? getRpcUrl(network);
+        this.maxRetries = options.maxRetries ?? 3;
+        this.retryBaseDelayMs = options.retryBaseDelayMs ?? 250;
+        this.batchWindowMs = options.batchWindowMs ?? 10;
+        this.maxBatchSize = options.maxBatchSize ?? 20;
+    }
+
+    /**
+     * Make a raw JSON-RPC call. Calls made within `batchWindowMs` of each
+     * other are sent together as a single batch request.
+     */
+    call<T>(method: string, params: unknown[]): Promise<T> {
+        if (DATA_SOURCE === "fixture") {
+            return this.replay<T>(method, params);
+        }
+
+        return new Promise<T>((resolve, reject) => {
+            this.queue.push({ id: this.nextId++, method, params, resolve, reject });
+
+            if (this.queue.length >= this.maxBatchSize) {
+                this.flush();
+            } else if (!this.flushTimer) {
+                this.flushTimer = setTimeout(() => this.flush(), this.batchWindowMs);
+            }
+        });
+    }
+
+    private async replay<T>(method: string, params: unknown[]): Promise<T> {
+        const fixtures = await loadRpcFixtures();
+        const recorded = fixtures.responses[fixtureKey(method, params)];
+        if (!recorded) {
+            throw new SuiRpcError("fixture", method, `No recorded response for ${JSON.stringify(params)}`);
+        }
+        if ("error" in recorded) {
+            const { code, message, data } = recorded.error;
+            throw new SuiRpcError("rpc", method, message, code, data);
+        }
+        return recorded.result as T;
+    }
+
+    private flush() {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = null;
+        }
+        const batch = this.queue.splice(0, this.maxBatchSize);
+        if (batch.length > 0) {
+            void this.send(batch);
+        }
+        if (this.queue.length > 0) {
+            this.flushTimer = setTimeout(() => this.flush(), this.batchWindowMs);
+        }
+    }
+
+    private async send(batch: PendingCall[], attempt: number = 0): Promise<void> {
+        const label = batch.length === 1 ? batch[0].method : `batch(${batch.length})`;
+        const payload = batch.map(({ id, method, params }) => ({ jsonrpc: "2.0", id, method, params }));
+
+        let responses: any[];
+        try {
+            responses = await this.post(label, batch.length === 1 ? payload[0] : payload);
+        } catch (error) {
+            const rpcError = error as SuiRpcError;
+            if (rpcError.retryable && attempt < this.maxRetries) {
+                const jitter = Math.random() * this.retryBaseDelayMs;
+                await sleep(this.retryBaseDelayMs * 2 ** attempt + jitter);
+                return this.send(batch, attempt + 1);
+            }
+            batch.forEach(call => call.reject(rpcError));
+            return;
+        }
+
+        const byId = new Map(responses.map(r => [r?.id, r]));
+        for (const call of batch) {
+            const response = byId.get(call.id);
+            if (!response) {
+                call.reject(new SuiRpcError("invalid", call.method, "Missing response in batch"));
+            } else if (response.error) {
+                call.reject(new SuiRpcError("rpc", call.method, response.error.message, response.error.code, response.error.data));
+            } else {
+                call.resolve(response.result);
+            }
+        }
+    }
+
+    private async post(label: string, body: unknown): Promise<any[]> {
+        let res: Response;
+        try {
+            res = await fetch(this.url, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(body),
+            });
+        } catch (error) {
+            throw new SuiRpcError("network", label, error instanceof Error ? error.message : "Request failed");
+        }
+
+        if (!res.ok) {
+            throw new SuiRpcError("http", label, `HTTP ${res.status} ${res.statusText}`, res.status);
+        }
+
+        let json: unknown;
+        try {
+            json = await res.json();
+        } catch {
+            throw new SuiRpcError("invalid", label, "Response was not valid JSON");
+        }
+        return Array.isArray(json) ? json : [json];
+    }
+
+    // ============================================================
+    // TYPED METHODS
+    // ============================================================
+
+    queryEvents(
+        query: SuiEventFilter,
+        { cursor = null, limit = 50, descending = false }: { cursor?: EventId | null; limit?: number; descending?: boolean } = {}
+    ): Promise<PaginatedEvents> {
+        return this.call("suix_queryEvents", [query, cursor, limit, descending]);
+    }
+
+    /**
+     * Page through events until exhausted (or `maxPages` is reached).
+     */
+    async queryAllEvents(
+        query: SuiEventFilter,
+        { descending = false, maxPages = Infinity }: { descending?: boolean; maxPages?: number } = {}
+    ): Promise<SuiEvent[]> {
+        const events: SuiEvent[] = [];
+        let cursor: EventId | null = null;
+
+        for (let page = 0; page < maxPages; page++) {
+            const result = await this.queryEvents(query, { cursor, descending });
+            events.push(...result.data);
+            if (!result.hasNextPage || !result.nextCursor) break;
+            cursor = result.nextCursor;
+        }
+
+        return events;
+    }
+
+    getObject(objectId: string, options: SuiObjectDataOptions = { showContent: true }): Promise<SuiObjectResponse> {
+        return this.call("sui_getObject", [objectId, options]);
+    }
+
+    /**
+     * Fetch many objects, chunked to the fullnode's per-call limit.
+     * Results keep the order of `objectIds`.
+     */
+    async multiGetObjects(objectIds: string[], options: SuiObjectDataOptions = { showContent: true }): Promise<SuiObjectResponse[]> {
+        const chunks: string[][] = [];
+        for (let i = 0; i < objectIds.length; i += MULTI_GET_LIMIT) {
+            chunks.push(objectIds.slice(i, i + MULTI_GET_LIMIT));
+        }
+        const results = await Promise.all(
+            chunks.map(chunk => this.call<SuiObjectResponse[]>("sui_multiGetObjects", [chunk, options]))
+        );
+        return results.flat();
+    }
+
+    getOwnedObjects(
+        owner: string,
+        query: SuiObjectResponseQuery,
+        { cursor = null, limit = 50 }: { cursor?: string | null; limit?: number } = {}
+    ): Promise<PaginatedObjectsResponse> {
+        return this.call("suix_getOwnedObjects", [owner, query, cursor, limit]);
+    }
+
+    /**
+     * Page through every object owned by `owner` that matches `query`.
+     */
+    async getAllOwnedObjects(owner: string, query: SuiObjectResponseQuery): Promise<SuiObjectResponse[]> {
+        const objects: SuiObjectResponse[] = [];
+        let cursor: string | null = null;
+
+        while (true) {
+            const result = await this.getOwnedObjects(owner, query, { cursor });
+            objects.push(...result.data);
+            if (!result.hasNextPage || !result.nextCursor) break;
+            cursor = result.nextCursor;
+        }
+
+        return objects;
+    }
+
+    getBalance(owner: string, coinType: string = "0x2::sui::SUI"): Promise<CoinBalance> {
+        return this.call("suix_getBalance", [owner, coinType]);
+    }
+
+    /**
+     * Execute built transaction bytes (base64) without committing anything
+     */
+    dryRunTransactionBlock(txBytes: string): Promise<DryRunTransactionBlockResponse> {
+        return this.call("sui_dryRunTransactionBlock", [txBytes]);
+    }
+}
+
+// ============================================================
+// SHARED INSTANCES
+// ============================================================
+
+const clients = new Map<NetworkType, SuiRpcClient>();
+
+/**
+ * Shared client per network, so concurrent hooks batch together.
+ */
+export function getSuiRpcClient(network: NetworkType = DEFAULT_NETWORK): SuiRpcClient {
+    let client = clients.get(network);
+    if (!client) {
+        client = new SuiRpcClient(network);
+        clients.set(network, client);
+    }
+    return client;
+}
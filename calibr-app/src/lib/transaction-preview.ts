@@ -0,0 +1,159 @@
+/**
+ * Calibr Protocol - Transaction Preview
+ *
+ * Dry-runs a transaction against the fullnode before the wallet is asked to
+ * sign it, and decodes what would happen: gas, the sender's balance changes,
+ * created objects, emitted events, or why it would abort. Every transaction
+ * goes through this in WalletContext, so a doomed one never reaches the
+ * wallet prompt.
+ */
+
+import { Transaction } from "@mysten/sui/transactions";
+import { SuiJsonRpcClient, type DryRunTransactionBlockResponse } from "@mysten/sui/jsonRpc";
+import { toBase64 } from "@mysten/sui/utils";
+import { DEFAULT_NETWORK, getRpcUrl } from "./sui-config";
+import { getSuiRpcClient } from "./sui-rpc";
+import { decodeEvent } from "./calibr-events";
+import { getErrorMessage } from "./calibr-types";
+import { Mist, add, mist, sub } from "./amounts";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface GasEstimate {
+    computation: Mist;
+    storage: Mist;
+    rebate: Mist;
+    /** What the sender actually pays: computation + storage - rebate */
+    total: Mist;
+}
+
+export interface BalanceDelta {
+    coinType: string;
+    symbol: string;     // Last segment of the coin type, e.g. "SUI"
+    amount: bigint;     // Raw units; negative when spent
+}
+
+export interface CreatedObject {
+    objectId: string;
+    typeName: string;   // module::Struct, without the package address
+}
+
+export interface TransactionFailure {
+    message: string;            // Friendly explanation
+    abortCode: number | null;   // Move abort code, when the contract aborted
+    module: string | null;      // Module that aborted
+    raw: string;                // The fullnode's error text
+}
+
+export interface TransactionPreview {
+    success: boolean;
+    gas: GasEstimate | null;    // null when the transaction couldn't be built
+    balanceChanges: BalanceDelta[];
+    createdObjects: CreatedObject[];
+    events: string[];           // Event names, in emission order
+    failure: TransactionFailure | null;
+}
+
+// ============================================================
+// DRY RUN
+// ============================================================
+
+let builderClient: SuiJsonRpcClient | null = null;
+
+// Building resolves gas coins, prices and object versions through the SDK client
+function getBuilderClient(): SuiJsonRpcClient {
+    if (!builderClient) {
+        builderClient = new SuiJsonRpcClient({ url: getRpcUrl(), network: DEFAULT_NETWORK });
+    }
+    return builderClient;
+}
+
+/**
+ * Simulate a transaction as `sender`. Never throws: a transaction that
+ * can't be built or simulated comes back as a failed preview.
+ */
+export async function previewTransaction(tx: Transaction, sender: string): Promise<TransactionPreview> {
+    try {
+        tx.setSenderIfNotSet(sender);
+        const bytes = await tx.build({ client: getBuilderClient() });
+        const result = await getSuiRpcClient().dryRunTransactionBlock(toBase64(bytes));
+        return decodeDryRun(result, sender);
+    } catch (error) {
+        const raw = error instanceof Error ? error.message : String(error);
+        return {
+            success: false,
+            gas: null,
+            balanceChanges: [],
+            createdObjects: [],
+            events: [],
+            failure: decodeExecutionError(raw),
+        };
+    }
+}
+
+function decodeDryRun(result: DryRunTransactionBlockResponse, sender: string): TransactionPreview {
+    const { status, gasUsed } = result.effects;
+    const computation = mist(gasUsed.computationCost);
+    const storage = mist(gasUsed.storageCost);
+    const rebate = mist(gasUsed.storageRebate);
+
+    const balanceChanges = result.balanceChanges
+        .filter(change => typeof change.owner === "object" && "AddressOwner" in change.owner && change.owner.AddressOwner === sender)
+        .map(change => ({
+            coinType: change.coinType,
+            symbol: change.coinType.split("::").pop() ?? change.coinType,
+            amount: BigInt(change.amount),
+        }));
+
+    const createdObjects = result.objectChanges.flatMap(change =>
+        change.type === "created"
+            ? [{ objectId: change.objectId, typeName: shortTypeName(change.objectType) }]
+            : []
+    );
+
+    const events = result.events.map(event => decodeEvent(event)?.type ?? shortTypeName(event.type));
+
+    return {
+        success: status.status === "success",
+        gas: { computation, storage, rebate, total: sub(add(computation, storage), rebate) },
+        balanceChanges,
+        createdObjects,
+        events,
+        failure: status.status === "success" ? null : decodeExecutionError(status.error ?? "Execution failed"),
+    };
+}
+
+// 0xabc::calibr::Prediction -> calibr::Prediction (type arguments kept short too)
+function shortTypeName(type: string): string {
+    return type.replace(/0x[0-9a-fA-F]+::/g, "");
+}
+
+// ============================================================
+// ERRORS
+// ============================================================
+
+// MoveAbort(MoveLocation { module: ModuleId { address: 0x.., name: Identifier("prediction") }, ... }, 409) in command 0
+const MOVE_ABORT_PATTERN = /MoveAbort\(.*?name: Identifier\("(\w+)"\).*?,\s*(\d+)\)/;
+
+/**
+ * Turn a fullnode or SDK error into something a user can act on
+ */
+export function decodeExecutionError(raw: string): TransactionFailure {
+    const abort = MOVE_ABORT_PATTERN.exec(raw);
+    if (abort) {
+        const code = Number(abort[2]);
+        return { message: getErrorMessage(code), abortCode: code, module: abort[1], raw };
+    }
+
+    let message = raw;
+    if (/InsufficientCoinBalance/.test(raw)) {
+        message = "Not enough SUI for this transaction";
+    } else if (/InsufficientGas|No valid gas coins|gas balance/i.test(raw)) {
+        message = "Not enough SUI to pay for gas";
+    } else if (/ObjectVersionUnavailable|not available for consumption/i.test(raw)) {
+        message = "An object changed since this was prepared. Try again.";
+    }
+    return { message, abortCode: null, module: null, raw };
+}
@@ -0,0 +1,240 @@
+/**
+ * Calibr Protocol - User Predictions
+ *
+ * A wallet's Prediction objects joined with their settlement outcomes
+ * (payout, reputation change, tier change). Shared by the prediction hooks
+ * and server code (page metadata, OpenGraph images).
+ */
+
+import { getSuiRpcClient } from "./sui-rpc";
+import { decodeEvent, linkSettlements, type CalibrEvent } from "./calibr-events";
+import { getPredictionStructType, parsePrediction, type ParsedPrediction } from "./calibr-types";
+import { fetchIndexedUserPredictions, isIndexerEnabled } from "./indexer-client";
+import { Points, points } from "./amounts";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/**
+ * "settled" is a settled prediction whose settlement events couldn't be
+ * found, so whether it won is unknown. It can't be settled again.
+ */
+export type PredictionStatus = "active" | "won" | "lost" | "settled";
+
+export interface UserPrediction {
+    predictionId: string;
+    marketId: string;
+    side: boolean; // true = YES, false = NO
+    confidence: number;
+    risk: number;
+    stake: number;
+    status: PredictionStatus;
+    payout?: Points;
+    profit?: Points;
+    loss?: Points;
+    reputationChange?: number; // positive = gained, negative = lost
+    oldScore?: number;
+    newScore?: number;
+    skillScore?: number;
+    tierChange?: TierChange; // Only when this settlement moved the user across a tier boundary
+}
+
+export interface TierChange {
+    oldTier: string;
+    newTier: string;
+    oldCap: number;
+    newCap: number;
+}
+
+/**
+ * A single prediction with the wallet that placed it, for permalinks
+ */
+export interface PredictionDetails extends UserPrediction {
+    user: string;
+}
+
+export interface CalibrationSummary {
+    settled: number;
+    wins: number;
+    winRate: number;            // 0-100
+    meanConfidence: number;     // 0-100
+    /** meanConfidence - winRate: positive when overconfident */
+    calibrationGap: number;
+}
+
+// ============================================================
+// LOADING
+// ============================================================
+
+/**
+ * Every prediction owned by an address, settled ones with their outcome
+ */
+export async function loadUserPredictions(address: string): Promise<UserPrediction[]> {
+    // 1. Owned Prediction objects are the source of truth for positions
+    const objects = await getSuiRpcClient().getAllOwnedObjects(address, {
+        filter: { StructType: getPredictionStructType() },
+        options: { showContent: true, showPreviousTransaction: true },
+    });
+
+    const positions = objects.flatMap((obj) => {
+        const content = obj.data?.content;
+        if (content?.dataType !== "moveObject") return [];
+        const fields = content.fields as any;
+        return [{
+            prediction: parsePrediction({ ...fields, id: obj.data!.objectId }),
+            previousTransaction: obj.data!.previousTransaction ?? null,
+        }];
+    });
+
+    // 2. Enrich settled positions with their settlement outcome
+    const outcomes = isIndexerEnabled()
+        ? await fetchOutcomesFromIndexer(address)
+        : await fetchOutcomesFromChain(
+            positions.filter(p => p.prediction.settled).map(p => p.previousTransaction)
+        );
+
+    // 3. Combine into UserPrediction format
+    return positions.map(({ prediction }) => toUserPrediction(prediction, outcomes.get(prediction.id)));
+}
+
+/**
+ * One prediction by object ID. Returns null when it doesn't exist or isn't a Prediction.
+ */
+export async function loadPrediction(predictionId: string): Promise<PredictionDetails | null> {
+    const obj = await getSuiRpcClient().getObject(predictionId, {
+        showContent: true,
+        showOwner: true,
+        showPreviousTransaction: true,
+    });
+
+    const content = obj.data?.content;
+    const owner = obj.data?.owner;
+    if (content?.dataType !== "moveObject" || !content.type.endsWith("::calibr::Prediction")) return null;
+    if (!owner || typeof owner !== "object" || !("AddressOwner" in owner)) return null;
+
+    const prediction = parsePrediction({ ...(content.fields as any), id: predictionId });
+    const user = owner.AddressOwner;
+    const outcomes = !prediction.settled
+        ? new Map<string, SettlementDetails>()
+        : isIndexerEnabled()
+            ? await fetchOutcomesFromIndexer(user)
+            : await fetchOutcomesFromChain([obj.data!.previousTransaction ?? null]);
+
+    return { ...toUserPrediction(prediction, outcomes.get(prediction.id)), user };
+}
+
+/**
+ * How well stated confidence matched results across settled predictions
+ */
+export function summarizeCalibration(predictions: UserPrediction[]): CalibrationSummary {
+    // Only outcomes we know count toward calibration
+    const settled = predictions.filter(p => p.status === "won" || p.status === "lost");
+    const wins = settled.filter(p => p.status === "won").length;
+    const winRate = settled.length > 0 ? Math.round((wins / settled.length) * 100) : 0;
+    const meanConfidence = settled.length > 0
+        ? Math.round(settled.reduce((sum, p) => sum + p.confidence, 0) / settled.length)
+        : 0;
+
+    return {
+        settled: settled.length,
+        wins,
+        winRate,
+        meanConfidence,
+        calibrationGap: settled.length > 0 ? meanConfidence - winRate : 0,
+    };
+}
+
+function toUserPrediction(prediction: ParsedPrediction, outcome?: SettlementDetails): UserPrediction {
+    const won = outcome?.won;
+    const status: PredictionStatus = !prediction.settled
+        ? "active"
+        : outcome ? (won ? "won" : "lost") : "settled";
+
+    return {
+        predictionId: prediction.id,
+        marketId: prediction.marketId,
+        side: prediction.side === "yes",
+        confidence: prediction.confidence,
+        risk: prediction.risked,
+        stake: prediction.stake,
+        status,
+        payout: outcome?.payout,
+        profit: won ? outcome?.profit : undefined,
+        loss: outcome && !won ? outcome.loss : undefined,
+        reputationChange: outcome?.newScore !== undefined && outcome.oldScore !== undefined
+            ? outcome.newScore - outcome.oldScore
+            : undefined,
+        oldScore: outcome?.oldScore,
+        newScore: outcome?.newScore,
+        skillScore: outcome?.skillScore,
+        tierChange: outcome?.tierChange,
+    };
+}
+
+type SettlementDetails = Pick<
+    UserPrediction,
+    "payout" | "profit" | "loss" | "oldScore" | "newScore" | "skillScore" | "tierChange"
+> & { won: boolean };
+
+// The indexer already joins settlements with their reputation and cap-change events
+async function fetchOutcomesFromIndexer(address: string): Promise<Map<string, SettlementDetails>> {
+    const indexed = await fetchIndexedUserPredictions(address);
+    const outcomes = new Map<string, SettlementDetails>();
+
+    for (const p of indexed) {
+        if (!p.settled) continue;
+        outcomes.set(p.predictionId, {
+            won: !!p.won,
+            payout: p.payout !== null ? points(p.payout) : undefined,
+            profit: p.profit !== null ? points(p.profit) : undefined,
+            loss: p.loss !== null ? points(p.loss) : undefined,
+            oldScore: p.oldScore ?? undefined,
+            newScore: p.newScore ?? undefined,
+            skillScore: p.skillScore ?? undefined,
+            tierChange: p.newTier !== null
+                ? { oldTier: p.oldTier, newTier: p.newTier, oldCap: p.oldCap, newCap: p.newCap }
+                : undefined,
+        });
+    }
+
+    return outcomes;
+}
+
+// Settlement is the last transaction to touch a settled Prediction, so its
+// events carry the payout, reputation change and any tier change
+async function fetchOutcomesFromChain(settlementTxs: (string | null)[]): Promise<Map<string, SettlementDetails>> {
+    const client = getSuiRpcClient();
+    const digests = Array.from(new Set(settlementTxs.filter((d): d is string => d !== null)));
+    const txEvents = await Promise.all(
+        digests.map(digest => client.queryAllEvents({ Transaction: digest }))
+    );
+
+    const linked = linkSettlements(
+        txEvents.flat().map(decodeEvent).filter((e): e is CalibrEvent => e !== null)
+    );
+
+    const outcomes = new Map<string, SettlementDetails>();
+    linked.forEach(({ settled, reputation, capChange }, predictionId) => {
+        const { won, payout, profit, loss, skillScore } = settled.data;
+        outcomes.set(predictionId, {
+            won,
+            payout: points(payout),
+            profit: points(profit),
+            loss: points(loss),
+            oldScore: reputation?.data.oldScore,
+            newScore: reputation?.data.newScore,
+            skillScore,
+            tierChange: capChange
+                ? {
+                    oldTier: capChange.data.oldTier,
+                    newTier: capChange.data.newTier,
+                    oldCap: capChange.data.oldCap,
+                    newCap: capChange.data.newCap,
+                }
+                : undefined,
+        });
+    });
+
+    return outcomes;
+}
@@ -0,0 +1,27 @@
+/**
+ * Calibr Protocol - User Profile Loading
+ *
+ * Reads any address's UserProfile object. The connected wallet's profile
+ * lives in WalletContext; this is for server code (page metadata, OpenGraph
+ * images) that needs someone else's.
+ */
+
+import { getSuiRpcClient } from "./sui-rpc";
+import { getUserProfileStructType, parseUserProfile, type ParsedUserProfile } from "./calibr-types";
+
+/**
+ * Load the profile owned by an address. Returns null when it has none.
+ */
+export async function loadUserProfile(address: string): Promise<ParsedUserProfile | null> {
+    const result = await getSuiRpcClient().getOwnedObjects(
+        address,
+        { filter: { StructType: getUserProfileStructType() }, options: { showContent: true } },
+        { limit: 1 }
+    );
+
+    const data = result.data[0]?.data;
+    if (data?.content?.dataType !== "moveObject") return null;
+
+    const fields = data.content.fields as any;
+    return parseUserProfile({ ...fields, id: data.objectId });
+}
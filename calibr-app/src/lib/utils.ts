@@ -4,3 +4,12 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+/**
+ * "Jan 5, 2026 UTC" — for server-rendered dates, which would otherwise
+ * follow the host's timezone
+ */
+export function formatUtcDate(ms: number) {
+  const date = new Date(ms).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric", timeZone: "UTC" });
+  return `${date} UTC`;
+}
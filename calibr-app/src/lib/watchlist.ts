@@ -0,0 +1,161 @@
+/**
+ * Calibr Protocol - Watchlists
+ *
+ * Markets a wallet follows without predicting on them. Each entry records the
+ * YES probability when it was added, so the change since then can be shown.
+ *
+ * Watchlists are kept in localStorage per address. When a metadata service
+ * is configured they're also synced through it: the whole list is signed by
+ * the watching wallet and the newer copy wins.
+ */
+
+import { METADATA_URL } from "./sui-config";
+import { isMetadataServiceEnabled } from "./market-metadata";
+import type { Market } from "./calibr-types";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface WatchlistEntry {
+    marketId: string;
+    addedAtMs: number;
+    probabilityAtAdd: number;   // YES percentage when added
+}
+
+export interface Watchlist {
+    entries: WatchlistEntry[];  // Most recently added first
+    updatedAtMs: number;        // 0 for a list that was never saved
+}
+
+/** Signed by the watching wallet; the service only accepts its own address */
+export interface WatchlistUpdate {
+    action: "calibr:set-watchlist";
+    address: string;
+    entries: WatchlistEntry[];
+    updatedAtMs: number;
+}
+
+export const EMPTY_WATCHLIST: Watchlist = { entries: [], updatedAtMs: 0 };
+
+export const MAX_WATCHLIST_SIZE = 200;
+
+// ============================================================
+// EDITING
+// ============================================================
+
+export function isWatching(watchlist: Watchlist, marketId: string): boolean {
+    return watchlist.entries.some(e => e.marketId === marketId);
+}
+
+/**
+ * Add a market, or remove it if it's already watched
+ */
+export function toggleWatch(watchlist: Watchlist, market: Pick<Market, "id" | "yesPercentage">): Watchlist {
+    const entries = isWatching(watchlist, market.id)
+        ? watchlist.entries.filter(e => e.marketId !== market.id)
+        : [
+            { marketId: market.id, addedAtMs: Date.now(), probabilityAtAdd: market.yesPercentage },
+            ...watchlist.entries,
+        ].slice(0, MAX_WATCHLIST_SIZE);
+    return { entries, updatedAtMs: Date.now() };
+}
+
+/**
+ * Percentage points the YES probability has moved since the market was added
+ */
+export function probabilityChange(entry: WatchlistEntry, market: Pick<Market, "yesPercentage">): number {
+    return market.yesPercentage - entry.probabilityAtAdd;
+}
+
+// ============================================================
+// LOCAL STORAGE
+// ============================================================
+
+function storageKey(address: string): string {
+    return `calibr_watchlist_${address}`;
+}
+
+export function readLocalWatchlist(address: string): Watchlist {
+    if (typeof window === "undefined") return EMPTY_WATCHLIST;
+    try {
+        const stored = localStorage.getItem(storageKey(address));
+        return stored ? JSON.parse(stored) : EMPTY_WATCHLIST;
+    } catch {
+        return EMPTY_WATCHLIST;
+    }
+}
+
+export function writeLocalWatchlist(address: string, watchlist: Watchlist) {
+    localStorage.setItem(storageKey(address), JSON.stringify(watchlist));
+}
+
+// ============================================================
+// SYNC
+// ============================================================
+
+export function isWatchlistSyncEnabled(): boolean {
+    return isMetadataServiceEnabled();
+}
+
+async function fetchRemoteWatchlist(address: string): Promise<Watchlist | null> {
+    const res = await fetch(`${METADATA_URL}/watchlists/${address}`);
+    if (res.status === 404) return null;
+    if (!res.ok) {
+        throw new Error(`Metadata request failed (${res.status}): /watchlists/${address}`);
+    }
+    return res.json();
+}
+
+/**
+ * Load a wallet's watchlist, preferring the synced copy when it's newer.
+ * Reading never asks for a signature; a newer local copy is pushed on the next edit.
+ */
+export async function loadWatchlist(address: string): Promise<Watchlist> {
+    const local = readLocalWatchlist(address);
+    if (!isWatchlistSyncEnabled()) return local;
+
+    try {
+        const remote = await fetchRemoteWatchlist(address);
+        if (remote && remote.updatedAtMs > local.updatedAtMs) {
+            writeLocalWatchlist(address, remote);
+            return remote;
+        }
+    } catch (error) {
+        console.error("Error loading synced watchlist:", error);
+    }
+    return local;
+}
+
+/**
+ * Sign a watchlist with the watching wallet and save it to the metadata service
+ *
+ * @param signPersonalMessage - WalletContext's signer; resolves null if the user declined
+ */
+export async function pushWatchlist(
+    address: string,
+    watchlist: Watchlist,
+    signPersonalMessage: (message: Uint8Array) => Promise<{ signature: string } | null>
+): Promise<void> {
+    const update: WatchlistUpdate = {
+        action: "calibr:set-watchlist",
+        address,
+        entries: watchlist.entries,
+        updatedAtMs: watchlist.updatedAtMs,
+    };
+    const message = JSON.stringify(update);
+    const signed = await signPersonalMessage(new TextEncoder().encode(message));
+    if (!signed) {
+        throw new Error("Watchlist update was not signed");
+    }
+
+    const res = await fetch(`${METADATA_URL}/watchlists/${address}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ message, signature: signed.signature }),
+    });
+    if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error || `Metadata request failed (${res.status})`);
+    }
+}